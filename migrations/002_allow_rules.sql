@@ -0,0 +1,24 @@
+-- Domain and wildcard allow rules
+-- Lets admins allow whole domains (e.g. *@partner.com) without inviting every address individually.
+-- Exact rows in auth_allowed_emails always take precedence over these rules.
+
+CREATE TABLE auth_allow_rules (
+  id                 BIGSERIAL PRIMARY KEY,
+  pattern            CITEXT UNIQUE NOT NULL,
+  role               TEXT DEFAULT 'viewer' CHECK (role IN ('admin', 'viewer', 'qa')),
+  description        TEXT,
+  created_by         TEXT,
+  created_at         TIMESTAMPTZ DEFAULT now(),
+  active             BOOLEAN DEFAULT TRUE
+);
+
+CREATE INDEX idx_auth_allow_rules_active ON auth_allow_rules(active) WHERE active = true;
+
+-- Allow the new admin events (and the session events already emitted by the app) in the audit log
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'session_created','session_expired','session_invalidated'
+));
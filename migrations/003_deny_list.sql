@@ -0,0 +1,19 @@
+-- Explicit deny list
+-- Emails and domain patterns listed here are blocked even when an allow entry or rule matches.
+
+CREATE TABLE auth_deny_list (
+  id                 BIGSERIAL PRIMARY KEY,
+  pattern            CITEXT UNIQUE NOT NULL,
+  reason             TEXT NOT NULL,
+  created_by         TEXT,
+  created_at         TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'session_created','session_expired','session_invalidated'
+));
@@ -0,0 +1,16 @@
+-- Time-boxed access for allow list entries
+-- Entries with an expires_at in the past are denied and deactivated by the expiry sweep.
+
+ALTER TABLE auth_allowed_emails ADD COLUMN expires_at TIMESTAMPTZ;
+
+CREATE INDEX idx_auth_allowed_emails_expires ON auth_allowed_emails(expires_at) WHERE expires_at IS NOT NULL;
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'access_expired',
+  'session_created','session_expired','session_invalidated'
+));
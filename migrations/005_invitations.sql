@@ -0,0 +1,35 @@
+-- Invitation workflow
+-- An invitation carries a signed single-use token; the invitee is added to the allow list on first sign-in.
+
+CREATE TABLE auth_invitations (
+  id                 UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email              CITEXT NOT NULL,
+  display_name       TEXT,
+  role               TEXT DEFAULT 'viewer' CHECK (role IN ('admin', 'viewer', 'qa')),
+  status             TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked', 'expired')),
+  invited_by         TEXT,
+  created_at         TIMESTAMPTZ DEFAULT now(),
+  expires_at         TIMESTAMPTZ NOT NULL,
+  last_sent_at       TIMESTAMPTZ,
+  send_count         INTEGER NOT NULL DEFAULT 0,
+  accepted_at        TIMESTAMPTZ,
+  revoked_at         TIMESTAMPTZ,
+  revoked_by         TEXT
+);
+
+CREATE INDEX idx_auth_invitations_email ON auth_invitations(email);
+CREATE INDEX idx_auth_invitations_status ON auth_invitations(status);
+
+-- Only one pending invitation per email at a time
+CREATE UNIQUE INDEX idx_auth_invitations_pending_email ON auth_invitations(email) WHERE status = 'pending';
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'admin_create_invite','admin_resend_invite','admin_revoke_invite','invite_accepted',
+  'access_expired',
+  'session_created','session_expired','session_invalidated'
+));
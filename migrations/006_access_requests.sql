@@ -0,0 +1,34 @@
+-- Self-service access requests
+-- Signed-in users who are not on the allow list can ask for access; admins approve or reject from /admin.
+
+CREATE TABLE auth_access_requests (
+  id                 UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email              CITEXT NOT NULL,
+  display_name       TEXT,
+  requested_role     TEXT DEFAULT 'viewer' CHECK (requested_role IN ('admin', 'viewer', 'qa')),
+  justification      TEXT NOT NULL,
+  status             TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_at         TIMESTAMPTZ DEFAULT now(),
+  decided_at         TIMESTAMPTZ,
+  decided_by         TEXT,
+  granted_role       TEXT CHECK (granted_role IN ('admin', 'viewer', 'qa')),
+  decision_note      TEXT
+);
+
+CREATE INDEX idx_auth_access_requests_email ON auth_access_requests(email);
+CREATE INDEX idx_auth_access_requests_status ON auth_access_requests(status);
+
+-- Only one pending request per email at a time
+CREATE UNIQUE INDEX idx_auth_access_requests_pending_email ON auth_access_requests(email) WHERE status = 'pending';
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'admin_create_invite','admin_resend_invite','admin_revoke_invite','invite_accepted',
+  'access_requested','admin_approve_access_request','admin_reject_access_request',
+  'access_expired',
+  'session_created','session_expired','session_invalidated'
+));
@@ -0,0 +1,57 @@
+-- Permission-based RBAC
+-- Roles become data: each role carries a set of named permissions instead of being a hardcoded CHECK list.
+
+CREATE TABLE auth_roles (
+  name               TEXT PRIMARY KEY CHECK (name ~ '^[a-z][a-z0-9_-]{0,49}$'),
+  description        TEXT,
+  permissions        TEXT[] NOT NULL DEFAULT '{}',
+  built_in           BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by         TEXT,
+  created_at         TIMESTAMPTZ DEFAULT now(),
+  updated_at         TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TRIGGER update_auth_roles_updated_at
+    BEFORE UPDATE ON auth_roles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Existing roles with equivalent permission sets: only admins could reach the admin API
+INSERT INTO auth_roles (name, description, permissions, built_in, created_by) VALUES
+  ('admin',  'Full access to user management, audit logs and roles', '{users:read,users:write,audit:read,roles:write}', true, 'system'),
+  ('viewer', 'Signed-in access to the application', '{}', true, 'system'),
+  ('qa',     'Signed-in access for testers', '{}', true, 'system')
+ON CONFLICT (name) DO NOTHING;
+
+-- Replace the hardcoded role CHECK constraints with references to auth_roles
+ALTER TABLE auth_allowed_emails DROP CONSTRAINT IF EXISTS auth_allowed_emails_role_check;
+ALTER TABLE auth_allowed_emails ADD CONSTRAINT auth_allowed_emails_role_fkey
+  FOREIGN KEY (role) REFERENCES auth_roles(name);
+
+ALTER TABLE auth_allow_rules DROP CONSTRAINT IF EXISTS auth_allow_rules_role_check;
+ALTER TABLE auth_allow_rules ADD CONSTRAINT auth_allow_rules_role_fkey
+  FOREIGN KEY (role) REFERENCES auth_roles(name);
+
+ALTER TABLE auth_invitations DROP CONSTRAINT IF EXISTS auth_invitations_role_check;
+ALTER TABLE auth_invitations ADD CONSTRAINT auth_invitations_role_fkey
+  FOREIGN KEY (role) REFERENCES auth_roles(name);
+
+ALTER TABLE auth_access_requests DROP CONSTRAINT IF EXISTS auth_access_requests_requested_role_check;
+ALTER TABLE auth_access_requests ADD CONSTRAINT auth_access_requests_requested_role_fkey
+  FOREIGN KEY (requested_role) REFERENCES auth_roles(name);
+
+ALTER TABLE auth_access_requests DROP CONSTRAINT IF EXISTS auth_access_requests_granted_role_check;
+ALTER TABLE auth_access_requests ADD CONSTRAINT auth_access_requests_granted_role_fkey
+  FOREIGN KEY (granted_role) REFERENCES auth_roles(name);
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'admin_create_invite','admin_resend_invite','admin_revoke_invite','invite_accepted',
+  'access_requested','admin_approve_access_request','admin_reject_access_request',
+  'admin_create_role','admin_update_role','admin_delete_role',
+  'access_expired',
+  'session_created','session_expired','session_invalidated'
+));
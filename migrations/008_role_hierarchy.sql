@@ -0,0 +1,7 @@
+-- Role hierarchy
+-- A role inherits the identity and permissions of the roles listed in inherits, so "at least qa" checks pass for admins.
+
+ALTER TABLE auth_roles ADD COLUMN inherits TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE auth_roles SET inherits = '{qa}' WHERE name = 'admin';
+UPDATE auth_roles SET inherits = '{viewer}' WHERE name = 'qa';
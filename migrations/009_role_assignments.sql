@@ -0,0 +1,29 @@
+-- Per-application role assignments
+-- Several tools share one allow list. A user can hold several roles per scope (application), e.g. admin
+-- on "billing" and viewer on "support". The role on auth_allowed_emails stays the default for every scope
+-- without explicit assignments.
+
+CREATE TABLE auth_role_assignments (
+  email              CITEXT NOT NULL REFERENCES auth_allowed_emails(email) ON DELETE CASCADE,
+  scope              TEXT NOT NULL CHECK (scope ~ '^[a-z][a-z0-9_-]{0,49}$'),
+  role               TEXT NOT NULL REFERENCES auth_roles(name),
+  granted_by         TEXT,
+  created_at         TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (email, scope, role)
+);
+
+CREATE INDEX idx_auth_role_assignments_scope ON auth_role_assignments(scope);
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'admin_create_invite','admin_resend_invite','admin_revoke_invite','invite_accepted',
+  'access_requested','admin_approve_access_request','admin_reject_access_request',
+  'admin_create_role','admin_update_role','admin_delete_role',
+  'admin_assign_role','admin_unassign_role',
+  'access_expired',
+  'session_created','session_expired','session_invalidated'
+));
@@ -0,0 +1,9 @@
+-- Session tracking
+-- auth_sessions rows are keyed by the Clerk session id (session_token). A row is created at sign-in,
+-- last_accessed is bumped by every guarded API request, and expires_at is fixed at creation from SESSION_TIMEOUT.
+-- Ended sessions are kept for the audit trail with the time and reason they ended (e.g. expired, signed_out).
+
+ALTER TABLE auth_sessions ADD COLUMN ended_at TIMESTAMPTZ;
+ALTER TABLE auth_sessions ADD COLUMN end_reason TEXT;
+
+CREATE INDEX idx_auth_sessions_active_email ON auth_sessions(email) WHERE active = true;
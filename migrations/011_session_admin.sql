@@ -0,0 +1,17 @@
+-- Admin session management
+-- Admins can terminate a single session or every session of a user from /admin/sessions.
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'admin_create_invite','admin_resend_invite','admin_revoke_invite','invite_accepted',
+  'access_requested','admin_approve_access_request','admin_reject_access_request',
+  'admin_create_role','admin_update_role','admin_delete_role',
+  'admin_assign_role','admin_unassign_role',
+  'admin_terminate_session','admin_terminate_user_sessions',
+  'access_expired',
+  'session_created','session_expired','session_invalidated'
+));
@@ -0,0 +1,32 @@
+-- Network restrictions
+-- CIDR allow and deny rules, either global (role IS NULL) or for holders of one role, e.g. admins only from
+-- the corporate network. Deny rules block matching addresses; once a scope has allow rules, only addresses
+-- inside one of them get through.
+
+CREATE TABLE auth_network_rules (
+  id                 BIGSERIAL PRIMARY KEY,
+  cidr               CIDR NOT NULL,
+  action             TEXT NOT NULL CHECK (action IN ('allow', 'deny')),
+  role               TEXT REFERENCES auth_roles(name),
+  description        TEXT,
+  created_by         TEXT,
+  created_at         TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_auth_network_rules_unique ON auth_network_rules(cidr, action, COALESCE(role, ''));
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'admin_create_invite','admin_resend_invite','admin_revoke_invite','invite_accepted',
+  'access_requested','admin_approve_access_request','admin_reject_access_request',
+  'admin_create_role','admin_update_role','admin_delete_role',
+  'admin_assign_role','admin_unassign_role',
+  'admin_terminate_session','admin_terminate_user_sessions',
+  'admin_add_network_rule','admin_remove_network_rule',
+  'access_expired',
+  'session_created','session_expired','session_invalidated'
+));
@@ -0,0 +1,36 @@
+-- Security alerts
+-- Raised by the anomaly detector from the login_deny / api_deny stream and sign-ins: brute force and probing
+-- from one IP, attacks on one account, credential stuffing from one client and impossible travel. Alerts that
+-- blocked their subject record until when; admins acknowledge them in /admin.
+
+CREATE TABLE auth_security_alerts (
+  id                 BIGSERIAL PRIMARY KEY,
+  kind               TEXT NOT NULL CHECK (kind IN ('brute_force', 'email_probing', 'account_targeted', 'credential_stuffing', 'impossible_travel')),
+  subject_type       TEXT NOT NULL CHECK (subject_type IN ('ip', 'email', 'user_agent')),
+  subject            TEXT NOT NULL,
+  severity           TEXT NOT NULL CHECK (severity IN ('warning', 'critical')),
+  details            JSONB,
+  blocked_until      TIMESTAMPTZ,
+  created_at         TIMESTAMPTZ DEFAULT now(),
+  acknowledged_by    TEXT,
+  acknowledged_at    TIMESTAMPTZ
+);
+
+CREATE INDEX idx_auth_security_alerts_open ON auth_security_alerts(created_at DESC) WHERE acknowledged_at IS NULL;
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'admin_create_invite','admin_resend_invite','admin_revoke_invite','invite_accepted',
+  'access_requested','admin_approve_access_request','admin_reject_access_request',
+  'admin_create_role','admin_update_role','admin_delete_role',
+  'admin_assign_role','admin_unassign_role',
+  'admin_terminate_session','admin_terminate_user_sessions',
+  'admin_add_network_rule','admin_remove_network_rule',
+  'admin_acknowledge_alert','admin_lift_block',
+  'access_expired',
+  'session_created','session_expired','session_invalidated'
+));
@@ -0,0 +1,14 @@
+-- Alert dead letters
+-- Alerts (Slack, signed webhook) that still failed after every retry, kept so they can be inspected and resent.
+
+CREATE TABLE auth_alert_dead_letters (
+  id                 BIGSERIAL PRIMARY KEY,
+  sink               TEXT NOT NULL,
+  trigger            TEXT NOT NULL,
+  payload            JSONB NOT NULL,
+  error              TEXT,
+  attempts           INTEGER NOT NULL,
+  created_at         TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_auth_alert_dead_letters_created_at ON auth_alert_dead_letters(created_at DESC);
@@ -0,0 +1,52 @@
+-- Outbound webhooks
+-- Endpoints registered by admins to hear about user lifecycle events (added, removed, toggled, role changed).
+-- Each delivery is signed with the webhook's secret and logged with its attempts so admins can replay it.
+
+CREATE TABLE auth_webhooks (
+  id                 BIGSERIAL PRIMARY KEY,
+  url                TEXT NOT NULL,
+  secret             TEXT NOT NULL,
+  events             TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['user.added', 'user.removed', 'user.toggled', 'user.role_changed']
+  ),
+  description        TEXT,
+  created_by         TEXT,
+  created_at         TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE auth_webhook_deliveries (
+  id                 BIGSERIAL PRIMARY KEY,
+  webhook_id         BIGINT NOT NULL REFERENCES auth_webhooks(id) ON DELETE CASCADE,
+  event              TEXT NOT NULL,
+  payload            JSONB NOT NULL,
+  status             TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts           INTEGER NOT NULL DEFAULT 0,
+  response_status    INTEGER,
+  error              TEXT,
+  -- Set on deliveries an admin started again from an earlier one
+  replay_of          BIGINT REFERENCES auth_webhook_deliveries(id) ON DELETE SET NULL,
+  created_at         TIMESTAMPTZ DEFAULT now(),
+  completed_at       TIMESTAMPTZ
+);
+
+CREATE INDEX idx_auth_webhook_deliveries_webhook ON auth_webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX idx_auth_webhook_deliveries_created_at ON auth_webhook_deliveries(created_at DESC);
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'admin_create_invite','admin_resend_invite','admin_revoke_invite','invite_accepted',
+  'access_requested','admin_approve_access_request','admin_reject_access_request',
+  'admin_create_role','admin_update_role','admin_delete_role',
+  'admin_assign_role','admin_unassign_role',
+  'admin_terminate_session','admin_terminate_user_sessions',
+  'admin_add_network_rule','admin_remove_network_rule',
+  'admin_acknowledge_alert','admin_lift_block',
+  'admin_add_webhook','admin_remove_webhook','admin_replay_webhook_delivery',
+  'access_expired',
+  'session_created','session_expired','session_invalidated'
+));
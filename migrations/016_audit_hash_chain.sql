@@ -0,0 +1,38 @@
+-- Tamper-evident audit log
+-- Every entry written by the audit logger stores the hash of the entry before it and its own hash over that
+-- and its values, so editing, deleting or reordering rows breaks the chain. Checkpoints sign the latest
+-- link with AUDIT_CHECKPOINT_SECRET, so the chain can't simply be recomputed after an edit either.
+-- Entries written before this migration have no hash and are left out of the chain.
+
+ALTER TABLE auth_audit_log ADD COLUMN prev_hash TEXT;
+ALTER TABLE auth_audit_log ADD COLUMN hash TEXT;
+
+CREATE TABLE auth_audit_checkpoints (
+  id                 BIGSERIAL PRIMARY KEY,
+  last_entry_id      BIGINT NOT NULL,
+  last_hash          TEXT NOT NULL,
+  signature          TEXT NOT NULL,
+  created_by         TEXT,
+  created_at         TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_auth_audit_checkpoints_created_at ON auth_audit_checkpoints(created_at DESC);
+
+ALTER TABLE auth_audit_log DROP CONSTRAINT IF EXISTS auth_audit_log_event_check;
+ALTER TABLE auth_audit_log ADD CONSTRAINT auth_audit_log_event_check CHECK (event IN (
+  'login_allow','login_deny','api_allow','api_deny',
+  'admin_add_user','admin_remove_user','admin_toggle_user',
+  'admin_add_allow_rule','admin_remove_allow_rule',
+  'admin_add_deny_entry','admin_remove_deny_entry',
+  'admin_create_invite','admin_resend_invite','admin_revoke_invite','invite_accepted',
+  'access_requested','admin_approve_access_request','admin_reject_access_request',
+  'admin_create_role','admin_update_role','admin_delete_role',
+  'admin_assign_role','admin_unassign_role',
+  'admin_terminate_session','admin_terminate_user_sessions',
+  'admin_add_network_rule','admin_remove_network_rule',
+  'admin_acknowledge_alert','admin_lift_block',
+  'admin_add_webhook','admin_remove_webhook','admin_replay_webhook_delivery',
+  'admin_create_audit_checkpoint',
+  'access_expired',
+  'session_created','session_expired','session_invalidated'
+));
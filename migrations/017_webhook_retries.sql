@@ -0,0 +1,10 @@
+-- Webhook retries driven from the delivery log
+-- Each attempt is claimed by moving next_attempt_at forward, and a failed attempt sets it to when the next one
+-- is due. Instances pick up due deliveries, so retries survive a restart. Deliveries still pending from
+-- before this migration are due straight away.
+
+ALTER TABLE auth_webhook_deliveries ADD COLUMN next_attempt_at TIMESTAMPTZ DEFAULT now();
+
+UPDATE auth_webhook_deliveries SET next_attempt_at = NULL WHERE status <> 'pending';
+
+CREATE INDEX idx_auth_webhook_deliveries_due ON auth_webhook_deliveries(next_attempt_at) WHERE status = 'pending';
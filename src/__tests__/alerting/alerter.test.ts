@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { alerter, alertingConfig } from '@/lib/alerting/alerter';
+import { AlertMessage, SlackSink, WebhookSink, createSinksFromEnv } from '@/lib/alerting/sinks';
+import { signPayload } from '@/lib/signing';
+
+// Mock database connection
+jest.mock('@/lib/database/connection', () => ({
+  query: jest.fn(),
+}));
+
+jest.mock('@/lib/auth/allowlist', () => ({
+  allowListService: { countActiveAdmins: jest.fn() },
+}));
+
+const mockQuery = require('@/lib/database/connection').query;
+const mockCountActiveAdmins = require('@/lib/auth/allowlist').allowListService.countActiveAdmins;
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Stands in for Slack and the webhook receiver; answers with the queued status codes, then 200
+let server: http.Server;
+let baseUrl: string;
+let received: Received[];
+let statuses: number[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() || 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+describe('Alerter', () => {
+  const originalTriggers = process.env.ALERT_TRIGGERS;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    received = [];
+    statuses = [];
+    alerter.reset();
+    alerter.setSinks([new WebhookSink(`${baseUrl}/hook`, 'shared-secret')]);
+    alertingConfig.retryDelayMs = 0;
+    mockQuery.mockResolvedValue({ rows: [] });
+    mockCountActiveAdmins.mockResolvedValue({ count: 2 });
+    delete process.env.ALERT_TRIGGERS;
+  });
+
+  afterAll(() => {
+    process.env.ALERT_TRIGGERS = originalTriggers;
+  });
+
+  const sent = (): AlertMessage[] => received.map(request => JSON.parse(request.body));
+
+  describe('sinks', () => {
+    it('should post Slack messages as text', async () => {
+      alerter.setSinks([new SlackSink(`${baseUrl}/slack`)]);
+
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_add_user', details: { added_email: 'new@example.com', role: 'admin' } });
+      await alerter.flush();
+
+      expect(JSON.parse(received[0].body)).toEqual({
+        text: ':warning: *Admin added*\nowner@example.com added new@example.com to the allow list as admin',
+      });
+    });
+
+    it('should sign webhook payloads', async () => {
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_add_user', details: { added_email: 'new@example.com', role: 'admin' } });
+      await alerter.flush();
+
+      const [{ headers, body }] = received;
+      const timestamp = Number(headers['x-signature-timestamp']);
+
+      expect(headers['x-signature']).toBe(`sha256=${signPayload('shared-secret', timestamp, body)}`);
+      expect(JSON.parse(body)).toMatchObject({ trigger: 'admin_added', severity: 'warning' });
+    });
+
+    it('should retry failed deliveries', async () => {
+      statuses = [500, 503];
+
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_assign_role', details: { assigned_email: 'new@example.com', role: 'admin', scope: 'global' } });
+      await alerter.flush();
+
+      expect(received).toHaveLength(3);
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('auth_alert_dead_letters'), expect.anything());
+    });
+
+    it('should dead-letter alerts that keep failing', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      statuses = [500, 500, 500];
+
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_assign_role', details: { assigned_email: 'new@example.com', role: 'admin', scope: 'global' } });
+      await alerter.flush();
+
+      expect(received).toHaveLength(alertingConfig.attempts);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO auth_alert_dead_letters'),
+        ['webhook', 'admin_role_granted', expect.stringContaining('"trigger":"admin_role_granted"'), expect.stringContaining('500'), alertingConfig.attempts]
+      );
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('createSinksFromEnv', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('should leave out a webhook without its secret and keep the other sinks', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      process.env.SLACK_WEBHOOK_URL = `${baseUrl}/slack`;
+      process.env.ALERT_WEBHOOK_URL = `${baseUrl}/hook`;
+      delete process.env.ALERT_WEBHOOK_SECRET;
+
+      const sinks = createSinksFromEnv();
+
+      expect(sinks.map(sink => sink.name)).toEqual(['slack']);
+      expect(warn).toHaveBeenCalledTimes(1);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('triggers', () => {
+    it('should alert when someone becomes an admin', async () => {
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_add_user', details: { added_email: 'viewer@example.com', role: 'viewer' } });
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_approve_access_request', details: { requester_email: 'a@example.com', granted_role: 'admin' } });
+      await alerter.observe({ email: 'b@example.com', event: 'invite_accepted', details: { invited_by: 'owner@example.com', role: 'admin' } });
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_assign_role', details: { assigned_email: 'c@example.com', role: 'admin', scope: 'global' } });
+      await alerter.flush();
+
+      expect(sent().map(alert => alert.trigger)).toEqual(['admin_added', 'admin_added', 'admin_role_granted']);
+      expect(sent()[1].details).toEqual({ added_email: 'b@example.com', added_by: 'owner@example.com' });
+    });
+
+    it('should alert once per burst of removals', async () => {
+      for (let i = 0; i < alertingConfig.bulkRemoval.count * 2; i++) {
+        await alerter.observe({ email: 'owner@example.com', event: 'admin_remove_user', details: { removed_email: `user${i}@example.com` } });
+      }
+      await alerter.flush();
+
+      expect(sent().map(alert => alert.trigger)).toEqual(['bulk_removal']);
+    });
+
+    it('should alert on a spike of denials', async () => {
+      for (let i = 0; i < alertingConfig.denialSpike.count; i++) {
+        await alerter.observe({ email: null, event: i % 2 ? 'login_deny' : 'api_deny', details: { reason: 'not_in_allowlist' } });
+      }
+      await alerter.flush();
+
+      expect(sent().map(alert => alert.trigger)).toEqual(['denial_spike']);
+    });
+
+    it('should alert when the last admin is disabled', async () => {
+      mockCountActiveAdmins.mockResolvedValue({ count: 0 });
+
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_toggle_user', details: { target_email: 'owner@example.com', new_status: true } });
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_toggle_user', details: { target_email: 'owner@example.com', new_status: false } });
+      await alerter.flush();
+
+      expect(mockCountActiveAdmins).toHaveBeenCalledTimes(1);
+      expect(sent()).toEqual([expect.objectContaining({ trigger: 'last_admin_disabled', severity: 'critical' })]);
+    });
+
+    it('should only fire the triggers in ALERT_TRIGGERS', async () => {
+      process.env.ALERT_TRIGGERS = 'last_admin_disabled, denial_spike';
+      mockCountActiveAdmins.mockResolvedValue({ count: 0 });
+
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_add_user', details: { added_email: 'a@example.com', role: 'admin' } });
+      await alerter.observe({ email: 'owner@example.com', event: 'admin_unassign_role', details: { unassigned_email: 'a@example.com', role: 'admin' } });
+      await alerter.flush();
+
+      expect(sent().map(alert => alert.trigger)).toEqual(['last_admin_disabled']);
+    });
+  });
+});
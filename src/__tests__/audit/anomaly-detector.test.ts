@@ -0,0 +1,181 @@
+import { anomalyDetector, anomalyConfig, networkOf, ObservedEvent } from '@/lib/audit/anomaly-detector';
+import { auditLogger } from '@/lib/audit/logger';
+import { getTemporaryBlock, liftTemporaryBlock } from '@/lib/rate-limit';
+
+// Mock database connection
+jest.mock('@/lib/database/connection', () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+}));
+
+jest.mock('@/lib/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn(), del: jest.fn() },
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+const mockQuery = require('@/lib/database/connection').query;
+
+function denial(ip: string, email: string | null, overrides: Partial<ObservedEvent> = {}): ObservedEvent {
+  return { email, event: 'login_deny', ip, user_agent: 'curl/8.0', details: { reason: 'not_in_allowlist' }, ...overrides };
+}
+
+function insertedAlerts(): any[][] {
+  return mockQuery.mock.calls
+    .filter(([sql]: [string]) => sql.includes('INSERT INTO auth_security_alerts'))
+    .map(([, params]: [string, any[]]) => params);
+}
+
+describe('Anomaly detector', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    anomalyDetector.reset();
+    mockQuery.mockResolvedValue({ rows: [] });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await liftTemporaryBlock('ip', '203.0.113.7');
+    await liftTemporaryBlock('email', 'victim@example.com');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should flag one IP probing many emails without blocking it', async () => {
+    for (let i = 0; i < anomalyConfig.probingEmails; i++) {
+      await anomalyDetector.observe(denial('203.0.113.7', `user${i}@example.com`));
+    }
+
+    expect(insertedAlerts()).toEqual([
+      ['email_probing', 'ip', '203.0.113.7', 'warning', JSON.stringify({ emails: 5, denials: 5 }), null],
+    ]);
+    expect(await getTemporaryBlock('ip', '203.0.113.7')).toBeNull();
+  });
+
+  it('should flag repeated denials from one IP as brute force', async () => {
+    for (let i = 0; i < anomalyConfig.bruteForceDenials; i++) {
+      await anomalyDetector.observe(denial('203.0.113.7', 'someone@example.com'));
+    }
+
+    expect(insertedAlerts().map(params => params[0])).toEqual(['brute_force']);
+    expect(await getTemporaryBlock('ip', '203.0.113.7')).toMatchObject({ reason: 'brute_force' });
+  });
+
+  it('should only count authentication failures', async () => {
+    for (let i = 0; i < anomalyConfig.bruteForceDenials; i++) {
+      await anomalyDetector.observe(denial('203.0.113.7', 'viewer@example.com', { event: 'api_deny', details: { reason: 'insufficient_permissions' } }));
+      await anomalyDetector.observe(denial('203.0.113.7', 'viewer@example.com', { event: 'api_deny', details: { reason: 'not_in_allowlist' } }));
+    }
+
+    expect(insertedAlerts()).toEqual([]);
+
+    for (let i = 0; i < anomalyConfig.bruteForceDenials; i++) {
+      await anomalyDetector.observe(denial('203.0.113.7', null, { event: 'api_deny', details: { reason: 'unauthenticated' } }));
+    }
+
+    expect(insertedAlerts().map(params => params[0])).toEqual(['brute_force']);
+  });
+
+  it('should raise an alert once while its subject is blocked', async () => {
+    for (let i = 0; i < anomalyConfig.bruteForceDenials * 2; i++) {
+      await anomalyDetector.observe(denial('203.0.113.7', null));
+    }
+
+    expect(insertedAlerts()).toHaveLength(1);
+  });
+
+  it('should flag and block an email denied from many IPs', async () => {
+    for (let i = 0; i < anomalyConfig.targetedAccountIps; i++) {
+      await anomalyDetector.observe(denial(`198.51.100.${i + 1}`, 'Victim@Example.com'));
+    }
+
+    expect(insertedAlerts().map(params => params.slice(0, 3))).toEqual([['account_targeted', 'email', 'victim@example.com']]);
+    expect(await getTemporaryBlock('email', 'victim@example.com')).not.toBeNull();
+  });
+
+  it('should only alert on a user agent failing across many IPs and emails', async () => {
+    for (let i = 0; i < anomalyConfig.stuffingIps; i++) {
+      await anomalyDetector.observe(denial(`198.51.100.${i + 1}`, `user${i}@example.com`, { user_agent: 'stuffer/1.0' }));
+    }
+
+    expect(insertedAlerts()).toEqual([
+      ['credential_stuffing', 'user_agent', 'stuffer/1.0', 'warning', expect.any(String), null],
+    ]);
+  });
+
+  it('should ignore denials that are not attacks', async () => {
+    for (let i = 0; i < anomalyConfig.bruteForceDenials; i++) {
+      await anomalyDetector.observe(denial('203.0.113.7', 'someone@example.com', { details: { reason: 'session_expired' } }));
+    }
+
+    expect(insertedAlerts()).toEqual([]);
+  });
+
+  it('should only count denials inside the window', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    for (let i = 0; i < anomalyConfig.bruteForceDenials - 1; i++) {
+      await anomalyDetector.observe(denial('203.0.113.7', null));
+    }
+
+    clock.mockReturnValue(now + anomalyConfig.windowSeconds * 1000);
+    await anomalyDetector.observe(denial('203.0.113.7', null));
+
+    expect(insertedAlerts()).toEqual([]);
+  });
+
+  describe('impossible travel', () => {
+    const access = (ip: string): ObservedEvent => ({ email: 'user@example.com', event: 'api_allow', ip, user_agent: 'jest' });
+
+    it('should flag the same email on two networks within minutes', async () => {
+      await anomalyDetector.observe(access('203.0.113.7'));
+      await anomalyDetector.observe(access('198.51.100.7'));
+
+      expect(insertedAlerts()).toEqual([
+        ['impossible_travel', 'email', 'user@example.com', 'warning', expect.stringContaining('"from_ip":"203.0.113.7"'), null],
+      ]);
+    });
+
+    it('should not flag address changes within one network or far apart in time', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await anomalyDetector.observe(access('203.0.113.7'));
+      await anomalyDetector.observe(access('203.0.42.1'));
+
+      clock.mockReturnValue(now + anomalyConfig.travelSeconds * 1000);
+      await anomalyDetector.observe(access('198.51.100.7'));
+
+      expect(insertedAlerts()).toEqual([]);
+    });
+
+    it('should compare IPv6 addresses by /48', () => {
+      expect(networkOf('2001:db8:1::1')).toBe(networkOf('2001:0db8:0001:ffff::2'));
+      expect(networkOf('2001:db8::1')).not.toBe(networkOf('2001:db8:1::1'));
+    });
+  });
+
+  describe('liftBlock', () => {
+    it('should end the block and let the alert be raised again', async () => {
+      for (let i = 0; i < anomalyConfig.bruteForceDenials; i++) {
+        await anomalyDetector.observe(denial('203.0.113.7', null));
+      }
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 1, kind: 'brute_force', subject_type: 'ip', subject: '203.0.113.7' }] });
+
+      const result = await anomalyDetector.liftBlock(1);
+
+      expect(result.success).toBe(true);
+      expect(await getTemporaryBlock('ip', '203.0.113.7')).toBeNull();
+
+      await anomalyDetector.observe(denial('203.0.113.7', null));
+      expect(insertedAlerts()).toHaveLength(2);
+    });
+  });
+
+  it('should be fed by the audit logger', async () => {
+    const observe = jest.spyOn(anomalyDetector, 'observe');
+
+    await auditLogger.logAuthEvent('someone@example.com', 'login_deny', '/api/auth/callback', '203.0.113.7', 'jest', { reason: 'deny_listed' });
+
+    expect(observe).toHaveBeenCalledWith(expect.objectContaining({ event: 'login_deny', ip: '203.0.113.7' }));
+  });
+});
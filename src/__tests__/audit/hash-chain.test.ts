@@ -0,0 +1,201 @@
+import { auditChain, auditChainConfig, canonicalJson, GENESIS_HASH, hashEntry } from '@/lib/audit/hash-chain';
+import { auditLogger } from '@/lib/audit/logger';
+
+// Mock database connection
+jest.mock('@/lib/database/connection', () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+}));
+
+jest.mock('@/lib/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn(), del: jest.fn() },
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+const { query: mockQuery, transaction: mockTransaction } = require('@/lib/database/connection');
+
+// Just enough of auth_audit_log and auth_audit_checkpoints for the statements the chain runs
+let entries: any[];
+let checkpoints: any[];
+
+function runQuery(text: string, params: any[] = []): { rows: any[] } {
+  const chained = entries.filter(entry => entry.hash);
+
+  if (text.includes('pg_advisory_xact_lock')) {
+    return { rows: [] };
+  }
+  if (text.startsWith('SELECT hash FROM auth_audit_log') || text.startsWith('SELECT id, hash FROM auth_audit_log')) {
+    return { rows: chained.slice(-1) };
+  }
+  if (text.startsWith('INSERT INTO auth_audit_log')) {
+    const [email, event, path, ip, user_agent, details] = params;
+    const entry = { id: String(entries.length + 1), email, event, path, ip, user_agent, ts: new Date(), details: details ? JSON.parse(details) : null, prev_hash: null, hash: null };
+    entries.push(entry);
+    return { rows: [{ ...entry }] };
+  }
+  if (text.startsWith('UPDATE auth_audit_log')) {
+    const entry = entries.find(e => e.id === String(params[0]));
+    entry.prev_hash = params[1];
+    entry.hash = params[2];
+    return { rows: [] };
+  }
+  if (text.includes('FROM auth_audit_log WHERE id > $1')) {
+    return { rows: entries.filter(e => Number(e.id) > params[0]).slice(0, params[1]).map(e => ({ ...e })) };
+  }
+  if (text.startsWith('INSERT INTO auth_audit_checkpoints')) {
+    const [last_entry_id, last_hash, signature, created_by, created_at] = params;
+    const checkpoint = { id: String(checkpoints.length + 1), last_entry_id: String(last_entry_id), last_hash, signature, created_by, created_at };
+    checkpoints.push(checkpoint);
+    return { rows: [checkpoint] };
+  }
+  if (text.includes('FROM auth_audit_checkpoints c LEFT JOIN')) {
+    return { rows: checkpoints.map(c => ({ ...c, entry_hash: entries.find(e => e.id === c.last_entry_id)?.hash ?? null })) };
+  }
+  if (text.startsWith('SELECT 1 FROM auth_audit_checkpoints')) {
+    return { rows: checkpoints.filter(c => c.created_at > params[0]) };
+  }
+  return { rows: [] };
+}
+
+async function log(count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await auditLogger.logEvent({ email: `user${i}@example.com`, event: 'admin_create_role', path: '/api/admin/roles', ip: '2001:DB8::1', user_agent: 'jest', details: { role: `role${i}`, permissions: ['users:read'] } });
+  }
+}
+
+describe('Audit hash chain', () => {
+  const originalSecret = process.env.AUDIT_CHECKPOINT_SECRET;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    entries = [];
+    checkpoints = [];
+    auditChain.reset();
+    auditChainConfig.batchSize = 2;
+    auditChainConfig.checkpointIntervalSeconds = 0;
+    process.env.AUDIT_CHECKPOINT_SECRET = 'checkpoint-secret';
+    mockQuery.mockImplementation(async (text: string, params?: any[]) => runQuery(text, params));
+    mockTransaction.mockImplementation(async (callback: (client: any) => Promise<any>) =>
+      callback({ query: async (text: string, params?: any[]) => runQuery(text, params) })
+    );
+  });
+
+  afterAll(() => {
+    process.env.AUDIT_CHECKPOINT_SECRET = originalSecret;
+  });
+
+  it('should hash JSON the same whatever the key order', () => {
+    expect(canonicalJson({ b: 1, a: [{ d: null, c: 'x' }] })).toBe('{"a":[{"c":"x","d":null}],"b":1}');
+  });
+
+  it('should link each entry to the one before it', async () => {
+    await log(3);
+
+    expect(entries[0].prev_hash).toBe(GENESIS_HASH);
+    expect(entries[1].prev_hash).toBe(entries[0].hash);
+    expect(entries[2].hash).toBe(hashEntry(entries[1].hash, entries[2]));
+  });
+
+  it('should verify an intact chain, skipping entries written before it', async () => {
+    entries.push({ id: '1', email: 'legacy@example.com', event: 'login_allow', path: null, ip: null, user_agent: null, ts: new Date(), details: null, prev_hash: null, hash: null });
+    await log(4);
+
+    expect(await auditChain.verify()).toEqual({ valid: true, status: 'verified', entries_checked: 4, checkpoints_checked: 0 });
+  });
+
+  it('should report an edited entry', async () => {
+    await log(4);
+    entries[2].details.role = 'admin';
+
+    expect((await auditChain.verify()).first_broken).toEqual({ id: 3, reason: 'hash_mismatch' });
+  });
+
+  it('should report the entry after a deleted one', async () => {
+    await log(4);
+    entries.splice(1, 1);
+
+    expect((await auditChain.verify()).first_broken).toEqual({ id: 3, reason: 'prev_hash_mismatch' });
+  });
+
+  it('should report entries inserted without a hash', async () => {
+    await log(2);
+    entries.push({ id: '3', email: 'sneaky@example.com', event: 'admin_add_user', path: null, ip: null, user_agent: null, ts: new Date(), details: null, prev_hash: null, hash: null });
+
+    expect((await auditChain.verify()).first_broken).toEqual({ id: 3, reason: 'missing_hash' });
+  });
+
+  describe('per-request events', () => {
+    function allow(i: number) {
+      return auditLogger.logEvent({ email: `user${i}@example.com`, event: 'api_allow', path: '/api/user/profile', ip: '2001:DB8::1', user_agent: 'jest' });
+    }
+
+    it('should leave api_allow out of the chain without breaking it', async () => {
+      await log(1);
+      await allow(1);
+      await log(1);
+
+      expect(entries[1]).toMatchObject({ event: 'api_allow', hash: null });
+      expect(entries[2].prev_hash).toBe(entries[0].hash);
+      expect(await auditChain.verify()).toEqual({ valid: true, status: 'verified', entries_checked: 2, checkpoints_checked: 0 });
+    });
+
+    // Concurrent guarded requests must not queue behind each other on the chain lock
+    it('should write concurrent api_allow entries without the chain lock', async () => {
+      await Promise.all(Array.from({ length: 50 }, (_, i) => allow(i)));
+
+      expect(entries).toHaveLength(50);
+      expect(mockTransaction).not.toHaveBeenCalled();
+      expect(mockQuery.mock.calls.some(([text]: [string]) => text.includes('pg_advisory_xact_lock'))).toBe(false);
+    });
+  });
+
+  describe('checkpoints', () => {
+    it('should need a secret to sign with', async () => {
+      delete process.env.AUDIT_CHECKPOINT_SECRET;
+      await log(1);
+
+      expect(await auditChain.createCheckpoint('owner@example.com')).toEqual({ success: false, error: 'AUDIT_CHECKPOINT_SECRET is not configured' });
+    });
+
+    it('should catch a rewritten chain and a truncated tail', async () => {
+      await log(3);
+      expect((await auditChain.createCheckpoint('owner@example.com')).success).toBe(true);
+      expect(await auditChain.verify()).toEqual({ valid: true, status: 'verified', entries_checked: 3, checkpoints_checked: 1 });
+
+      // Editing an entry and recomputing every hash after it keeps the links intact, but not the checkpoint
+      entries[1].event = 'login_allow';
+      entries[1].hash = hashEntry(entries[0].hash, entries[1]);
+      entries[2].prev_hash = entries[1].hash;
+      entries[2].hash = hashEntry(entries[1].hash, entries[2]);
+      expect((await auditChain.verify()).first_broken).toEqual({ id: 3, reason: 'checkpoint_mismatch', checkpoint_id: 1 });
+
+      entries.splice(2, 1);
+      expect((await auditChain.verify()).first_broken).toEqual({ id: 3, reason: 'checkpoint_mismatch', checkpoint_id: 1 });
+    });
+
+    it('should not call checkpoints valid without the secret to check them', async () => {
+      await log(2);
+      await auditChain.createCheckpoint('owner@example.com');
+      delete process.env.AUDIT_CHECKPOINT_SECRET;
+
+      expect(await auditChain.verify()).toEqual({ valid: false, status: 'signatures_unverified', entries_checked: 2, checkpoints_checked: 1 });
+    });
+
+    it('should reject checkpoints signed with another secret', async () => {
+      await log(2);
+      await auditChain.createCheckpoint('owner@example.com');
+      process.env.AUDIT_CHECKPOINT_SECRET = 'another-secret';
+
+      expect((await auditChain.verify()).first_broken).toEqual({ id: 2, reason: 'checkpoint_signature_invalid', checkpoint_id: 1 });
+    });
+
+    it('should sign one checkpoint per interval on its own', async () => {
+      auditChainConfig.checkpointIntervalSeconds = 3600;
+
+      await log(3);
+
+      expect(checkpoints).toHaveLength(1);
+      expect(checkpoints[0]).toMatchObject({ last_entry_id: '1', created_by: null });
+    });
+  });
+});
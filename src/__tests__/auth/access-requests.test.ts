@@ -0,0 +1,119 @@
+import { accessRequestService } from '@/lib/auth/access-requests';
+import { allowListService } from '@/lib/auth/allowlist';
+import { roleService } from '@/lib/auth/roles';
+import { mailer } from '@/lib/mail/mailer';
+
+// Mock database connection
+jest.mock('@/lib/database/connection', () => ({
+  query: jest.fn(),
+}));
+
+jest.mock('@/lib/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn() },
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+jest.mock('@/lib/mail/mailer', () => ({
+  mailer: { send: jest.fn().mockResolvedValue({ success: true }) },
+}));
+
+const mockQuery = require('@/lib/database/connection').query;
+
+const REQUEST_ID = '5d0e8c1a-7b2f-4e3d-8c41-9a6b2d7e1f03';
+
+function decidedRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    id: REQUEST_ID,
+    email: 'requester@example.com',
+    display_name: 'Requester',
+    requested_role: 'qa',
+    justification: 'Testing the release candidate',
+    status: 'approved',
+    created_at: new Date(),
+    decided_at: new Date(),
+    decided_by: 'admin@example.com',
+    granted_role: 'qa',
+    decision_note: null,
+    ...overrides,
+  };
+}
+
+describe('Access Request Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(allowListService, 'addUser').mockResolvedValue({ success: true, previousRole: null, reactivated: false });
+  });
+
+  describe('approveRequest', () => {
+    it('should add the requester with the granted role and notify them', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [decidedRequest({ granted_role: 'viewer' })] });
+
+      const result = await accessRequestService.approveRequest(REQUEST_ID, 'admin@example.com', 'viewer');
+
+      expect(result.success).toBe(true);
+      expect(allowListService.addUser).toHaveBeenCalledWith(
+        'requester@example.com',
+        'Requester',
+        'viewer',
+        'admin@example.com',
+        null,
+        { reactivate: true }
+      );
+      expect(mailer.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'requester@example.com' }));
+    });
+
+    it('should not approve a request that was already decided', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await accessRequestService.approveRequest(REQUEST_ID, 'admin@example.com');
+
+      expect(result.success).toBe(false);
+      expect(allowListService.addUser).not.toHaveBeenCalled();
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should put the request back in the queue when granting access fails', async () => {
+      mockQuery.mockResolvedValue({ rows: [decidedRequest()] });
+      (allowListService.addUser as jest.Mock).mockResolvedValueOnce({ success: false, error: 'Database error' });
+
+      const result = await accessRequestService.approveRequest(REQUEST_ID, 'admin@example.com');
+
+      expect(result.success).toBe(false);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining("SET status = 'pending'"),
+        [REQUEST_ID]
+      );
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should not grant a role the approver could not grant themselves', async () => {
+      mockQuery.mockResolvedValue({ rows: [decidedRequest({ granted_role: 'admin' })] });
+      jest.spyOn(roleService, 'canGrant').mockResolvedValueOnce({ allowed: false, error: 'Not allowed' });
+
+      const result = await accessRequestService.approveRequest(REQUEST_ID, 'support@example.com', 'admin', null, ['support']);
+
+      expect(result).toEqual({ success: false, error: 'Not allowed' });
+      expect(roleService.canGrant).toHaveBeenCalledWith(['support'], 'admin');
+      expect(allowListService.addUser).not.toHaveBeenCalled();
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining("SET status = 'pending'"),
+        [REQUEST_ID]
+      );
+    });
+  });
+
+  describe('rejectRequest', () => {
+    it('should notify the requester without touching the allow list', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [decidedRequest({ status: 'rejected', granted_role: null, decision_note: 'Use the staging app' })] });
+
+      const result = await accessRequestService.rejectRequest(REQUEST_ID, 'admin@example.com', 'Use the staging app');
+
+      expect(result.success).toBe(true);
+      expect(allowListService.addUser).not.toHaveBeenCalled();
+      expect(mailer.send).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'requester@example.com',
+        text: expect.stringContaining('Use the staging app'),
+      }));
+    });
+  });
+});
@@ -5,7 +5,24 @@ jest.mock('@/lib/database/connection', () => ({
   query: jest.fn(),
 }));
 
+jest.mock('@/lib/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn() },
+  isRedisConfigured: jest.fn(() => false),
+}));
+
 const mockQuery = require('@/lib/database/connection').query;
+const mockRedis = require('@/lib/redis');
+
+// Route mocked queries by table so tests don't depend on lookup order
+function mockTables(tables: { users?: any[]; rules?: any[]; denyList?: any[]; assignments?: any[] }) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM auth_role_assignments')) return { rows: tables.assignments || [] };
+    if (sql.includes('FROM auth_deny_list')) return { rows: tables.denyList || [] };
+    if (sql.includes('FROM auth_allow_rules')) return { rows: tables.rules || [] };
+    if (sql.includes('FROM auth_allowed_emails')) return { rows: tables.users || [] };
+    return { rows: [] };
+  });
+}
 
 describe('AllowList Service', () => {
   beforeEach(() => {
@@ -25,9 +42,7 @@ describe('AllowList Service', () => {
         active: true,
       };
 
-      mockQuery.mockResolvedValue({
-        rows: [mockUser],
-      });
+      mockTables({ users: [mockUser] });
 
       const result = await allowListService.isEmailAllowed('test@example.com');
 
@@ -46,9 +61,7 @@ describe('AllowList Service', () => {
         active: false,
       };
 
-      mockQuery.mockResolvedValue({
-        rows: [mockUser],
-      });
+      mockTables({ users: [mockUser] });
 
       const result = await allowListService.isEmailAllowed('test@example.com');
 
@@ -57,9 +70,7 @@ describe('AllowList Service', () => {
     });
 
     it('should deny unknown user', async () => {
-      mockQuery.mockResolvedValue({
-        rows: [],
-      });
+      mockTables({});
 
       const result = await allowListService.isEmailAllowed('unknown@example.com');
 
@@ -78,20 +89,319 @@ describe('AllowList Service', () => {
         active: true,
       };
 
-      mockQuery.mockResolvedValue({
-        rows: [mockUser],
-      });
+      mockTables({ users: [mockUser] });
 
       const result = await allowListService.isEmailAllowed('TEST@EXAMPLE.COM');
 
       expect(result.allowed).toBe(true);
       expect(mockQuery).toHaveBeenCalledWith(
-        'SELECT email, display_name, role, invited_by, created_at, updated_at, active FROM auth_allowed_emails WHERE email = $1',
+        'SELECT email, display_name, role, invited_by, created_at, updated_at, active, expires_at FROM auth_allowed_emails WHERE email = $1',
         ['test@example.com']
       );
     });
   });
 
+  describe('domain allow rules', () => {
+    const partnerRule = {
+      id: 1,
+      pattern: '*@partner.com',
+      role: 'qa',
+      description: 'Partner contractors',
+      created_by: 'admin@example.com',
+      created_at: new Date(),
+      active: true,
+    };
+
+    it('should allow email matching a domain rule', async () => {
+      mockTables({ rules: [partnerRule] });
+
+      const result = await allowListService.isEmailAllowed('Contractor@Partner.com');
+
+      expect(result.allowed).toBe(true);
+      expect(result.matchedRule).toEqual(partnerRule);
+      expect(result.user?.email).toBe('contractor@partner.com');
+      expect(result.user?.role).toBe('qa');
+    });
+
+    it('should prefer exact email entries over rules', async () => {
+      const mockUser = {
+        email: 'blocked@partner.com',
+        display_name: 'Blocked User',
+        role: 'viewer',
+        invited_by: 'admin@example.com',
+        created_at: new Date(),
+        updated_at: new Date(),
+        active: false,
+      };
+
+      mockTables({ users: [mockUser], rules: [partnerRule] });
+
+      const result = await allowListService.isEmailAllowed('blocked@partner.com');
+
+      expect(result.allowed).toBe(false);
+      expect(result.matchedRule).toBeUndefined();
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('FROM auth_allow_rules'));
+    });
+
+    it('should pick the most specific matching rule', async () => {
+      const subdomainRule = { ...partnerRule, id: 2, pattern: '*@*.partner.com', role: 'viewer' };
+      const teamRule = { ...partnerRule, id: 3, pattern: '*@eng.partner.com', role: 'admin' };
+
+      mockTables({ rules: [subdomainRule, teamRule] });
+
+      const result = await allowListService.isEmailAllowed('dev@eng.partner.com');
+
+      expect(result.allowed).toBe(true);
+      expect(result.matchedRule?.pattern).toBe('*@eng.partner.com');
+    });
+
+    it('should not match other domains', async () => {
+      mockTables({ rules: [partnerRule] });
+
+      const result = await allowListService.isEmailAllowed('someone@notpartner.com');
+
+      expect(result.allowed).toBe(false);
+      expect(result.error).toBe('Email not found in allow list');
+    });
+
+    it('should reject patterns that would allow every domain', async () => {
+      const result = await allowListService.addAllowRule('*@*', 'viewer', null, 'admin@example.com');
+
+      expect(result.success).toBe(false);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should add a rule using the @domain shorthand', async () => {
+      mockQuery.mockResolvedValue({ rows: [partnerRule] });
+
+      const result = await allowListService.addAllowRule('@Partner.com', 'qa', null, 'admin@example.com');
+
+      expect(result.success).toBe(true);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO auth_allow_rules'),
+        ['*@partner.com', 'qa', null, 'admin@example.com']
+      );
+    });
+  });
+
+  describe('access expiry', () => {
+    const baseUser = {
+      email: 'contractor@example.com',
+      display_name: 'QA Contractor',
+      role: 'qa',
+      invited_by: 'admin@example.com',
+      created_at: new Date(),
+      updated_at: new Date(),
+      active: true,
+    };
+
+    it('should allow user whose access has not expired', async () => {
+      mockTables({ users: [{ ...baseUser, expires_at: new Date(Date.now() + 60 * 60 * 1000) }] });
+
+      const result = await allowListService.isEmailAllowed('contractor@example.com');
+
+      expect(result.allowed).toBe(true);
+      expect(result.expired).toBeUndefined();
+    });
+
+    it('should deny user whose access has expired', async () => {
+      mockTables({ users: [{ ...baseUser, expires_at: new Date(Date.now() - 60 * 1000) }] });
+
+      const result = await allowListService.isEmailAllowed('contractor@example.com');
+
+      expect(result.allowed).toBe(false);
+      expect(result.expired).toBe(true);
+      expect(result.error).toBe('Access has expired');
+    });
+
+    it('should enforce expiry on cached entries', async () => {
+      jest.useFakeTimers();
+      try {
+        mockTables({ users: [{ ...baseUser, expires_at: new Date(Date.now() + 60 * 1000) }] });
+        expect((await allowListService.isEmailAllowed('contractor@example.com')).allowed).toBe(true);
+
+        jest.advanceTimersByTime(2 * 60 * 1000);
+
+        const result = await allowListService.isEmailAllowed('contractor@example.com');
+        expect(result.allowed).toBe(false);
+        expect(result.expired).toBe(true);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should deactivate expired users in the sweep', async () => {
+      const expiredUser = { ...baseUser, active: false, expires_at: new Date(Date.now() - 60 * 1000) };
+      mockQuery.mockResolvedValue({ rows: [expiredUser] });
+
+      const result = await allowListService.expireUsers();
+
+      expect(result.users).toEqual([expiredUser]);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE auth_allowed_emails SET active = false')
+      );
+    });
+  });
+
+  describe('deny list', () => {
+    const mockUser = {
+      email: 'blocked@example.com',
+      display_name: 'Blocked User',
+      role: 'admin',
+      invited_by: 'admin@example.com',
+      created_at: new Date(),
+      updated_at: new Date(),
+      active: true,
+    };
+
+    it('should deny an exact deny list entry even when allow listed', async () => {
+      const denyEntry = {
+        id: 1,
+        pattern: 'blocked@example.com',
+        reason: 'Left the company',
+        created_by: 'admin@example.com',
+        created_at: new Date(),
+      };
+
+      mockTables({ users: [mockUser], denyList: [denyEntry] });
+
+      const result = await allowListService.isEmailAllowed('Blocked@Example.com');
+
+      expect(result.allowed).toBe(false);
+      expect(result.denyEntry).toEqual(denyEntry);
+      expect(result.error).toBe('Email is on the deny list');
+    });
+
+    it('should deny a domain on the deny list even when an allow rule matches', async () => {
+      const allowRule = {
+        id: 1,
+        pattern: '*@partner.com',
+        role: 'viewer',
+        description: null,
+        created_by: 'admin@example.com',
+        created_at: new Date(),
+        active: true,
+      };
+      const denyEntry = {
+        id: 2,
+        pattern: '*@partner.com',
+        reason: 'Contract ended',
+        created_by: 'admin@example.com',
+        created_at: new Date(),
+      };
+
+      mockTables({ rules: [allowRule], denyList: [denyEntry] });
+
+      const result = await allowListService.isEmailAllowed('someone@partner.com');
+
+      expect(result.allowed).toBe(false);
+      expect(result.denyEntry?.pattern).toBe('*@partner.com');
+    });
+
+    it('should check the deny list before the user cache', async () => {
+      mockTables({ users: [mockUser] });
+      expect((await allowListService.isEmailAllowed('blocked@example.com')).allowed).toBe(true);
+
+      mockQuery.mockResolvedValue({
+        rows: [{ id: 3, pattern: 'blocked@example.com', reason: 'Compromised', created_by: 'admin@example.com', created_at: new Date() }],
+      });
+      await allowListService.addDenyEntry('blocked@example.com', 'Compromised', 'admin@example.com');
+
+      mockTables({
+        users: [mockUser],
+        denyList: [{ id: 3, pattern: 'blocked@example.com', reason: 'Compromised', created_by: 'admin@example.com', created_at: new Date() }],
+      });
+      const result = await allowListService.isEmailAllowed('blocked@example.com');
+
+      expect(result.allowed).toBe(false);
+      expect(result.denyEntry?.reason).toBe('Compromised');
+    });
+  });
+
+  describe('scoped role assignments', () => {
+    const mockUser = {
+      email: 'multi@example.com',
+      display_name: 'Multi Role',
+      role: 'viewer',
+      invited_by: 'admin@example.com',
+      created_at: new Date(),
+      updated_at: new Date(),
+      active: true,
+      expires_at: null,
+    };
+
+    const assignments = [
+      { email: 'multi@example.com', scope: 'billing', role: 'admin' },
+      { email: 'multi@example.com', scope: 'billing', role: 'qa' },
+      { email: 'multi@example.com', scope: 'support', role: 'viewer' },
+    ];
+
+    it('should return every role assigned in the requested scope', async () => {
+      mockTables({ users: [mockUser], assignments });
+
+      const result = await allowListService.isEmailAllowed('multi@example.com', 'billing');
+
+      expect(result.allowed).toBe(true);
+      expect(result.scope).toBe('billing');
+      expect(result.roles).toEqual(['admin', 'qa']);
+    });
+
+    it('should fall back to the default role in scopes without assignments', async () => {
+      mockTables({ users: [mockUser], assignments });
+
+      const result = await allowListService.isEmailAllowed('multi@example.com', 'reporting');
+
+      expect(result.roles).toEqual(['viewer']);
+    });
+
+    it('should resolve different scopes from the cached entry', async () => {
+      mockTables({ users: [mockUser], assignments });
+
+      await allowListService.isEmailAllowed('multi@example.com', 'billing');
+      const support = await allowListService.isEmailAllowed('multi@example.com', 'support');
+
+      expect(support.roles).toEqual(['viewer']);
+      expect(mockQuery.mock.calls.filter(([sql]: [string]) => sql.includes('FROM auth_allowed_emails'))).toHaveLength(1);
+    });
+
+    it('should give rule matches the rule role in every scope', async () => {
+      mockTables({ rules: [{ id: 1, pattern: '*@partner.com', role: 'qa', active: true, created_at: new Date() }] });
+
+      const result = await allowListService.isEmailAllowed('someone@partner.com', 'billing');
+
+      expect(result.roles).toEqual(['qa']);
+    });
+
+    it('should report assignments for users missing from the allow list', async () => {
+      mockQuery.mockRejectedValue(
+        Object.assign(new Error('fk violation'), { code: '23503', constraint: 'auth_role_assignments_email_fkey' })
+      );
+
+      const result = await allowListService.assignRole('ghost@example.com', 'billing', 'admin', 'admin@example.com');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('User not found in allow list');
+    });
+
+    it('should reject invalid scopes without querying', async () => {
+      const result = await allowListService.assignRole('multi@example.com', 'Not A Scope', 'admin', 'admin@example.com');
+
+      expect(result.success).toBe(false);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should pick up new assignments immediately', async () => {
+      mockTables({ users: [mockUser] });
+      expect((await allowListService.isEmailAllowed('multi@example.com', 'billing')).roles).toEqual(['viewer']);
+
+      mockQuery.mockResolvedValueOnce({ rows: [assignments[0]] });
+      await allowListService.assignRole('multi@example.com', 'billing', 'admin', 'admin@example.com');
+
+      mockTables({ users: [mockUser], assignments: [assignments[0]] });
+      expect((await allowListService.isEmailAllowed('multi@example.com', 'billing')).roles).toEqual(['admin']);
+    });
+  });
+
   describe('addUser', () => {
     it('should add new user', async () => {
       mockQuery.mockResolvedValue({ rows: [] });
@@ -103,13 +413,73 @@ describe('AllowList Service', () => {
         'admin@example.com'
       );
 
-      expect(result.success).toBe(true);
+      expect(result).toEqual({ success: true, previousRole: null, reactivated: false });
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining('INSERT INTO auth_allowed_emails'),
-        ['new@example.com', 'New User', 'viewer', 'admin@example.com']
+        ['new@example.com', 'New User', 'viewer', 'admin@example.com', null, false]
       );
     });
 
+    it('should report the role an existing entry had', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ previous_role: 'viewer' }] });
+
+      const result = await allowListService.addUser('old@example.com', 'Old User', 'qa', 'admin@example.com');
+
+      expect(result).toEqual({ success: true, previousRole: 'viewer', reactivated: false });
+    });
+
+    it('should store an access expiry', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+      const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+      const result = await allowListService.addUser(
+        'contractor@example.com',
+        'QA Contractor',
+        'qa',
+        'admin@example.com',
+        expiresAt
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('VALUES ($1, $2, $3, $4, $5)'),
+        ['contractor@example.com', 'QA Contractor', 'qa', 'admin@example.com', expiresAt, false]
+      );
+    });
+
+    it('should keep an existing expiry when updated without one', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ previous_role: 'qa' }] });
+
+      await allowListService.addUser('contractor@example.com', 'QA Contractor', 'viewer', 'admin@example.com');
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('expires_at = COALESCE($5, CASE WHEN $6::boolean AND auth_allowed_emails.expires_at <= now() THEN NULL ELSE auth_allowed_emails.expires_at END)');
+      expect(params[5]).toBe(false);
+      expect(sql).not.toContain('expires_at = $5');
+      expect(params[4]).toBeNull();
+    });
+
+    it('should re-enable an entry given a future expiry', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ previous_role: 'qa' }] });
+      const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+      await allowListService.addUser('contractor@example.com', 'QA Contractor', 'qa', 'admin@example.com', expiresAt);
+
+      const [sql, params] = mockQuery.mock.calls[0];
+      // Only a future expiry re-enables: without one (null > now() is null) the entry stays as it was
+      expect(sql).toContain('active = auth_allowed_emails.active OR $6::boolean OR COALESCE($5::timestamptz > now(), false)');
+      expect(params[4]).toBe(expiresAt);
+    });
+
+    it('should re-enable an entry for an approved request and report it', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ previous_role: 'viewer', previous_active: false, active: true }] });
+
+      const result = await allowListService.addUser('Disabled@Example.com', 'Disabled User', 'qa', 'admin@example.com', null, { reactivate: true });
+
+      expect(result).toEqual({ success: true, previousRole: 'viewer', reactivated: true });
+      expect(mockQuery.mock.calls[0][1]).toEqual(['disabled@example.com', 'Disabled User', 'qa', 'admin@example.com', null, true]);
+    });
+
     it('should handle database error', async () => {
       mockQuery.mockRejectedValue(new Error('Database error'));
 
@@ -125,6 +495,17 @@ describe('AllowList Service', () => {
     });
   });
 
+  describe('insertUser', () => {
+    it('should not touch an existing entry', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      const result = await allowListService.insertUser('member@example.com', 'Member', 'admin', 'admin@example.com');
+
+      expect(result).toEqual({ success: false, error: 'Email is already on the allow list' });
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('ON CONFLICT (email) DO NOTHING'), expect.any(Array));
+    });
+  });
+
   describe('removeUser', () => {
     it('should remove user', async () => {
       mockQuery.mockResolvedValue({ rows: [] });
@@ -166,4 +547,153 @@ describe('AllowList Service', () => {
       expect(result.error).toBe('User not found');
     });
   });
+
+  describe('cross-instance cache invalidation', () => {
+    const activeUser = {
+      email: 'test@example.com',
+      display_name: 'Test User',
+      role: 'viewer',
+      invited_by: 'admin@example.com',
+      created_at: new Date(),
+      updated_at: new Date(),
+      active: true,
+    };
+
+    beforeEach(() => {
+      mockRedis.isRedisConfigured.mockReturnValue(true);
+      mockRedis.redis.get.mockResolvedValue(null);
+    });
+
+    afterEach(() => {
+      mockRedis.isRedisConfigured.mockReturnValue(false);
+    });
+
+    it('should broadcast invalidation when a user is disabled', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ active: false }] });
+
+      await allowListService.toggleUserStatus('Test@Example.com');
+
+      expect(mockRedis.redis.set).toHaveBeenCalledWith(
+        'allowlist:invalidated:test@example.com',
+        expect.any(Number),
+        { ex: 300 }
+      );
+    });
+
+    it('should broadcast invalidation of the deny list and allow rules', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ id: 1, pattern: 'spam@example.com' }] });
+
+      await allowListService.addDenyEntry('spam@example.com', 'Spam', 'admin@example.com');
+      await allowListService.addAllowRule('*@example.com', 'viewer', null, 'admin@example.com');
+
+      expect(mockRedis.redis.set).toHaveBeenCalledWith('deny-list:invalidated:all', expect.any(Number), { ex: 300 });
+      expect(mockRedis.redis.set).toHaveBeenCalledWith('allow-rules:invalidated:all', expect.any(Number), { ex: 300 });
+    });
+
+    it('should stop serving a deny list another instance changed', async () => {
+      mockTables({ users: [activeUser] });
+      await allowListService.isEmailAllowed('test@example.com');
+
+      // Another instance denies the email
+      mockTables({ users: [activeUser], denyList: [{ id: 1, pattern: 'test@example.com', reason: 'Compromised', created_by: 'admin@example.com', created_at: new Date() }] });
+      mockRedis.redis.get.mockResolvedValue(Date.now() + 1);
+
+      const result = await allowListService.isEmailAllowed('test@example.com');
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should drop a cached entry invalidated by another instance', async () => {
+      mockTables({ users: [activeUser] });
+      await allowListService.isEmailAllowed('test@example.com');
+
+      // Another instance disables the user
+      mockTables({ users: [{ ...activeUser, active: false }] });
+      mockRedis.redis.get.mockResolvedValue(Date.now() + 1);
+
+      const result = await allowListService.isEmailAllowed('test@example.com');
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should keep serving cached entries that were not invalidated', async () => {
+      mockTables({ users: [activeUser] });
+      await allowListService.isEmailAllowed('test@example.com');
+      mockQuery.mockClear();
+
+      const result = await allowListService.isEmailAllowed('test@example.com');
+
+      expect(result.allowed).toBe(true);
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('FROM auth_allowed_emails'), expect.anything());
+    });
+  });
+
+  describe('negative caching and concurrent lookups', () => {
+    const userQueries = () => mockQuery.mock.calls.filter(([sql]: [string]) => sql.includes('FROM auth_allowed_emails')).length;
+
+    it('should cache emails without an entry', async () => {
+      mockTables({});
+
+      await allowListService.isEmailAllowed('bot@example.com');
+      const result = await allowListService.isEmailAllowed('bot@example.com');
+
+      expect(result.allowed).toBe(false);
+      expect(userQueries()).toBe(1);
+    });
+
+    it('should still apply allow rules to cached unknown emails', async () => {
+      mockTables({ rules: [{ id: 1, pattern: '*@partner.com', role: 'viewer', created_by: 'admin@example.com', created_at: new Date(), active: true }] });
+
+      await allowListService.isEmailAllowed('someone@partner.com');
+      const result = await allowListService.isEmailAllowed('someone@partner.com');
+
+      expect(result.allowed).toBe(true);
+      expect(userQueries()).toBe(1);
+    });
+
+    it('should drop the negative entry when the email is added', async () => {
+      mockTables({});
+      await allowListService.isEmailAllowed('new@example.com');
+
+      await allowListService.addUser('new@example.com', 'New User', 'viewer', 'admin@example.com');
+      mockTables({ users: [{ email: 'new@example.com', display_name: 'New User', role: 'viewer', active: true, expires_at: null }] });
+
+      const result = await allowListService.isEmailAllowed('new@example.com');
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should share one query between concurrent checks for the same email', async () => {
+      mockTables({});
+
+      await Promise.all([
+        allowListService.isEmailAllowed('bot@example.com'),
+        allowListService.isEmailAllowed('bot@example.com'),
+        allowListService.isEmailAllowed('BOT@example.com'),
+      ]);
+
+      expect(userQueries()).toBe(1);
+    });
+
+    it('should not cache a lookup that was invalidated while it ran', async () => {
+      let finishQuery: (rows: any[]) => void = () => {};
+      mockQuery.mockImplementation((sql: string) => {
+        if (sql.startsWith('SELECT') && sql.includes('FROM auth_allowed_emails WHERE email')) {
+          return new Promise(resolve => { finishQuery = rows => resolve({ rows }); });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+
+      const pending = allowListService.isEmailAllowed('new@example.com');
+      await new Promise(resolve => setTimeout(resolve, 0));
+      await allowListService.addUser('new@example.com', 'New User', 'viewer', 'admin@example.com');
+      finishQuery([]);
+      await pending;
+
+      mockTables({ users: [{ email: 'new@example.com', display_name: 'New User', role: 'viewer', active: true, expires_at: null }] });
+      const result = await allowListService.isEmailAllowed('new@example.com');
+
+      expect(result.allowed).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,405 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { composeMiddleware, requirePermission, requireRole, RouteMiddleware } from '@/lib/auth/api-guard';
+import { defineRoute } from '@/lib/middleware/define-route';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { allowListService } from '@/lib/auth/allowlist';
+import { roleService } from '@/lib/auth/roles';
+import { sessionService } from '@/lib/auth/sessions';
+import { networkRuleService } from '@/lib/auth/network-rules';
+import { auditLogger } from '@/lib/audit/logger';
+
+jest.mock('@clerk/nextjs/server', () => ({
+  auth: jest.fn(),
+}));
+
+jest.mock('@/lib/rate-limit', () => ({
+  checkRateLimit: jest.fn(),
+  checkUserRateLimit: jest.fn(),
+  getTemporaryBlock: jest.fn(),
+  getClientIdentifier: jest.fn(() => 'test-client'),
+}));
+
+jest.mock('@/lib/auth/user', () => ({
+  getSignedInEmail: jest.fn(),
+}));
+
+// Mock database connection
+jest.mock('@/lib/database/connection', () => ({
+  query: jest.fn(),
+}));
+
+const mockAuth = require('@clerk/nextjs/server').auth;
+const mockGetSignedInEmail = require('@/lib/auth/user').getSignedInEmail;
+const mockQuery = require('@/lib/database/connection').query;
+const mockCheckRateLimit = require('@/lib/rate-limit').checkRateLimit;
+const mockCheckUserRateLimit = require('@/lib/rate-limit').checkUserRateLimit;
+const mockGetTemporaryBlock = require('@/lib/rate-limit').getTemporaryBlock;
+
+const CSRF_TOKEN = 'a'.repeat(64);
+
+const roles = [
+  { name: 'admin', permissions: [], inherits: ['qa'] },
+  { name: 'qa', permissions: [], inherits: ['viewer'] },
+  { name: 'viewer', permissions: [], inherits: [] },
+];
+
+function signIn(email: string | null, role: string) {
+  mockAuth.mockResolvedValue({ userId: email ? 'user_1' : null, sessionId: email ? 'sess_1' : null });
+  mockGetSignedInEmail.mockResolvedValue({ userId: 'user_1', email: email || undefined });
+  jest.spyOn(allowListService, 'isEmailAllowed').mockResolvedValue({
+    allowed: true,
+    user: { email: email || '', role } as any,
+    roles: [role],
+  });
+}
+
+function request(path = '/api/admin/users', init: { method?: string; body?: unknown; csrf?: boolean } = {}) {
+  const headers: Record<string, string> = { 'user-agent': 'jest' };
+
+  if (init.csrf) {
+    headers['x-csrf-token'] = CSRF_TOKEN;
+    headers['cookie'] = `csrf-token=${CSRF_TOKEN}`;
+  }
+
+  return new NextRequest(`http://localhost${path}`, {
+    method: init.method || 'GET',
+    headers,
+    ...(init.body !== undefined && { body: JSON.stringify(init.body) }),
+  });
+}
+
+describe('API guard', () => {
+  const handler = jest.fn(async () => NextResponse.json({ ok: true }));
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    roleService.clearCache();
+    networkRuleService.clearCache();
+    mockQuery.mockImplementation(async (sql: string) => (sql.includes('FROM auth_roles') ? { rows: roles } : { rows: [] }));
+    jest.spyOn(auditLogger, 'logAuthEvent').mockResolvedValue();
+    jest.spyOn(auditLogger, 'logSessionEvent').mockResolvedValue();
+    jest.spyOn(sessionService, 'touchSession').mockResolvedValue({ success: true, status: 'active' });
+    mockCheckRateLimit.mockResolvedValue({ success: true, limit: 100, remaining: 99, reset: Date.now() + 60000 });
+    mockCheckUserRateLimit.mockResolvedValue({ success: true, limit: 100, remaining: 99, reset: Date.now() + 60000 });
+    mockGetTemporaryBlock.mockResolvedValue(null);
+  });
+
+  it('should audit and reject requests without a session', async () => {
+    signIn(null, 'viewer');
+
+    const response = await (await requirePermission('users:read')(handler))(request());
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Unauthorized' });
+    expect(auditLogger.logAuthEvent).toHaveBeenCalledWith(
+      null, 'api_deny', '/api/admin/users', null, 'jest', { reason: 'unauthenticated' }
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should audit users without the required permission', async () => {
+    signIn('viewer@example.com', 'viewer');
+
+    const response = await (await requirePermission('users:write')(handler))(request());
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Forbidden' });
+    expect(auditLogger.logAuthEvent).toHaveBeenCalledWith(
+      'viewer@example.com', 'api_deny', '/api/admin/users', null, 'jest',
+      expect.objectContaining({ reason: 'insufficient_permissions', required_permission: 'users:write', user_role: 'viewer' })
+    );
+  });
+
+  it('should let higher roles satisfy lower role checks', async () => {
+    signIn('admin@example.com', 'admin');
+
+    const response = await (await requireRole('qa')(handler))(request());
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalled();
+  });
+
+  it('should accept any of several roles and log effective roles on denial', async () => {
+    signIn('viewer@example.com', 'viewer');
+
+    const response = await (await requireRole('qa', 'support')(handler))(request());
+
+    expect(response.status).toBe(403);
+    expect(auditLogger.logAuthEvent).toHaveBeenCalledWith(
+      'viewer@example.com', 'api_deny', '/api/admin/users', null, 'jest',
+      expect.objectContaining({ required_roles: ['qa', 'support'], user_role: 'viewer', effective_roles: ['viewer'] })
+    );
+  });
+
+  describe('session tracking', () => {
+    const session = { id: 'session-1', expires_at: new Date() } as any;
+
+    it('should touch the caller\'s session and expose its id', async () => {
+      signIn('viewer@example.com', 'viewer');
+      const sessionHandler = jest.fn(async (context: any) => NextResponse.json({ sessionId: context.user.sessionId }));
+
+      const response = await (await requireRole('viewer')(sessionHandler))(request());
+
+      expect(await response.json()).toEqual({ sessionId: 'sess_1' });
+      expect(sessionService.touchSession).toHaveBeenCalledWith('viewer@example.com', 'sess_1', null, 'jest');
+      expect(auditLogger.logSessionEvent).not.toHaveBeenCalled();
+    });
+
+    it('should audit sessions seen for the first time', async () => {
+      signIn('viewer@example.com', 'viewer');
+      jest.spyOn(sessionService, 'touchSession').mockResolvedValue({ success: true, status: 'created', session });
+
+      const response = await (await requireRole('viewer')(handler))(request());
+
+      expect(response.status).toBe(200);
+      expect(auditLogger.logSessionEvent).toHaveBeenCalledWith(
+        'viewer@example.com', 'session_created', '/api/admin/users', null, 'jest',
+        { session_id: 'session-1', expires_at: session.expires_at }
+      );
+    });
+
+    it('should audit and reject sessions that hit the idle timeout', async () => {
+      signIn('viewer@example.com', 'viewer');
+      const idleSession = { ...session, active: false, end_reason: 'idle_timeout' };
+      jest.spyOn(sessionService, 'touchSession').mockResolvedValue({ success: true, status: 'expired', session: idleSession });
+
+      const response = await (await requireRole('viewer')(handler))(request());
+
+      expect(response.status).toBe(401);
+      expect(auditLogger.logSessionEvent).toHaveBeenCalledWith(
+        'viewer@example.com', 'session_expired', '/api/admin/users', null, 'jest',
+        { session_id: 'session-1', expires_at: session.expires_at, reason: 'idle_timeout' }
+      );
+      expect(auditLogger.logAuthEvent).toHaveBeenCalledWith(
+        'viewer@example.com', 'api_deny', '/api/admin/users', null, 'jest',
+        { reason: 'session_expired', session_id: 'session-1', expiry_reason: 'idle_timeout' }
+      );
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject sessions that already ended', async () => {
+      signIn('viewer@example.com', 'viewer');
+      jest.spyOn(sessionService, 'touchSession').mockResolvedValue({ success: true, status: 'ended', session });
+
+      const response = await (await requireRole('viewer')(handler))(request());
+
+      expect(response.status).toBe(401);
+      expect(auditLogger.logSessionEvent).not.toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('network restrictions', () => {
+    const adminRule = { id: 7, cidr: '10.0.0.0/8', action: 'allow', role: 'admin' };
+
+    beforeEach(() => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM auth_roles')) return { rows: roles };
+        if (sql.includes('FROM auth_network_rules')) return { rows: [adminRule] };
+        return { rows: [] };
+      });
+    });
+
+    function requestFrom(ip: string) {
+      return new NextRequest('http://localhost/api/admin/users', { headers: { 'user-agent': 'jest', 'x-forwarded-for': ip } });
+    }
+
+    it('should audit and reject holders of a role outside its allowed networks', async () => {
+      signIn('admin@example.com', 'admin');
+
+      const response = await (await requireRole('admin')(handler))(requestFrom('203.0.113.7'));
+
+      expect(response.status).toBe(403);
+      expect(auditLogger.logAuthEvent).toHaveBeenCalledWith(
+        'admin@example.com', 'api_deny', '/api/admin/users', '203.0.113.7', 'jest',
+        expect.objectContaining({ reason: 'network_not_allowed', restricted_role: 'admin' })
+      );
+      expect(sessionService.touchSession).not.toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should admit holders of the role from an allowed network and leave other roles alone', async () => {
+      signIn('admin@example.com', 'admin');
+      expect((await (await requireRole('admin')(handler))(requestFrom('10.1.2.3'))).status).toBe(200);
+
+      signIn('viewer@example.com', 'viewer');
+      expect((await (await requireRole('viewer')(handler))(requestFrom('203.0.113.7'))).status).toBe(200);
+    });
+
+    it('should fail closed when the rules can\'t be loaded', async () => {
+      signIn('viewer@example.com', 'viewer');
+      jest.spyOn(networkRuleService, 'checkAccess').mockResolvedValue({ allowed: false, error: 'connection refused' });
+
+      const response = await (await requireRole('viewer')(handler))(request());
+
+      expect(response.status).toBe(500);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('composeMiddleware', () => {
+    it('should run middlewares outermost first', async () => {
+      const calls: string[] = [];
+      const trace = (name: string): RouteMiddleware => (next) => async (req) => {
+        calls.push(name);
+        return next(req);
+      };
+
+      await composeMiddleware([trace('csrf'), trace('rate-limit')], async () => {
+        calls.push('handler');
+        return NextResponse.json({ ok: true });
+      })(request());
+
+      expect(calls).toEqual(['csrf', 'rate-limit', 'handler']);
+    });
+  });
+
+  describe('defineRoute', () => {
+    const params = (values: Record<string, string> = {}) => ({ params: Promise.resolve(values) });
+
+    it('should pass the user, decoded params and sanitized body to the handler', async () => {
+      signIn('admin@example.com', 'admin');
+
+      const route = defineRoute(
+        { permission: 'users:write', body: sanitizationConfigs.roleAssignment, params: ['scope'] },
+        async (context) => NextResponse.json({ by: context.user.email, scope: context.params.scope, body: context.body })
+      );
+
+      const response = await route(
+        request('/api/admin/role-assignments', {
+          method: 'POST',
+          csrf: true,
+          body: { email: ' Target@Example.com ', scope: 'billing', role: 'qa', extra: 'dropped' },
+        }),
+        params({ scope: 'team%2Fone' })
+      );
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        by: 'admin@example.com',
+        scope: 'team/one',
+        body: { email: 'target@example.com', scope: 'billing', role: 'qa' },
+      });
+    });
+
+    it('should answer malformed path parameters with 400', async () => {
+      signIn('admin@example.com', 'admin');
+
+      const route = defineRoute({ permission: 'users:read', params: ['email'] }, handler);
+      const response = await route(request('/api/admin/users/%E0%A4%A'), params({ email: '%E0%A4%A' }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Malformed path parameter' });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should rate limit and authenticate malformed path parameters like any other request', async () => {
+      signIn(null, 'viewer');
+
+      const route = defineRoute({ permission: 'users:read', rateLimit: 'admin', params: ['email'] }, handler);
+      const response = await route(request('/api/admin/users/%E0%A4%A'), params({ email: '%E0%A4%A' }));
+
+      expect(response.status).toBe(401);
+      expect(mockCheckRateLimit).toHaveBeenCalledWith('test-client', 'admin');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject body fields that are not strings', async () => {
+      signIn('admin@example.com', 'admin');
+
+      const route = defineRoute({ permission: 'users:write', body: sanitizationConfigs.roleAssignment }, handler);
+      const response = await route(
+        request('/api/admin/role-assignments', {
+          method: 'POST',
+          csrf: true,
+          body: { email: 'target@example.com', scope: ['billing'], role: { name: 'qa' } },
+        }),
+        params()
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: 'Input validation failed',
+        details: ['scope must be a string', 'role must be a string'],
+      });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject a missing CSRF token before resolving the session', async () => {
+      signIn('admin@example.com', 'admin');
+
+      const route = defineRoute({ permission: 'users:write', params: ['email'] }, handler);
+      const response = await route(request('/api/admin/users/x', { method: 'DELETE' }), params({ email: 'x' }));
+
+      expect(response.status).toBe(403);
+      expect(mockAuth).not.toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should rate limit before the guard runs', async () => {
+      signIn('admin@example.com', 'admin');
+      mockCheckRateLimit.mockResolvedValue({ success: false, limit: 1, remaining: 0, reset: Date.now() + 60000 });
+
+      const route = defineRoute({ permission: 'users:read', rateLimit: 'admin' }, handler);
+      const response = await route(request(), params());
+
+      expect(response.status).toBe(429);
+      expect(mockCheckRateLimit).toHaveBeenCalledWith('test-client', 'admin');
+      expect(mockAuth).not.toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should apply the per-user quota for the caller\'s roles after authentication', async () => {
+      signIn('admin@example.com', 'admin');
+      mockCheckUserRateLimit.mockResolvedValue({ success: false, limit: 1, remaining: 0, reset: Date.now() + 60000 });
+
+      const route = defineRoute({ permission: 'users:read', rateLimit: 'admin' }, handler);
+      const response = await route(request(), params());
+
+      expect(response.status).toBe(429);
+      expect(mockCheckRateLimit).toHaveBeenCalledWith('test-client', 'admin');
+      expect(mockCheckUserRateLimit).toHaveBeenCalledWith('admin@example.com', ['admin'], 'admin');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should not apply the per-user quota to callers who fail authentication', async () => {
+      signIn('viewer@example.com', 'viewer');
+
+      const route = defineRoute({ permission: 'users:write' }, handler);
+      await route(request('/api/admin/users', { method: 'POST', csrf: true }), params());
+
+      expect(mockCheckUserRateLimit).not.toHaveBeenCalled();
+    });
+
+    it('should not validate bodies for callers without access', async () => {
+      signIn('viewer@example.com', 'viewer');
+
+      const route = defineRoute({ permission: 'users:write', body: sanitizationConfigs.roleAssignment }, handler);
+      const response = await route(
+        request('/api/admin/role-assignments', { method: 'POST', csrf: true, body: {} }),
+        params()
+      );
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: 'Forbidden' });
+    });
+
+    it('should give session routes the signed-in email without an allow list check', async () => {
+      signIn('pending@example.com', 'viewer');
+
+      const route = defineRoute({ auth: 'session' }, async ({ email }) => NextResponse.json({ email }));
+      const response = await route(request('/api/user/access-request'), params());
+
+      expect(await response.json()).toEqual({ email: 'pending@example.com' });
+      expect(allowListService.isEmailAllowed).not.toHaveBeenCalled();
+    });
+
+    it('should refuse roles or permissions on routes without auth "user"', () => {
+      expect(() => defineRoute({ auth: 'public', permission: 'users:read' }, handler)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import { invitationService, createInviteToken } from '@/lib/auth/invitations';
+import { allowListService } from '@/lib/auth/allowlist';
+
+// Mock database connection
+jest.mock('@/lib/database/connection', () => ({
+  query: jest.fn(),
+}));
+
+jest.mock('@/lib/mail/mailer', () => ({
+  mailer: { send: jest.fn().mockResolvedValue({ success: true }) },
+}));
+
+const mockQuery = require('@/lib/database/connection').query;
+
+const INVITATION_ID = '0b7c2a6e-3f1d-4c59-9a57-2f3c1e8d4b10';
+
+function pendingInvitation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: INVITATION_ID,
+    email: 'invitee@example.com',
+    display_name: 'Invitee',
+    role: 'qa',
+    status: 'pending',
+    invited_by: 'admin@example.com',
+    created_at: new Date(),
+    expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    last_sent_at: new Date(),
+    send_count: 1,
+    accepted_at: null,
+    revoked_at: null,
+    revoked_by: null,
+    ...overrides,
+  };
+}
+
+describe('Invitation Service', () => {
+  const originalSecret = process.env.SESSION_COOKIE_SECRET;
+
+  beforeAll(() => {
+    process.env.SESSION_COOKIE_SECRET = 'test-secret-that-is-long-enough-for-hmac';
+  });
+
+  afterAll(() => {
+    process.env.SESSION_COOKIE_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(allowListService, 'insertUser').mockResolvedValue({ success: true });
+  });
+
+  describe('findPendingInvitation', () => {
+    it('should accept a correctly signed token', async () => {
+      const invitation = pendingInvitation();
+      mockQuery.mockResolvedValueOnce({ rows: [invitation] });
+
+      const result = await invitationService.findPendingInvitation(createInviteToken(invitation));
+
+      expect(result.error).toBeUndefined();
+      expect(result.invitation).toEqual(invitation);
+    });
+
+    it('should reject a tampered signature', async () => {
+      const invitation = pendingInvitation();
+      mockQuery.mockResolvedValueOnce({ rows: [invitation] });
+
+      const token = createInviteToken(invitation).slice(0, -2) + 'xx';
+      const result = await invitationService.findPendingInvitation(token);
+
+      expect(result.error).toBe('Invalid invitation token');
+    });
+
+    it('should reject a token issued before a resend', async () => {
+      const original = pendingInvitation();
+      const token = createInviteToken(original);
+      const resent = pendingInvitation({ expires_at: new Date(Date.now() + 48 * 60 * 60 * 1000) });
+      mockQuery.mockResolvedValueOnce({ rows: [resent] });
+
+      const result = await invitationService.findPendingInvitation(token);
+
+      expect(result.error).toBe('Invalid invitation token');
+    });
+
+    it('should reject an expired invitation', async () => {
+      const invitation = pendingInvitation({ expires_at: new Date(Date.now() - 1000) });
+      mockQuery.mockResolvedValueOnce({ rows: [invitation] });
+
+      const result = await invitationService.findPendingInvitation(createInviteToken(invitation));
+
+      expect(result.error).toBe('Invitation has expired');
+    });
+
+    it('should not query the database for a malformed token', async () => {
+      const result = await invitationService.findPendingInvitation('not-a-token');
+
+      expect(result.error).toBe('Invalid invitation token');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createInvitation', () => {
+    it('should not invite an email that is already on the allow list', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      const result = await invitationService.createInvitation('Member@Example.com', null, 'qa', 'admin@example.com');
+
+      expect(result).toEqual({ success: false, error: 'This email is already on the allow list' });
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('WHERE NOT EXISTS (SELECT 1 FROM auth_allowed_emails WHERE email = $1)'),
+        ['member@example.com', null, 'qa', 'admin@example.com', 7]
+      );
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should add the invitee to the allow list with the invited role', async () => {
+      const invitation = pendingInvitation();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [invitation] })
+        .mockResolvedValueOnce({ rows: [{ ...invitation, status: 'accepted' }] });
+
+      const result = await invitationService.acceptInvitation(createInviteToken(invitation), 'Invitee@Example.com');
+
+      expect(result.success).toBe(true);
+      expect(allowListService.insertUser).toHaveBeenCalledWith(
+        'invitee@example.com',
+        'Invitee',
+        'qa',
+        'admin@example.com'
+      );
+    });
+
+    it('should leave an entry added since the invitation alone and keep it pending', async () => {
+      const invitation = pendingInvitation();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [invitation] })
+        .mockResolvedValueOnce({ rows: [{ ...invitation, status: 'accepted' }] })
+        .mockResolvedValueOnce({ rows: [] });
+      (allowListService.insertUser as jest.Mock).mockResolvedValueOnce({ success: false, error: 'Email is already on the allow list' });
+
+      const result = await invitationService.acceptInvitation(createInviteToken(invitation), 'invitee@example.com');
+
+      expect(result.error).toBe('Email is already on the allow list');
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining("SET status = 'pending', accepted_at = NULL"),
+        [INVITATION_ID]
+      );
+    });
+
+    it('should be single use', async () => {
+      const invitation = pendingInvitation();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [invitation] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await invitationService.acceptInvitation(createInviteToken(invitation), 'invitee@example.com');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invitation has already been used');
+      expect(allowListService.insertUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject a different signed-in email', async () => {
+      const invitation = pendingInvitation();
+      mockQuery.mockResolvedValueOnce({ rows: [invitation] });
+
+      const result = await invitationService.acceptInvitation(createInviteToken(invitation), 'someone-else@example.com');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invitation was issued to a different email');
+      expect(allowListService.insertUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { evaluateNetworkRules, networkRuleService, NetworkRule } from '@/lib/auth/network-rules';
+import { resolveEffectiveRoles, roleService } from '@/lib/auth/roles';
+
+// Mock database connection
+jest.mock('@/lib/database/connection', () => ({
+  query: jest.fn(),
+}));
+
+jest.mock('@/lib/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn() },
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+const mockQuery = require('@/lib/database/connection').query;
+
+let nextId = 1;
+
+// 'owner' is a custom role built on admin
+const roles = [
+  { name: 'owner', inherits: ['admin'] },
+  { name: 'admin', inherits: ['qa'] },
+  { name: 'qa', inherits: ['viewer'] },
+  { name: 'viewer', inherits: [] },
+];
+
+function rule(cidr: string, action: 'allow' | 'deny', role: string | null = null): NetworkRule {
+  return { id: nextId++, cidr, action, role, description: null, created_by: 'admin@example.com', created_at: new Date() };
+}
+
+describe('Network Rule Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    networkRuleService.clearCache();
+    jest.spyOn(roleService, 'getEffectiveRoles').mockImplementation(async names => resolveEffectiveRoles(names, roles));
+  });
+
+  describe('evaluateNetworkRules', () => {
+    it('should allow everyone without rules', () => {
+      expect(evaluateNetworkRules([], '203.0.113.7', ['viewer'])).toEqual({ allowed: true });
+      expect(evaluateNetworkRules([], null, ['viewer'])).toEqual({ allowed: true });
+    });
+
+    it('should block addresses inside a deny rule', () => {
+      const deny = rule('198.51.100.0/24', 'deny');
+
+      expect(evaluateNetworkRules([deny], '198.51.100.20', [])).toEqual({ allowed: false, reason: 'network_denied', rule: deny });
+      expect(evaluateNetworkRules([deny], '203.0.113.7', []).allowed).toBe(true);
+    });
+
+    it('should restrict a role to its allow rules and leave other roles alone', () => {
+      const rules = [rule('10.0.0.0/8', 'allow', 'admin'), rule('2001:db8::/32', 'allow', 'admin')];
+
+      expect(evaluateNetworkRules(rules, '10.1.2.3', ['admin']).allowed).toBe(true);
+      expect(evaluateNetworkRules(rules, '2001:db8::5', ['admin']).allowed).toBe(true);
+      expect(evaluateNetworkRules(rules, '203.0.113.7', ['admin'])).toEqual({ allowed: false, reason: 'network_not_allowed', role: 'admin' });
+      expect(evaluateNetworkRules(rules, '203.0.113.7', ['viewer']).allowed).toBe(true);
+    });
+
+    it('should require the global allow rules and every held role\'s allow rules', () => {
+      const rules = [rule('10.0.0.0/8', 'allow'), rule('10.20.0.0/16', 'allow', 'admin')];
+
+      expect(evaluateNetworkRules(rules, '10.1.2.3', ['viewer']).allowed).toBe(true);
+      expect(evaluateNetworkRules(rules, '10.1.2.3', ['admin'])).toMatchObject({ reason: 'network_not_allowed', role: 'admin' });
+      expect(evaluateNetworkRules(rules, '203.0.113.7', ['viewer'])).toMatchObject({ reason: 'network_not_allowed', role: null });
+    });
+
+    it('should let deny rules win over allow rules', () => {
+      const rules = [rule('10.0.0.0/8', 'allow'), rule('10.66.0.0/16', 'deny')];
+
+      expect(evaluateNetworkRules(rules, '10.66.1.1', []).reason).toBe('network_denied');
+    });
+
+    it('should refuse an unknown address wherever allow rules apply', () => {
+      const rules = [rule('10.0.0.0/8', 'allow', 'admin'), rule('0.0.0.0/0', 'deny', 'viewer')];
+
+      expect(evaluateNetworkRules(rules, null, ['admin']).reason).toBe('network_not_allowed');
+      // Deny rules can't match an unknown address
+      expect(evaluateNetworkRules(rules, null, ['viewer']).allowed).toBe(true);
+    });
+  });
+
+  describe('addRule', () => {
+    it('should normalize the network and store the rule', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [rule('203.0.113.7/32', 'deny')] });
+
+      const result = await networkRuleService.addRule('203.0.113.7', 'deny', null, null, 'admin@example.com', { ip: '10.0.0.1', roles: ['admin'] });
+
+      expect(result.success).toBe(true);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO auth_network_rules'),
+        ['203.0.113.7/32', 'deny', null, null, 'admin@example.com']
+      );
+    });
+
+    it('should reject invalid networks and actions', async () => {
+      expect((await networkRuleService.addRule('10.0.0.0/33', 'allow', null, null, 'admin@example.com')).success).toBe(false);
+      expect((await networkRuleService.addRule('corp-network', 'allow', null, null, 'admin@example.com')).success).toBe(false);
+      expect((await networkRuleService.addRule('10.0.0.0/8', 'block', null, null, 'admin@example.com')).success).toBe(false);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a rule that would lock the caller out', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      const result = await networkRuleService.addRule('10.0.0.0/8', 'allow', 'admin', null, 'admin@example.com', { ip: '203.0.113.7', roles: ['admin'] });
+
+      expect(result).toEqual({ success: false, error: 'This rule would block your own access' });
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('INSERT'), expect.anything());
+    });
+
+    it('should report unknown roles', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] }).mockRejectedValueOnce(Object.assign(new Error('fk'), { code: '23503' }));
+
+      const result = await networkRuleService.addRule('10.0.0.0/8', 'deny', 'ghost', null, 'admin@example.com', { ip: '203.0.113.7', roles: ['admin'] });
+
+      expect(result).toEqual({ success: false, error: 'Unknown role' });
+    });
+  });
+
+  describe('removeRule', () => {
+    it('should refuse to remove the allow rule the caller depends on', async () => {
+      const corporate = rule('10.0.0.0/8', 'allow', 'admin');
+      mockQuery.mockResolvedValue({ rows: [corporate, rule('192.0.2.0/24', 'allow', 'admin')] });
+
+      const result = await networkRuleService.removeRule(corporate.id, { ip: '10.0.0.1', roles: ['admin'] });
+
+      expect(result.success).toBe(false);
+      expect(mockQuery).not.toHaveBeenCalledWith(expect.stringContaining('DELETE'), expect.anything());
+    });
+  });
+
+  describe('checkAccess', () => {
+    it('should only apply global rules when no roles are given', async () => {
+      mockQuery.mockResolvedValue({ rows: [rule('10.0.0.0/8', 'allow', 'admin')] });
+
+      expect((await networkRuleService.checkAccess('203.0.113.7')).allowed).toBe(true);
+      expect((await networkRuleService.checkAccess('203.0.113.7', ['admin'])).allowed).toBe(false);
+      // Rules are cached between checks
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hold roles to the rules of the roles they inherit', async () => {
+      mockQuery.mockResolvedValue({ rows: [rule('10.0.0.0/8', 'allow', 'admin')] });
+
+      expect(await networkRuleService.checkAccess('203.0.113.7', ['owner'])).toMatchObject({ allowed: false, role: 'admin' });
+      expect((await networkRuleService.checkAccess('10.1.2.3', ['owner'])).allowed).toBe(true);
+      expect((await networkRuleService.checkAccess('203.0.113.7', ['qa'])).allowed).toBe(true);
+    });
+
+    it('should fail closed when the rules can\'t be loaded', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockQuery.mockRejectedValue(new Error('connection refused'));
+
+      expect(await networkRuleService.checkAccess('203.0.113.7')).toEqual({ allowed: false, error: 'connection refused' });
+      jest.restoreAllMocks();
+    });
+  });
+});
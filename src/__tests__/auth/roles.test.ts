@@ -0,0 +1,184 @@
+import { roleService } from '@/lib/auth/roles';
+import { ALL_PERMISSIONS } from '@/lib/auth/permissions';
+
+// Mock database connection
+jest.mock('@/lib/database/connection', () => ({
+  query: jest.fn(),
+}));
+
+jest.mock('@/lib/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn() },
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+const mockQuery = require('@/lib/database/connection').query;
+const mockRedis = require('@/lib/redis');
+
+const roles = [
+  { name: 'admin', description: null, permissions: [], inherits: ['qa'], built_in: true },
+  { name: 'qa', description: null, permissions: [], inherits: ['viewer'], built_in: true },
+  { name: 'viewer', description: null, permissions: [], inherits: [], built_in: true },
+  { name: 'support', description: 'Helpdesk', permissions: ['users:read', 'retired:permission'], inherits: ['viewer'], built_in: false },
+  { name: 'auditor', description: null, permissions: ['audit:read'], inherits: ['support'], built_in: false },
+];
+
+describe('Role Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    roleService.clearCache();
+    mockQuery.mockResolvedValue({ rows: roles });
+  });
+
+  describe('getPermissionsForRole', () => {
+    it('should resolve permissions from role data', async () => {
+      const permissions = await roleService.getPermissionsForRole('support');
+
+      expect(permissions).toEqual(['users:read']);
+    });
+
+    it('should always grant every permission to the admin role', async () => {
+      const permissions = await roleService.getPermissionsForRole('admin');
+
+      expect(permissions).toEqual(ALL_PERMISSIONS);
+    });
+
+    it('should grant nothing to unknown roles', async () => {
+      expect(await roleService.getPermissionsForRole('ghost')).toEqual([]);
+      expect(await roleService.hasPermission('viewer', 'users:read')).toBe(false);
+    });
+
+    it('should cache the role list', async () => {
+      await roleService.getPermissionsForRole('support');
+      await roleService.getPermissionsForRole('viewer');
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getEffectiveRoles', () => {
+    it('should include every inherited role', async () => {
+      expect(await roleService.getEffectiveRoles('auditor')).toEqual(['auditor', 'support', 'viewer']);
+      expect(await roleService.getEffectiveRoles('qa')).toEqual(['qa', 'viewer']);
+    });
+
+    it('should let the admin role satisfy every role', async () => {
+      const effective = await roleService.getEffectiveRoles('admin');
+
+      expect(effective).toEqual(expect.arrayContaining(['admin', 'qa', 'viewer', 'support', 'auditor']));
+    });
+
+    it('should inherit permissions from parent roles', async () => {
+      const permissions = await roleService.getPermissionsForRole('auditor');
+
+      expect(permissions).toEqual(['users:read', 'audit:read']);
+    });
+
+    it('should combine permissions across several roles', async () => {
+      const permissions = await roleService.getPermissionsForRoles(['viewer', 'auditor']);
+
+      expect(permissions).toEqual(['users:read', 'audit:read']);
+      expect(await roleService.hasPermission(['viewer', 'support'], 'users:read')).toBe(true);
+    });
+
+    it('should tolerate cycles in stored data', async () => {
+      mockQuery.mockResolvedValue({
+        rows: [
+          { name: 'a', permissions: ['users:read'], inherits: ['b'] },
+          { name: 'b', permissions: [], inherits: ['a'] },
+        ],
+      });
+
+      expect(await roleService.getEffectiveRoles('a')).toEqual(['a', 'b']);
+      expect(await roleService.getPermissionsForRole('b')).toEqual(['users:read']);
+    });
+  });
+
+  describe('canGrant', () => {
+    it('should only allow roles whose permissions the granter holds', async () => {
+      expect(await roleService.canGrant(['auditor'], 'support')).toEqual({ allowed: true });
+      expect(await roleService.canGrant(['support'], 'auditor')).toEqual({
+        allowed: false,
+        error: 'You cannot grant a role with permissions you do not hold: audit:read',
+      });
+    });
+
+    it('should keep the admin role to admins', async () => {
+      expect((await roleService.canGrant(['auditor'], 'admin')).allowed).toBe(false);
+      expect((await roleService.canGrant(['admin'], 'admin')).allowed).toBe(true);
+    });
+  });
+
+  describe('createRole', () => {
+    it('should reject unknown permissions', async () => {
+      const result = await roleService.createRole('auditor', null, ['audit:read', 'audit:delete'], 'admin@example.com');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unknown permissions: audit:delete');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid role names', async () => {
+      const result = await roleService.createRole('Not A Role!', null, [], 'admin@example.com');
+
+      expect(result.success).toBe(false);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown parent roles', async () => {
+      const result = await roleService.createRole('contractor', null, [], 'admin@example.com', ['ghost']);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unknown roles: ghost');
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should reject inheritance that would create a cycle', async () => {
+      const result = await roleService.updateRole('support', null, [], ['auditor']);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Inheriting from auditor would create a cycle');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep existing parents when inherits is omitted', async () => {
+      await roleService.updateRole('support', null, ['users:read']);
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('UPDATE auth_roles'),
+        ['support', null, ['users:read'], ['viewer']]
+      );
+    });
+
+    it('should drop the cached roles on every instance', async () => {
+      mockRedis.isRedisConfigured.mockReturnValue(true);
+      mockRedis.redis.get.mockResolvedValue(null);
+
+      try {
+        await roleService.updateRole('support', null, ['users:read']);
+
+        expect(mockRedis.redis.set).toHaveBeenCalledWith('roles:invalidated:all', expect.any(Number), { ex: 300 });
+      } finally {
+        mockRedis.isRedisConfigured.mockReturnValue(false);
+      }
+    });
+
+    it('should not allow editing the admin role', async () => {
+      const result = await roleService.updateRole('admin', null, []);
+
+      expect(result.success).toBe(false);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteRole', () => {
+    it('should refuse to delete a role that is still assigned', async () => {
+      mockQuery.mockRejectedValueOnce(Object.assign(new Error('fk violation'), { code: '23503' }));
+
+      const result = await roleService.deleteRole('support');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Role is still assigned and cannot be deleted');
+    });
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * @jest-environment node
+ */
+import { sessionService } from '@/lib/auth/sessions';
+
+// Mock database connection
+jest.mock('@/lib/database/connection', () => ({
+  query: jest.fn(),
+}));
+
+const mockRevokeSession = jest.fn();
+
+jest.mock('@clerk/nextjs/server', () => ({
+  clerkClient: jest.fn(async () => ({ sessions: { revokeSession: mockRevokeSession } })),
+}));
+
+const mockQuery = require('@/lib/database/connection').query;
+
+function session(overrides: Record<string, unknown> = {}) {
+  return {
+    id: '7d0f3a52-9c1e-4b8a-8f35-2d6e1c9b0a47',
+    email: 'user@example.com',
+    created_at: new Date(),
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    last_accessed: new Date(),
+    ip_address: '203.0.113.7',
+    user_agent: 'jest',
+    active: true,
+    ended_at: null,
+    end_reason: null,
+    ...overrides,
+  };
+}
+
+describe('Session Service', () => {
+  const originalTimeout = process.env.SESSION_TIMEOUT;
+  const originalIdleTimeout = process.env.SESSION_IDLE_TIMEOUT;
+
+  afterAll(() => {
+    process.env.SESSION_TIMEOUT = originalTimeout;
+    process.env.SESSION_IDLE_TIMEOUT = originalIdleTimeout;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('startSession', () => {
+    it('should record the session with an expiry from SESSION_TIMEOUT', async () => {
+      process.env.SESSION_TIMEOUT = '3600';
+      const row = session();
+      mockQuery.mockResolvedValueOnce({ rows: [row] });
+
+      const result = await sessionService.startSession('User@Example.com', 'sess_1', '203.0.113.7', 'jest');
+
+      expect(result).toEqual({ success: true, session: row, created: true });
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO auth_sessions'),
+        ['user@example.com', 'sess_1', 3600, '203.0.113.7', 'jest']
+      );
+    });
+
+    it('should store addresses that are not IPs as null', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [session({ ip_address: null })] });
+
+      await sessionService.startSession('user@example.com', 'sess_1', 'unknown', 'jest');
+
+      expect(mockQuery.mock.calls[0][1][3]).toBeNull();
+    });
+
+    it('should not create a second row for the same Clerk session', async () => {
+      const existing = session();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [existing] });
+
+      const result = await sessionService.startSession('user@example.com', 'sess_1', null, 'jest');
+
+      expect(result.created).toBe(false);
+      expect(result.session).toBe(existing);
+    });
+  });
+
+  describe('touchSession', () => {
+    it('should update last_accessed on a session within the idle timeout', async () => {
+      process.env.SESSION_IDLE_TIMEOUT = '900';
+      mockQuery.mockResolvedValueOnce({ rows: [session()] });
+
+      const result = await sessionService.touchSession('user@example.com', 'sess_1', '203.0.113.7', 'jest');
+
+      expect(result.status).toBe('active');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][0]).toContain('SET last_accessed = now()');
+      expect(mockQuery.mock.calls[0][0]).toContain('last_accessed > now() - make_interval(secs => $5)');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['sess_1', 'user@example.com', '203.0.113.7', 'jest', 900]);
+    });
+
+    it('should end an idle or expired session, record which limit it hit and revoke it with Clerk', async () => {
+      process.env.SESSION_IDLE_TIMEOUT = '900';
+      const expired = session({ active: false, end_reason: 'idle_timeout' });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [expired] });
+
+      const result = await sessionService.touchSession('user@example.com', 'sess_1', null, 'jest');
+
+      expect(result).toEqual({ success: true, status: 'expired', session: expired });
+      expect(mockQuery.mock.calls[1][0]).toContain("CASE WHEN expires_at <= now() THEN 'max_lifetime' ELSE 'idle_timeout' END");
+      expect(mockQuery.mock.calls[1][1]).toEqual(['sess_1', 'user@example.com', 900]);
+      expect(mockRevokeSession).toHaveBeenCalledWith('sess_1');
+    });
+
+    it('should record sessions that skipped the sign-in callback', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [session()] });
+
+      const result = await sessionService.touchSession('user@example.com', 'sess_1', null, 'jest');
+
+      expect(result.status).toBe('created');
+      expect(mockQuery.mock.calls[2][0]).toContain('INSERT INTO auth_sessions');
+    });
+
+    it('should report sessions that already ended', async () => {
+      const ended = session({ active: false, end_reason: 'signed_out' });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [ended] });
+
+      const result = await sessionService.touchSession('user@example.com', 'sess_1', null, 'jest');
+
+      expect(result).toEqual({ success: true, status: 'ended', session: ended });
+    });
+
+    it('should report database errors', async () => {
+      mockQuery.mockRejectedValueOnce(new Error('connection refused'));
+
+      const result = await sessionService.touchSession('user@example.com', 'sess_1', null, 'jest');
+
+      expect(result).toEqual({ success: false, error: 'connection refused' });
+    });
+  });
+
+  describe('checkSession', () => {
+    it('should apply the limits without knowing the email', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [session()] });
+
+      const result = await sessionService.checkSession('sess_1', '203.0.113.7', 'jest');
+
+      expect(result.status).toBe('active');
+      expect(mockQuery.mock.calls[0][1][1]).toBeNull();
+    });
+
+    it('should expire sessions past either limit', async () => {
+      const expired = session({ active: false, end_reason: 'max_lifetime' });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [expired] });
+
+      const result = await sessionService.checkSession('sess_1', null, 'jest');
+
+      expect(result).toEqual({ success: true, status: 'expired', session: expired });
+    });
+
+    it('should leave sessions it has not seen to the API guard', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await sessionService.checkSession('sess_new', null, 'jest');
+
+      expect(result).toEqual({ success: true, status: 'untracked' });
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report sessions that already ended', async () => {
+      const ended = session({ active: false, end_reason: 'terminated' });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [ended] });
+
+      const result = await sessionService.checkSession('sess_1', null, 'jest');
+
+      expect(result).toEqual({ success: true, status: 'ended', session: ended });
+    });
+  });
+
+  describe('endSessionsForUser', () => {
+    it('should end every live session and revoke them with Clerk', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { ...session({ active: false }), session_token: 'sess_1' },
+          { ...session({ id: 'other', active: false }), session_token: 'sess_2' },
+        ],
+      });
+
+      const result = await sessionService.endSessionsForUser('User@Example.com', 'user_disabled');
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('WHERE email = $1 AND active = true'), ['user@example.com', 'user_disabled']);
+      expect(mockRevokeSession).toHaveBeenCalledWith('sess_1');
+      expect(mockRevokeSession).toHaveBeenCalledWith('sess_2');
+      expect(result.sessions.map(s => s.id)).toEqual([session().id, 'other']);
+      expect(result.sessions[0]).not.toHaveProperty('session_token');
+    });
+
+    it('should still end sessions when Clerk revocation fails', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...session({ active: false }), session_token: 'sess_1' }] });
+      mockRevokeSession.mockRejectedValueOnce(new Error('Clerk unavailable'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await sessionService.endSessionsForUser('user@example.com', 'user_removed');
+
+      expect(result.success).toBe(true);
+      expect(result.sessions).toHaveLength(1);
+    });
+  });
+
+  describe('getActiveSessions', () => {
+    it('should mark the caller\'s current session', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...session(), current: true }, { ...session({ id: 'other' }), current: null }] });
+
+      const { sessions } = await sessionService.getActiveSessions('user@example.com', 'sess_1');
+
+      expect(sessions.map(s => s.current)).toEqual([true, false]);
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('expires_at > now()'), ['user@example.com', 'sess_1', expect.any(Number)]);
+    });
+  });
+
+  describe('terminateSession', () => {
+    it('should reject ids that are not UUIDs without querying', async () => {
+      const result = await sessionService.terminateSession('sess_1', 'terminated');
+
+      expect(result).toEqual({ success: false, error: 'Invalid session id' });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should end the session and revoke it with Clerk', async () => {
+      const id = session().id;
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...session({ active: false }), session_token: 'sess_1' }] });
+
+      const result = await sessionService.terminateSession(id, 'terminated');
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('WHERE id = $1 AND active = true'), [id, 'terminated']);
+      expect(mockRevokeSession).toHaveBeenCalledWith('sess_1');
+      expect(result.success).toBe(true);
+      expect(result.session).not.toHaveProperty('session_token');
+    });
+
+    it('should report sessions that already ended', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await sessionService.terminateSession(session().id, 'terminated');
+
+      expect(result).toEqual({ success: false, error: 'Session not found or already ended' });
+      expect(mockRevokeSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSessions', () => {
+    it('should list every active session when no email is given', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [session()] });
+
+      const { sessions } = await sessionService.getSessions();
+
+      expect(sessions).toHaveLength(1);
+      expect(mockQuery).toHaveBeenCalledWith(expect.not.stringContaining('email = $2'), [expect.any(Number)]);
+    });
+
+    it('should filter by normalized email', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await sessionService.getSessions({ email: ' User@Example.com ' });
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('AND email = $2'), [expect.any(Number), 'user@example.com']);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { MemoryCache, RedisCache, createCache } from '@/lib/cache';
+
+jest.mock('@/lib/redis', () => ({
+  redis: { get: jest.fn(), set: jest.fn(), del: jest.fn() },
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+const mockRedis = require('@/lib/redis');
+
+describe('Cache', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRedis.isRedisConfigured.mockReturnValue(false);
+  });
+
+  describe('MemoryCache', () => {
+    it('should count hits and misses', async () => {
+      const cache = new MemoryCache<string>('test', 60000);
+
+      expect(await cache.get('a')).toBeUndefined();
+      await cache.set('a', 'value');
+      expect(await cache.get('a')).toBe('value');
+
+      expect(cache.getMetrics()).toEqual({ backend: 'memory', hits: 1, misses: 1, sets: 1, invalidations: 0, errors: 0 });
+    });
+
+    it('should expire entries after the TTL', async () => {
+      const cache = new MemoryCache<string>('test', 1000);
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+      await cache.set('a', 'value');
+
+      jest.spyOn(Date, 'now').mockReturnValue(now + 1000);
+
+      expect(await cache.get('a')).toBeUndefined();
+      jest.restoreAllMocks();
+    });
+
+    it('should stamp invalidations for other instances when Redis is configured', async () => {
+      mockRedis.isRedisConfigured.mockReturnValue(true);
+      const cache = new MemoryCache<string>('test', 60000);
+
+      await cache.invalidate('a');
+
+      expect(mockRedis.redis.set).toHaveBeenCalledWith('test:invalidated:a', expect.any(Number), { ex: 60 });
+    });
+
+    it('should ignore its own entry once another instance stamped it', async () => {
+      mockRedis.isRedisConfigured.mockReturnValue(true);
+      mockRedis.redis.get.mockResolvedValue(null);
+      const cache = new MemoryCache<string>('test', 60000);
+      await cache.set('a', 'value');
+      expect(await cache.get('a')).toBe('value');
+
+      mockRedis.redis.get.mockResolvedValue(Date.now() + 1);
+
+      expect(await cache.get('a')).toBeUndefined();
+    });
+
+    it('should not store a load that an invalidation overtook', async () => {
+      const cache = new MemoryCache<string>('test', 60000);
+      const loadedAt = Date.now();
+      await cache.invalidate('a');
+
+      await cache.set('a', 'stale', undefined, loadedAt);
+      expect(await cache.get('a')).toBeUndefined();
+
+      await cache.set('a', 'fresh', undefined, Date.now() + 1);
+      expect(await cache.get('a')).toBe('fresh');
+    });
+
+    it('should date entries from their load, so stamps placed during it still count', async () => {
+      mockRedis.isRedisConfigured.mockReturnValue(true);
+      const cache = new MemoryCache<string>('test', 60000);
+      const loadedAt = Date.now() - 10;
+      mockRedis.redis.get.mockResolvedValue(loadedAt + 5);
+
+      await cache.set('a', 'stale', undefined, loadedAt);
+
+      expect(await cache.get('a')).toBeUndefined();
+    });
+  });
+
+  describe('RedisCache', () => {
+    it('should share entries through Redis', async () => {
+      const cache = new RedisCache<{ n: number }>('test', 60000);
+      mockRedis.redis.get.mockResolvedValueOnce(null).mockResolvedValueOnce({ n: 1 });
+
+      await cache.set('a', { n: 1 });
+
+      expect(mockRedis.redis.set).toHaveBeenCalledWith('test:entry:a', { n: 1 }, { px: 60000 });
+      expect(await cache.get('a')).toBeUndefined();
+      expect(await cache.get('a')).toEqual({ n: 1 });
+      expect(cache.getMetrics()).toMatchObject({ backend: 'redis', hits: 1, misses: 1, sets: 1 });
+    });
+
+    it('should delete invalidated entries for every instance', async () => {
+      const cache = new RedisCache<string>('test', 60000);
+
+      await cache.invalidate('a');
+
+      expect(mockRedis.redis.del).toHaveBeenCalledWith('test:entry:a');
+      expect(mockRedis.redis.set).toHaveBeenCalledWith('test:invalidated:a', expect.any(Number), { ex: 60 });
+    });
+
+    it('should not store a load that an invalidation overtook', async () => {
+      const cache = new RedisCache<string>('test', 60000);
+      const loadedAt = Date.now();
+      mockRedis.redis.get.mockResolvedValueOnce(loadedAt + 5).mockResolvedValueOnce(loadedAt - 5);
+
+      await cache.set('a', 'stale', undefined, loadedAt);
+      expect(mockRedis.redis.set).not.toHaveBeenCalled();
+
+      await cache.set('a', 'fresh', undefined, loadedAt);
+      expect(mockRedis.redis.set).toHaveBeenCalledWith('test:entry:a', 'fresh', { px: 60000 });
+    });
+
+    it('should treat Redis errors as misses', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const cache = new RedisCache<string>('test', 60000);
+      mockRedis.redis.get.mockRejectedValueOnce(new Error('unreachable'));
+
+      expect(await cache.get('a')).toBeUndefined();
+      expect(cache.getMetrics()).toMatchObject({ misses: 1, errors: 1 });
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('createCache', () => {
+    const originalBackend = process.env.CACHE_BACKEND;
+
+    afterEach(() => {
+      process.env.CACHE_BACKEND = originalBackend;
+    });
+
+    it('should use Redis when asked and configured', () => {
+      process.env.CACHE_BACKEND = 'redis';
+      mockRedis.isRedisConfigured.mockReturnValue(true);
+
+      expect(createCache('test', 1000)).toBeInstanceOf(RedisCache);
+    });
+
+    it('should fall back to memory without Upstash configured', () => {
+      process.env.CACHE_BACKEND = 'redis';
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(createCache('test', 1000)).toBeInstanceOf(MemoryCache);
+      jest.restoreAllMocks();
+    });
+  });
+});
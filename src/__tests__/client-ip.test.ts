@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import { getClientIP, isInNetwork, parseNetwork, toInet } from '@/lib/client-ip';
+
+function request(headers: Record<string, string>): Request {
+  return new Request('http://localhost/api/user/profile', { headers });
+}
+
+describe('Client IP resolution', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    jest.restoreAllMocks();
+  });
+
+  describe('toInet', () => {
+    it('should accept IPv4 and IPv6 addresses and strip ports', () => {
+      expect(toInet('203.0.113.7')).toBe('203.0.113.7');
+      expect(toInet(' 203.0.113.7:8443 ')).toBe('203.0.113.7');
+      expect(toInet('[2001:db8::1]:443')).toBe('2001:db8::1');
+      expect(toInet('2001:db8::1')).toBe('2001:db8::1');
+    });
+
+    it('should reject anything that is not an address', () => {
+      expect(toInet('unknown')).toBeNull();
+      expect(toInet('203.0.113.7; DROP TABLE')).toBeNull();
+      expect(toInet('')).toBeNull();
+      expect(toInet(null)).toBeNull();
+    });
+  });
+
+  describe('parseNetwork', () => {
+    it('should parse CIDR ranges and single addresses', () => {
+      expect(parseNetwork('10.0.0.0/8')).toEqual({ address: '10.0.0.0', prefix: 8, type: 'ipv4' });
+      expect(parseNetwork(' 2001:db8::/32 ')).toEqual({ address: '2001:db8::', prefix: 32, type: 'ipv6' });
+      expect(parseNetwork('203.0.113.7')).toEqual({ address: '203.0.113.7', prefix: 32, type: 'ipv4' });
+    });
+
+    it('should reject malformed networks', () => {
+      ['10.0.0.0/33', '10.0.0.0/', '10.0.0.0/8/8', '10.0.0.0/-1', '10.0.0.0/8x', 'corp'].forEach(value => {
+        expect(parseNetwork(value)).toBeNull();
+      });
+    });
+
+    it('should match addresses of the same family only', () => {
+      const network = parseNetwork('10.0.0.0/8')!;
+
+      expect(isInNetwork('10.255.0.1', network)).toBe(true);
+      expect(isInNetwork('11.0.0.1', network)).toBe(false);
+      expect(isInNetwork('2001:db8::1', network)).toBe(false);
+    });
+  });
+
+  describe('getClientIP', () => {
+    it('should return null without forwarding headers', () => {
+      expect(getClientIP(request({}))).toBeNull();
+    });
+
+    it('should trust only the hop added by the nearest proxy by default', () => {
+      const ip = getClientIP(request({ 'x-forwarded-for': '198.51.100.99, 203.0.113.7' }));
+
+      // 198.51.100.99 was sent by the client and could be anything
+      expect(ip).toBe('203.0.113.7');
+    });
+
+    it('should count back TRUSTED_PROXY_HOPS entries', () => {
+      process.env.TRUSTED_PROXY_HOPS = '2';
+
+      expect(getClientIP(request({ 'x-forwarded-for': '198.51.100.99, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+      expect(getClientIP(request({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+    });
+
+    it('should skip hops inside TRUSTED_PROXIES', () => {
+      process.env.TRUSTED_PROXIES = '10.0.0.0/8, 2001:db8:ffff::/48, 192.0.2.10';
+
+      expect(getClientIP(request({ 'x-forwarded-for': '198.51.100.99, 203.0.113.7, 192.0.2.10, 10.1.2.3' }))).toBe('203.0.113.7');
+      expect(getClientIP(request({ 'x-forwarded-for': '2001:db8::5, 2001:db8:ffff::1' }))).toBe('2001:db8::5');
+    });
+
+    it('should return the leftmost hop when every hop is a trusted proxy', () => {
+      process.env.TRUSTED_PROXIES = '10.0.0.0/8';
+
+      expect(getClientIP(request({ 'x-forwarded-for': '10.0.0.5, 10.0.0.2' }))).toBe('10.0.0.5');
+    });
+
+    it('should give up at a malformed hop rather than trust what is left of it', () => {
+      process.env.TRUSTED_PROXIES = '10.0.0.0/8';
+
+      expect(getClientIP(request({ 'x-forwarded-for': '203.0.113.7, garbage, 10.0.0.2' }))).toBeNull();
+    });
+
+    it('should ignore invalid TRUSTED_PROXIES entries', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      process.env.TRUSTED_PROXIES = 'not-a-network, 10.0.0.0/99, 10.0.0.0/8';
+
+      expect(getClientIP(request({ 'x-forwarded-for': '203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+      expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should read CLIENT_IP_HEADER when configured', () => {
+      process.env.CLIENT_IP_HEADER = 'CF-Connecting-IP';
+
+      expect(getClientIP(request({ 'cf-connecting-ip': '203.0.113.7', 'x-forwarded-for': '198.51.100.99' }))).toBe('203.0.113.7');
+      expect(getClientIP(request({ 'x-forwarded-for': '198.51.100.99' }))).toBeNull();
+    });
+
+    it('should ignore x-real-ip, which clients can set', () => {
+      expect(getClientIP(request({ 'x-real-ip': '198.51.100.99' }))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  SlidingWindowLimiter,
+  blockTemporarily,
+  checkRateLimit,
+  checkUserRateLimit,
+  fallbackRateLimit,
+  getFailurePolicy,
+  getTemporaryBlock,
+  getUserRateLimit,
+  getRateLimitMetrics,
+  liftTemporaryBlock,
+  rateLimitConfigs,
+  rateLimits,
+  resetRateLimitMetrics,
+  userRateLimitConfigs,
+} from '@/lib/rate-limit';
+import { withRateLimit, withUserRateLimit } from '@/lib/middleware/rate-limit';
+
+jest.mock('@/lib/redis', () => ({
+  redis: {},
+  isRedisConfigured: jest.fn(() => false),
+}));
+
+const mockRedis = require('@/lib/redis');
+
+function request(ip: string = '203.0.113.7', userAgent: string = 'jest'): NextRequest {
+  return new NextRequest('http://localhost/api/admin/users', {
+    headers: { 'x-forwarded-for': ip, 'user-agent': userAgent },
+  });
+}
+
+describe('Rate limiting without Redis', () => {
+  beforeEach(() => {
+    fallbackRateLimit.reset();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('SlidingWindowLimiter', () => {
+    it('should allow up to the limit and then refuse', async () => {
+      const limiter = new SlidingWindowLimiter();
+
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await limiter.limit('client', 3, 60));
+      }
+
+      expect(results.map(r => r.success)).toEqual([true, true, true, false]);
+      expect(results.map(r => r.remaining)).toEqual([2, 1, 0, 0]);
+    });
+
+    it('should weight the previous window by how much of it still overlaps', async () => {
+      const limiter = new SlidingWindowLimiter();
+      const windowStart = 60000 * 1000;
+      const now = jest.spyOn(Date, 'now').mockReturnValue(windowStart);
+
+      for (let i = 0; i < 4; i++) {
+        await limiter.limit('client', 4, 60);
+      }
+
+      // A quarter into the next window, 3 of the previous 4 requests still count
+      now.mockReturnValue(windowStart + 60000 + 15000);
+      expect((await limiter.limit('client', 4, 60)).success).toBe(true);
+      expect((await limiter.limit('client', 4, 60)).success).toBe(false);
+
+      // Two windows later nothing counts any more
+      now.mockReturnValue(windowStart + 3 * 60000);
+      expect((await limiter.limit('client', 4, 60)).remaining).toBe(3);
+    });
+
+    it('should keep memory bounded by evicting the least recently used key', async () => {
+      const limiter = new SlidingWindowLimiter(2);
+
+      await limiter.limit('a', 1, 60);
+      await limiter.limit('b', 1, 60);
+      await limiter.limit('a', 1, 60);
+      await limiter.limit('c', 1, 60);
+
+      expect(limiter.size).toBe(2);
+      // 'a' was used more recently than 'b' and is still limited; 'b' was evicted and starts over
+      expect((await limiter.limit('a', 1, 60)).success).toBe(false);
+      expect((await limiter.limit('b', 1, 60)).success).toBe(true);
+    });
+
+    it('should drop expired keys before evicting live ones', async () => {
+      const limiter = new SlidingWindowLimiter(2);
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      await limiter.limit('old', 1, 1);
+      await limiter.limit('live', 1, 60);
+
+      now.mockReturnValue(2000);
+      await limiter.limit('new', 1, 60);
+
+      expect((await limiter.limit('live', 1, 60)).success).toBe(false);
+    });
+  });
+
+  describe('checkRateLimit', () => {
+    it('should apply the limits configured for each type', async () => {
+      const results = [];
+      for (let i = 0; i <= rateLimitConfigs.login.limit; i++) {
+        results.push(await checkRateLimit('client', 'login'));
+      }
+
+      expect(results[0]).toMatchObject({ success: true, limit: 5 });
+      expect(results[rateLimitConfigs.login.limit].success).toBe(false);
+      // Each type counts separately
+      expect((await checkRateLimit('client', 'api')).success).toBe(true);
+    });
+  });
+
+  describe('checkUserRateLimit', () => {
+    it('should give a user the highest quota of the roles they hold', () => {
+      expect(getUserRateLimit('admin', ['viewer'])).toBe(userRateLimitConfigs.admin.default);
+      expect(getUserRateLimit('admin', ['viewer', 'admin'])).toBe(userRateLimitConfigs.admin.admin);
+    });
+
+    it('should keep every quota below the per-IP limit that runs first', () => {
+      (['api', 'admin'] as const).forEach(type => {
+        Object.keys(userRateLimitConfigs[type]).forEach(role => {
+          expect(userRateLimitConfigs[type][role].limit).toBeLessThan(rateLimitConfigs[type].limit);
+        });
+      });
+    });
+
+    it('should key the quota on the email, whatever the client', async () => {
+      const quota = userRateLimitConfigs.admin.default.limit;
+
+      for (let i = 0; i < quota; i++) {
+        await checkUserRateLimit('Viewer@Example.com', ['viewer'], 'admin');
+      }
+
+      expect((await checkUserRateLimit('viewer@example.com', ['viewer'], 'admin')).success).toBe(false);
+      expect((await checkUserRateLimit('other@example.com', ['viewer'], 'admin')).success).toBe(true);
+      // Admins are held to their own, higher quota
+      expect((await checkUserRateLimit('viewer@example.com', ['admin'], 'admin')).limit).toBe(userRateLimitConfigs.admin.admin.limit);
+    });
+
+    it('should count separately from the per-IP limits', async () => {
+      for (let i = 0; i < userRateLimitConfigs.admin.default.limit; i++) {
+        await checkUserRateLimit('viewer@example.com', ['viewer'], 'admin');
+      }
+
+      expect((await checkRateLimit('viewer@example.com', 'admin')).success).toBe(true);
+    });
+  });
+
+  describe('withRateLimit', () => {
+    it('should answer 429 once the limit is used up', async () => {
+      const handler = jest.fn(async () => NextResponse.json({ ok: true }));
+      const limited = withRateLimit({ type: 'admin' })(handler);
+
+      for (let i = 0; i < rateLimitConfigs.admin.limit; i++) {
+        expect((await limited(request())).status).toBe(200);
+      }
+
+      const response = await limited(request());
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBeTruthy();
+      expect(response.headers.get('X-RateLimit-Remaining')).toBe('0');
+      expect(handler).toHaveBeenCalledTimes(rateLimitConfigs.admin.limit);
+    });
+
+    it('should count each client separately', async () => {
+      const handler = jest.fn(async () => NextResponse.json({ ok: true }));
+      const limited = withRateLimit({ type: 'login' })(handler);
+
+      for (let i = 0; i < rateLimitConfigs.login.limit; i++) {
+        await limited(request('203.0.113.7'));
+      }
+
+      expect((await limited(request('203.0.113.7'))).status).toBe(429);
+      expect((await limited(request('198.51.100.1'))).status).toBe(200);
+    });
+
+    it('should not hand out a fresh bucket for a new user agent', async () => {
+      const handler = jest.fn(async () => NextResponse.json({ ok: true }));
+      const limited = withRateLimit({ type: 'login' })(handler);
+
+      for (let i = 0; i < rateLimitConfigs.login.limit; i++) {
+        await limited(request('203.0.113.7', `agent-${i}`));
+      }
+
+      expect((await limited(request('203.0.113.7', 'another-agent'))).status).toBe(429);
+    });
+  });
+
+  describe('per-IP limit and per-user quota together', () => {
+    function guarded(user: { email: string; roles: string[] }) {
+      const handler = async () => NextResponse.json({ ok: true });
+      return withRateLimit({ type: 'admin' })(withUserRateLimit('admin', user)(handler));
+    }
+
+    it('should hold each user behind one IP to their own role quota', async () => {
+      const viewer = guarded({ email: 'viewer@example.com', roles: ['viewer'] });
+      const admin = guarded({ email: 'admin@example.com', roles: ['admin'] });
+      const quota = userRateLimitConfigs.admin.default.limit;
+
+      for (let i = 0; i < quota; i++) {
+        expect((await viewer(request())).status).toBe(200);
+      }
+      expect((await viewer(request())).status).toBe(429);
+
+      // Same IP, but an admin is allowed past the quota a non-admin just ran out of
+      for (let i = 0; i <= quota; i++) {
+        expect((await admin(request())).status).toBe(200);
+      }
+    });
+  });
+
+  describe('temporary blocks', () => {
+    afterEach(async () => {
+      await liftTemporaryBlock('ip', '203.0.113.7');
+      await liftTemporaryBlock('email', 'viewer@example.com');
+    });
+
+    it('should refuse a blocked IP with 429 until the block ends, whatever its limit', async () => {
+      const handler = jest.fn(async () => NextResponse.json({ ok: true }));
+      const limited = withRateLimit({ type: 'api' })(handler);
+      const block = await blockTemporarily('ip', '203.0.113.7', 900, 'brute_force');
+
+      const response = await limited(request('203.0.113.7'));
+
+      expect(response.status).toBe(429);
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(890);
+      expect((await limited(request('198.51.100.1'))).status).toBe(200);
+
+      await liftTemporaryBlock('ip', '203.0.113.7');
+      expect((await limited(request('203.0.113.7'))).status).toBe(200);
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(block.reason).toBe('brute_force');
+    });
+
+    it('should refuse a blocked email on authenticated routes', async () => {
+      const handler = jest.fn(async () => NextResponse.json({ ok: true }));
+      await blockTemporarily('email', 'Viewer@Example.com', 900, 'account_targeted');
+
+      const response = await withUserRateLimit('api', { email: 'viewer@example.com', roles: ['viewer'] })(handler)(request());
+
+      expect(response.status).toBe(429);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should let blocks expire', async () => {
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+      await blockTemporarily('ip', '203.0.113.7', 60, 'brute_force');
+
+      clock.mockReturnValue(now + 60000);
+
+      expect(await getTemporaryBlock('ip', '203.0.113.7')).toBeNull();
+    });
+  });
+
+  describe('when Redis fails', () => {
+    const originalPolicy = process.env.RATE_LIMIT_ON_REDIS_ERROR;
+
+    beforeEach(() => {
+      mockRedis.isRedisConfigured.mockReturnValue(true);
+      resetRateLimitMetrics();
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (Object.keys(rateLimits) as (keyof typeof rateLimits)[]).forEach(type => {
+        jest.spyOn(rateLimits[type], 'limit').mockRejectedValue(new Error('Redis unreachable'));
+      });
+    });
+
+    afterEach(() => {
+      mockRedis.isRedisConfigured.mockReturnValue(false);
+      process.env.RATE_LIMIT_ON_REDIS_ERROR = originalPolicy;
+    });
+
+    it('should refuse login attempts by default', async () => {
+      const result = await checkRateLimit('client', 'login');
+
+      expect(result).toMatchObject({ success: false, degraded: 'closed' });
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('login limit failed closed'));
+    });
+
+    it('should fall back to the local limiter for the other limits by default', async () => {
+      const results = [];
+      for (let i = 0; i <= rateLimitConfigs.admin.limit; i++) {
+        results.push(await checkRateLimit('client', 'admin'));
+      }
+
+      expect(results[0]).toMatchObject({ success: true, degraded: 'local' });
+      expect(results[rateLimitConfigs.admin.limit].success).toBe(false);
+    });
+
+    it('should let the policy be overridden per limit', async () => {
+      process.env.RATE_LIMIT_ON_REDIS_ERROR = 'api=open, login=local, admin=bogus';
+
+      expect(getFailurePolicy('api')).toBe('open');
+      expect(getFailurePolicy('login')).toBe('local');
+      expect(getFailurePolicy('admin')).toBe('local');
+      expect(await checkRateLimit('client', 'api')).toMatchObject({ success: true, degraded: 'open' });
+    });
+
+    it('should count degraded decisions per limit', async () => {
+      await checkRateLimit('client', 'login');
+      await checkRateLimit('client', 'login');
+      await checkRateLimit('client', 'api');
+
+      const { degraded } = getRateLimitMetrics();
+
+      expect(degraded.login).toEqual({ open: 0, closed: 2, local: 0 });
+      expect(degraded.api).toEqual({ open: 0, closed: 0, local: 1 });
+    });
+
+    it('should answer 429 from withRateLimit when the limit fails closed', async () => {
+      const handler = jest.fn(async () => NextResponse.json({ ok: true }));
+
+      const response = await withRateLimit({ type: 'login' })(handler)(request());
+
+      expect(response.status).toBe(429);
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+});
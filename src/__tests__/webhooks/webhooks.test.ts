@@ -0,0 +1,243 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { signPayload } from '@/lib/signing';
+import { toLifecycleEvent, webhookConfig, webhookService, WebhookPayload } from '@/lib/webhooks/webhooks';
+
+// Mock database connection
+jest.mock('@/lib/database/connection', () => ({
+  query: jest.fn(),
+}));
+
+const mockQuery = require('@/lib/database/connection').query;
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// Stands in for a downstream receiver; answers with the queued status codes, then 200
+let server: http.Server;
+let baseUrl: string;
+let received: Received[];
+let statuses: number[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() || 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+describe('Webhook Service', () => {
+  let updates: any[][];
+  // The delivery row's attempts and whether it is still pending
+  let attempts: number;
+  let pending: boolean;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    received = [];
+    statuses = [];
+    updates = [];
+    attempts = 0;
+    pending = true;
+    webhookConfig.retryDelayMs = 0;
+    webhookConfig.retrySweepIntervalSeconds = 0;
+    // The receiver below listens on plain http on loopback
+    webhookConfig.allowPrivateTargets = true;
+    webhookService.reset();
+
+    mockQuery.mockImplementation(async (text: string, params: any[] = []) => {
+      if (text.includes('FROM auth_webhooks WHERE $1 = ANY(events)')) {
+        return { rows: [{ id: 7, url: `${baseUrl}/hook`, secret: 'shared-secret' }] };
+      }
+      if (text.includes('INSERT INTO auth_webhook_deliveries')) {
+        return { rows: [{ id: 42 }] };
+      }
+      if (text.includes('SET attempts = attempts + 1')) {
+        return pending ? { rows: [{ attempts: ++attempts }] } : { rows: [] };
+      }
+      if (text.includes('UPDATE auth_webhook_deliveries SET status')) {
+        updates.push(params);
+        pending = params[1] === 'pending';
+      }
+      return { rows: [] };
+    });
+  });
+
+  describe('toLifecycleEvent', () => {
+    it('should map user changes in the audit log to lifecycle events', () => {
+      expect(toLifecycleEvent({ email: 'owner@example.com', event: 'admin_add_user', details: { added_email: 'new@example.com', role: 'viewer' } }))
+        .toEqual({ event: 'user.added', data: { email: 'new@example.com', role: 'viewer', expires_at: null, source: 'admin' } });
+      expect(toLifecycleEvent({ email: 'owner@example.com', event: 'admin_toggle_user', details: { toggled_email: 'new@example.com', new_status: false } }))
+        .toEqual({ event: 'user.toggled', data: { email: 'new@example.com', active: false } });
+      expect(toLifecycleEvent({ email: 'new@example.com', event: 'access_expired', details: { role: 'viewer' } })?.event).toBe('user.toggled');
+      expect(toLifecycleEvent({ email: 'owner@example.com', event: 'admin_unassign_role', details: { unassigned_email: 'new@example.com', role: 'editor', scope: 'global' } }))
+        .toEqual({ event: 'user.role_changed', data: { email: 'new@example.com', role: 'editor', scope: 'global', change: 'unassigned' } });
+      expect(toLifecycleEvent({ email: 'owner@example.com', event: 'admin_create_role' })).toBeNull();
+    });
+
+    it('should report adding an existing user with another role as a role change', () => {
+      expect(toLifecycleEvent({ email: 'owner@example.com', event: 'admin_add_user', details: { added_email: 'old@example.com', role: 'qa', previous_role: 'viewer' } }))
+        .toEqual({ event: 'user.role_changed', data: { email: 'old@example.com', role: 'qa', previous_role: 'viewer', expires_at: null, source: 'admin', change: 'updated' } });
+      expect(toLifecycleEvent({ email: 'owner@example.com', event: 'admin_approve_access_request', details: { requester_email: 'old@example.com', granted_role: 'qa', previous_role: 'viewer' } })?.event)
+        .toBe('user.role_changed');
+      expect(toLifecycleEvent({ email: 'owner@example.com', event: 'admin_add_user', details: { added_email: 'old@example.com', role: 'qa', previous_role: 'qa' } }))
+        .toBeNull();
+    });
+
+    it('should report approving a disabled user with the same role as enabling them', () => {
+      expect(toLifecycleEvent({ email: 'owner@example.com', event: 'admin_approve_access_request', details: { requester_email: 'old@example.com', granted_role: 'qa', previous_role: 'qa', reactivated: true } }))
+        .toEqual({ event: 'user.toggled', data: { email: 'old@example.com', active: true, source: 'access_request' } });
+    });
+  });
+
+  describe('addWebhook', () => {
+    it('should store the chosen events and return a new secret', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 1, url: `${baseUrl}/hook`, events: ['user.added', 'user.removed'] }] });
+
+      const result = await webhookService.addWebhook(`${baseUrl}/hook`, ['user.removed', 'user.added'], null, 'owner@example.com');
+
+      expect(result.success).toBe(true);
+      expect(result.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO auth_webhooks'),
+        [`${baseUrl}/hook`, result.secret, ['user.added', 'user.removed'], null, 'owner@example.com']
+      );
+    });
+
+    it('should reject missing and unknown events', async () => {
+      expect(await webhookService.addWebhook(`${baseUrl}/hook`, [], null, 'owner@example.com'))
+        .toEqual({ success: false, error: 'Choose at least one event' });
+      expect(await webhookService.addWebhook(`${baseUrl}/hook`, ['user.deleted'], null, 'owner@example.com'))
+        .toEqual({ success: false, error: 'Unknown events: user.deleted' });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should refuse plain http and private, loopback or link-local targets', async () => {
+      webhookConfig.allowPrivateTargets = false;
+
+      const refused = [
+        ['http://203.0.113.10/hook', 'Webhook URL must use https'],
+        ['https://localhost/hook', 'Webhook URL must not point at a private or local address'],
+        ['https://10.1.2.3/hook', 'Webhook URL must not point at a private or local address'],
+        ['https://192.168.0.10/hook', 'Webhook URL must not point at a private or local address'],
+        ['https://169.254.169.254/latest/meta-data', 'Webhook URL must not point at a private or local address'],
+        ['https://[::1]/hook', 'Webhook URL must not point at a private or local address'],
+        ['https://[::ffff:127.0.0.1]/hook', 'Webhook URL must not point at a private or local address'],
+      ];
+
+      for (const [url, error] of refused) {
+        expect(await webhookService.addWebhook(url, ['user.added'], null, 'owner@example.com')).toEqual({ success: false, error });
+      }
+      expect(mockQuery).not.toHaveBeenCalled();
+
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 1, url: 'https://203.0.113.10/hook', events: ['user.added'] }] });
+      expect((await webhookService.addWebhook('https://203.0.113.10/hook', ['user.added'], null, 'owner@example.com')).success).toBe(true);
+    });
+  });
+
+  describe('delivery', () => {
+    it('should send signed lifecycle events and log the delivery', async () => {
+      await webhookService.observe({ email: 'owner@example.com', event: 'admin_remove_user', details: { removed_email: 'gone@example.com' } });
+      await webhookService.flush();
+
+      const [{ headers, body }] = received;
+      const timestamp = Number(headers['x-signature-timestamp']);
+
+      expect(headers['x-signature']).toBe(`sha256=${signPayload('shared-secret', timestamp, body)}`);
+      expect(headers['x-webhook-event']).toBe('user.removed');
+      expect(headers['x-webhook-delivery']).toBe('42');
+      expect(JSON.parse(body)).toMatchObject({ event: 'user.removed', actor: 'owner@example.com', data: { email: 'gone@example.com' } });
+      expect(updates).toEqual([[42, 'succeeded', 1, 200, null, 0]]);
+    });
+
+    it('should check the target again before sending', async () => {
+      webhookConfig.allowPrivateTargets = false;
+
+      await webhookService.observe({ email: 'owner@example.com', event: 'admin_remove_user', details: { removed_email: 'gone@example.com' } });
+      await webhookService.flush();
+
+      expect(received).toHaveLength(0);
+      expect(updates[0]).toEqual([42, 'pending', 1, null, 'Webhook URL must use https', 0]);
+    });
+
+    it('should ignore audit entries that are not lifecycle events', async () => {
+      await webhookService.observe({ email: 'owner@example.com', event: 'login_allow' });
+
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should retry with backoff and give up after the last attempt', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      statuses = Array(webhookConfig.attempts).fill(502);
+
+      await webhookService.observe({ email: 'owner@example.com', event: 'admin_toggle_user', details: { toggled_email: 'a@example.com', new_status: true } });
+      await webhookService.flush();
+
+      expect(received).toHaveLength(webhookConfig.attempts);
+      expect(updates[0]).toEqual([42, 'pending', 1, 502, 'Endpoint answered 502', 0]);
+      expect(updates[updates.length - 1]).toEqual([42, 'failed', webhookConfig.attempts, 502, 'Endpoint answered 502', 0]);
+      jest.restoreAllMocks();
+    });
+
+    it('should not send an attempt another instance has claimed', async () => {
+      pending = false;
+
+      await webhookService.observe({ email: 'owner@example.com', event: 'admin_remove_user', details: { removed_email: 'gone@example.com' } });
+      await webhookService.flush();
+
+      expect(received).toHaveLength(0);
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should pick up retries that are due from the delivery log', async () => {
+      attempts = 2;
+      const payload = { id: 'c0ffee00-0000-4000-8000-000000000000', event: 'user.removed', occurred_at: '2026-01-01T00:00:00.000Z', actor: null, data: { email: 'gone@example.com' } };
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: '42', webhook_id: 7, event: 'user.removed', payload, url: `${baseUrl}/hook`, secret: 'shared-secret' }] });
+
+      expect(await webhookService.retryDue()).toBe(1);
+      await webhookService.flush();
+
+      expect(mockQuery.mock.calls[0][0]).toContain("d.status = 'pending' AND d.next_attempt_at <= now()");
+      expect(JSON.parse(received[0].body)).toEqual(payload);
+      expect(updates).toEqual([[42, 'succeeded', 3, 200, null, 0]]);
+    });
+
+    it('should replay a delivery with the same payload', async () => {
+      const payload: WebhookPayload = {
+        id: 'c0ffee00-0000-4000-8000-000000000000',
+        event: 'user.added',
+        occurred_at: '2026-01-01T00:00:00.000Z',
+        actor: 'owner@example.com',
+        data: { email: 'new@example.com', role: 'viewer', source: 'admin' },
+      };
+      mockQuery.mockResolvedValueOnce({ rows: [{ webhook_id: 7, event: 'user.added', payload, url: `${baseUrl}/hook`, secret: 'shared-secret' }] });
+
+      const result = await webhookService.replayDelivery(41);
+      await webhookService.flush();
+
+      expect(result.success).toBe(true);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO auth_webhook_deliveries'),
+        [7, 'user.added', JSON.stringify(payload), 41]
+      );
+      expect(JSON.parse(received[0].body)).toEqual(payload);
+    });
+  });
+});
@@ -3,21 +3,36 @@
 import { useEffect, useState } from 'react';
 import { useUser, useClerk } from '@clerk/nextjs';
 import { useRouter } from 'next/navigation';
+import AccessRequestsPanel from '@/components/admin/AccessRequestsPanel';
+import AllowRulesPanel from '@/components/admin/AllowRulesPanel';
+import AuditIntegrityPanel from '@/components/admin/AuditIntegrityPanel';
+import DenyListPanel from '@/components/admin/DenyListPanel';
+import ExpiringUsersPanel from '@/components/admin/ExpiringUsersPanel';
+import InvitationsPanel from '@/components/admin/InvitationsPanel';
+import NetworkRulesPanel from '@/components/admin/NetworkRulesPanel';
+import RoleSelect from '@/components/admin/RoleSelect';
+import RoleAssignmentsPanel from '@/components/admin/RoleAssignmentsPanel';
+import RolesPanel, { Role } from '@/components/admin/RolesPanel';
+import SecurityAlertsPanel from '@/components/admin/SecurityAlertsPanel';
+import WebhooksPanel from '@/components/admin/WebhooksPanel';
+import { authenticatedRequest } from '@/lib/csrf-client';
 
 interface User {
   email: string;
   display_name: string | null;
-  role: 'admin' | 'viewer' | 'qa';
+  role: string;
   invited_by: string | null;
   created_at: string;
   updated_at: string;
   active: boolean;
+  expires_at: string | null;
 }
 
 export default function AdminPage() {
   const { user: clerkUser, isLoaded } = useUser();
   const { signOut } = useClerk();
   const [users, setUsers] = useState<User[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
@@ -25,7 +40,8 @@ export default function AdminPage() {
   const [newUser, setNewUser] = useState({
     email: '',
     display_name: '',
-    role: 'viewer' as 'admin' | 'viewer' | 'qa',
+    role: 'viewer',
+    expires_at: '',
   });
   const router = useRouter();
 
@@ -38,6 +54,7 @@ export default function AdminPage() {
     }
 
     fetchUsers();
+    fetchRoles();
   }, [clerkUser, isLoaded, router]);
 
   const fetchUsers = async () => {
@@ -55,15 +72,29 @@ export default function AdminPage() {
     }
   };
 
+  const fetchRoles = async () => {
+    try {
+      const response = await fetch('/api/admin/roles');
+      if (!response.ok) {
+        throw new Error('Failed to fetch roles');
+      }
+      const data = await response.json();
+      setRoles(data.roles);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch roles');
+    }
+  };
+
   const handleAddUser = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const response = await fetch('/api/admin/users', {
+      const response = await authenticatedRequest('/api/admin/users', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(newUser),
+        body: JSON.stringify({
+          ...newUser,
+          // datetime-local inputs have no timezone; send an unambiguous ISO timestamp
+          expires_at: newUser.expires_at ? new Date(newUser.expires_at).toISOString() : null,
+        }),
       });
 
       if (!response.ok) {
@@ -71,7 +102,7 @@ export default function AdminPage() {
         throw new Error(errorData.error || 'Failed to add user');
       }
 
-      setNewUser({ email: '', display_name: '', role: 'viewer' });
+      setNewUser({ email: '', display_name: '', role: 'viewer', expires_at: '' });
       setShowAddUser(false);
       fetchUsers();
     } catch (err) {
@@ -81,7 +112,7 @@ export default function AdminPage() {
 
   const handleToggleUser = async (email: string) => {
     try {
-      const response = await fetch(`/api/admin/users/${encodeURIComponent(email)}/toggle`, {
+      const response = await authenticatedRequest(`/api/admin/users/${encodeURIComponent(email)}/toggle`, {
         method: 'PATCH',
       });
 
@@ -102,7 +133,7 @@ export default function AdminPage() {
     }
 
     try {
-      const response = await fetch(`/api/admin/users/${encodeURIComponent(email)}`, {
+      const response = await authenticatedRequest(`/api/admin/users/${encodeURIComponent(email)}`, {
         method: 'DELETE',
       });
 
@@ -117,6 +148,8 @@ export default function AdminPage() {
     }
   };
 
+  const roleNames = roles.map(role => role.name);
+
   const filteredUsers = users.filter(user =>
     user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
     (user.display_name && user.display_name.toLowerCase().includes(searchTerm.toLowerCase()))
@@ -141,6 +174,12 @@ export default function AdminPage() {
               </h1>
             </div>
             <div className="flex items-center space-x-4">
+              <a
+                href="/admin/sessions"
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Sessions
+              </a>
               <a
                 href="/dashboard"
                 className="text-sm text-gray-500 hover:text-gray-700"
@@ -202,6 +241,9 @@ export default function AdminPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Created
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Expires
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Actions
                     </th>
@@ -239,6 +281,9 @@ export default function AdminPage() {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {new Date(user.created_at).toLocaleDateString()}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {user.expires_at ? new Date(user.expires_at).toLocaleString() : 'Never'}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
                         <button
                           onClick={() => handleToggleUser(user.email)}
@@ -261,6 +306,28 @@ export default function AdminPage() {
               </table>
             </div>
           </div>
+
+          <SecurityAlertsPanel />
+
+          <AccessRequestsPanel roles={roleNames} onChange={fetchUsers} />
+
+          <InvitationsPanel roles={roleNames} />
+
+          <ExpiringUsersPanel onChange={fetchUsers} />
+
+          <AllowRulesPanel roles={roleNames} />
+
+          <DenyListPanel />
+
+          <NetworkRulesPanel roles={roleNames} />
+
+          <RoleAssignmentsPanel roles={roleNames} emails={users.map(user => user.email)} />
+
+          <RolesPanel roles={roles} onChange={fetchRoles} />
+
+          <WebhooksPanel />
+
+          <AuditIntegrityPanel />
         </div>
       </main>
 
@@ -296,19 +363,27 @@ export default function AdminPage() {
                     className="input w-full"
                   />
                 </div>
-                <div className="mb-6">
+                <div className="mb-4">
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Role
                   </label>
-                  <select
+                  <RoleSelect
+                    roles={roleNames}
                     value={newUser.role}
-                    onChange={(e) => setNewUser({ ...newUser, role: e.target.value as 'admin' | 'viewer' | 'qa' })}
+                    onChange={(role) => setNewUser({ ...newUser, role })}
                     className="input w-full"
-                  >
-                    <option value="viewer">Viewer</option>
-                    <option value="qa">QA</option>
-                    <option value="admin">Admin</option>
-                  </select>
+                  />
+                </div>
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Access Expires (optional)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={newUser.expires_at}
+                    onChange={(e) => setNewUser({ ...newUser, expires_at: e.target.value })}
+                    className="input w-full"
+                  />
                 </div>
                 <div className="flex justify-end space-x-3">
                   <button
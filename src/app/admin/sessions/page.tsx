@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useUser } from '@clerk/nextjs';
+import { useRouter } from 'next/navigation';
+import SessionsPanel from '@/components/admin/SessionsPanel';
+
+export default function AdminSessionsPage() {
+  const { user: clerkUser, isLoaded } = useUser();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (isLoaded && !clerkUser) {
+      router.push('/auth/login');
+    }
+  }, [clerkUser, isLoaded, router]);
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <h1 className="text-xl font-semibold text-gray-900">
+                Session Management
+              </h1>
+            </div>
+            <div className="flex items-center space-x-4">
+              <a
+                href="/admin"
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Back to Admin Panel
+              </a>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <SessionsPanel />
+        </div>
+      </main>
+    </div>
+  );
+}
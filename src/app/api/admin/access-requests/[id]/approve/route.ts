@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { accessRequestService } from '@/lib/auth/access-requests';
+import { auditLogger } from '@/lib/audit/logger';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.accessRequestDecision,
+    params: ['id'],
+  },
+  async (context) => {
+    try {
+      const { id } = context.params;
+      const { role, note } = context.body;
+
+      const result = await accessRequestService.approveRequest(id, context.user.email, role || undefined, note, context.user.roles);
+
+      if (!result.success || !result.request) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_approve_access_request',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        {
+          request_id: result.request.id,
+          requester_email: result.request.email,
+          requested_role: result.request.requested_role,
+          granted_role: result.request.granted_role,
+          previous_role: result.previousRole ?? null,
+          reactivated: result.reactivated ?? false,
+          notified: result.notified,
+        }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: `Approved access for ${result.request.email}`,
+      });
+
+    } catch (error) {
+      console.error('Approve access request error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to approve access request' },
+        { status: 500 }
+      );
+    }
+  }
+);
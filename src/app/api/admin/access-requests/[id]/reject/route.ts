@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { accessRequestService } from '@/lib/auth/access-requests';
+import { auditLogger } from '@/lib/audit/logger';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.accessRequestDecision,
+    params: ['id'],
+  },
+  async (context) => {
+    try {
+      const { id } = context.params;
+      const { note } = context.body;
+
+      const result = await accessRequestService.rejectRequest(id, context.user.email, note);
+
+      if (!result.success || !result.request) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_reject_access_request',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        {
+          request_id: result.request.id,
+          requester_email: result.request.email,
+          requested_role: result.request.requested_role,
+          ...(result.request.decision_note && { note: result.request.decision_note }),
+          notified: result.notified,
+        }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: `Rejected access request from ${result.request.email}`,
+      });
+
+    } catch (error) {
+      console.error('Reject access request error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to reject access request' },
+        { status: 500 }
+      );
+    }
+  }
+);
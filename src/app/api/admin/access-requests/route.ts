@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { accessRequestService, AccessRequestStatus } from '@/lib/auth/access-requests';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+const ACCESS_REQUEST_STATUSES: AccessRequestStatus[] = ['pending', 'approved', 'rejected'];
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const status = context.request.nextUrl.searchParams.get('status') as AccessRequestStatus | null;
+
+      if (status && !ACCESS_REQUEST_STATUSES.includes(status)) {
+        return NextResponse.json(
+          { error: `Status must be one of: ${ACCESS_REQUEST_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const { requests, error } = await accessRequestService.getRequests(status || undefined);
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ requests });
+
+    } catch (error) {
+      console.error('Get access requests error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
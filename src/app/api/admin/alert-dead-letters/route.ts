@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { alerter } from '@/lib/alerting/alerter';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'audit:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async () => {
+    try {
+      const { deadLetters, error } = await alerter.getDeadLetters();
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ dead_letters: deadLetters });
+
+    } catch (error) {
+      console.error('Get dead letters error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
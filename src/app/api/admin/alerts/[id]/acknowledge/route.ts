@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { anomalyDetector } from '@/lib/audit/anomaly-detector';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['id'],
+  },
+  async (context) => {
+    try {
+      const id = parseInt(context.params.id, 10);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Invalid alert id' },
+          { status: 400 }
+        );
+      }
+
+      const result = await anomalyDetector.acknowledgeAlert(id, context.user.email);
+
+      if (!result.success || !result.alert) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_acknowledge_alert',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { alert_id: result.alert.id, kind: result.alert.kind, subject_type: result.alert.subject_type, subject: result.alert.subject }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Alert acknowledged',
+      });
+
+    } catch (error) {
+      console.error('Acknowledge security alert error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to acknowledge alert' },
+        { status: 500 }
+      );
+    }
+  }
+);
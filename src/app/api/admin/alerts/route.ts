@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { anomalyDetector } from '@/lib/audit/anomaly-detector';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'audit:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const status = context.request.nextUrl.searchParams.get('status') === 'all' ? 'all' : 'open';
+
+      const { alerts, error } = await anomalyDetector.getAlerts(status);
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ alerts });
+
+    } catch (error) {
+      console.error('Get security alerts error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { allowListService } from '@/lib/auth/allowlist';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const DELETE = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['id'],
+  },
+  async (context) => {
+    try {
+      const id = parseInt(context.params.id, 10);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Invalid allow rule id' },
+          { status: 400 }
+        );
+      }
+
+      const result = await allowListService.removeAllowRule(id);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_remove_allow_rule',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { pattern: result.rule?.pattern, role: result.rule?.role }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Allow rule removed successfully',
+      });
+
+    } catch (error) {
+      console.error('Remove allow rule error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to remove allow rule' },
+        { status: 500 }
+      );
+    }
+  }
+);
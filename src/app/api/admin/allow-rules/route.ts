@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { allowListService } from '@/lib/auth/allowlist';
+import { roleService } from '@/lib/auth/roles';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async () => {
+    try {
+      const { rules, error } = await allowListService.getAllowRules();
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ rules });
+
+    } catch (error) {
+      console.error('Get allow rules error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.allowRule,
+  },
+  async (context) => {
+    try {
+      const { pattern, role, description } = context.body;
+
+      const grant = await roleService.canGrant(context.user.roles, role || 'viewer');
+
+      if (!grant.allowed) {
+        return NextResponse.json(
+          { error: grant.error },
+          { status: 403 }
+        );
+      }
+
+      const result = await allowListService.addAllowRule(
+        pattern,
+        role || 'viewer',
+        description || null,
+        context.user.email
+      );
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_add_allow_rule',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { pattern: result.rule?.pattern, role: result.rule?.role }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Allow rule added successfully',
+        rule: result.rule,
+      });
+
+    } catch (error) {
+      console.error('Add allow rule error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
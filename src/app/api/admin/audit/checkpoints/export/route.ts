@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { auditChain, checkpointPayload } from '@/lib/audit/hash-chain';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'audit:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async () => {
+    try {
+      const { checkpoints, error } = await auditChain.getCheckpoints(10000);
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      const exportedAt = new Date().toISOString();
+
+      // Everything an auditor needs to check the signatures with the shared secret
+      return NextResponse.json(
+        {
+          exported_at: exportedAt,
+          signature: 'hex HMAC-SHA256 of "<created_at in unix seconds>.<payload>" with AUDIT_CHECKPOINT_SECRET',
+          checkpoints: checkpoints.map(checkpoint => ({
+            id: checkpoint.id,
+            last_entry_id: checkpoint.last_entry_id,
+            last_hash: checkpoint.last_hash,
+            created_at: checkpoint.created_at,
+            created_by: checkpoint.created_by,
+            payload: checkpointPayload(checkpoint),
+            signature: checkpoint.signature,
+          })),
+        },
+        {
+          headers: {
+            'Content-Disposition': `attachment; filename="audit-checkpoints-${exportedAt.slice(0, 10)}.json"`,
+          },
+        }
+      );
+
+    } catch (error) {
+      console.error('Export audit checkpoints error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { auditChain } from '@/lib/audit/hash-chain';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'audit:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async () => {
+    try {
+      const { checkpoints, error } = await auditChain.getCheckpoints();
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ checkpoints });
+
+    } catch (error) {
+      console.error('Get audit checkpoints error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const result = await auditChain.createCheckpoint(context.user.email);
+
+      if (!result.success || !result.checkpoint) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_create_audit_checkpoint',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { checkpoint_id: result.checkpoint.id, last_entry_id: result.checkpoint.last_entry_id }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Checkpoint created',
+        checkpoint: result.checkpoint,
+      });
+
+    } catch (error) {
+      console.error('Create audit checkpoint error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to create checkpoint' },
+        { status: 500 }
+      );
+    }
+  }
+);
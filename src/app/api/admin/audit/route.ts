@@ -1,67 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
-import { getSignedInEmail } from '@/lib/auth/user';
-import { allowListService } from '@/lib/auth/allowlist';
+import { NextResponse } from 'next/server';
 import { auditLogger } from '@/lib/audit/logger';
-
-async function requireAdmin(handler: (context: { user: { email: string; role: string }; request: NextRequest }) => Promise<NextResponse>) {
-  return async (request: NextRequest) => {
-    try {
-      const { userId } = await auth();
-
-      if (!userId) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-
-      const { email } = await getSignedInEmail();
-      
-      if (!email) {
-        return NextResponse.json(
-          { error: 'No email in session' },
-          { status: 401 }
-        );
-      }
-
-      // Check allow list and role
-      const allowListResult = await allowListService.isEmailAllowed(email);
-      
-      if (!allowListResult.allowed || !allowListResult.user) {
-        return NextResponse.json(
-          { error: 'User not found in allow list' },
-          { status: 403 }
-        );
-      }
-
-      if (allowListResult.user.role !== 'admin') {
-        return NextResponse.json(
-          { error: 'Admin role required' },
-          { status: 403 }
-        );
-      }
-
-      return await handler({
-        user: {
-          email: allowListResult.user.email,
-          role: allowListResult.user.role,
-        },
-        request,
-      });
-
-    } catch (error) {
-      console.error('Admin auth error:', error);
-      return NextResponse.json(
-        { error: 'Authentication failed' },
-        { status: 500 }
-      );
-    }
-  };
-}
-
-export async function GET(request: NextRequest) {
-  const adminHandler = await requireAdmin(async (context) => {
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'audit:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
     try {
       const { searchParams } = context.request.nextUrl;
       
@@ -102,7 +50,5 @@ export async function GET(request: NextRequest) {
         { status: 500 }
       );
     }
-  });
-
-  return adminHandler(request);
-}
+  }
+);
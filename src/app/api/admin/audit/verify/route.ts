@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { auditChain } from '@/lib/audit/hash-chain';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'audit:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async () => {
+    try {
+      const verification = await auditChain.verify();
+
+      if (verification.error) {
+        return NextResponse.json(
+          { error: verification.error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json(verification);
+
+    } catch (error) {
+      console.error('Verify audit log error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { allowListService } from '@/lib/auth/allowlist';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const DELETE = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['id'],
+  },
+  async (context) => {
+    try {
+      const id = parseInt(context.params.id, 10);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Invalid deny list entry id' },
+          { status: 400 }
+        );
+      }
+
+      const result = await allowListService.removeDenyEntry(id);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_remove_deny_entry',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { pattern: result.entry?.pattern, reason: result.entry?.reason }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Deny list entry removed successfully',
+      });
+
+    } catch (error) {
+      console.error('Remove deny entry error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to remove deny list entry' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { allowListService } from '@/lib/auth/allowlist';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async () => {
+    try {
+      const { entries, error } = await allowListService.getDenyList();
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ entries });
+
+    } catch (error) {
+      console.error('Get deny list error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.denyEntry,
+  },
+  async (context) => {
+    try {
+      const { pattern, reason } = context.body;
+
+      const result = await allowListService.addDenyEntry(
+        pattern,
+        reason,
+        context.user.email
+      );
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_add_deny_entry',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { pattern: result.entry?.pattern, reason: result.entry?.reason }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Deny list entry added successfully',
+        entry: result.entry,
+      });
+
+    } catch (error) {
+      console.error('Add deny entry error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { invitationService } from '@/lib/auth/invitations';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['id'],
+  },
+  async (context) => {
+    try {
+      const { id } = context.params;
+
+      const result = await invitationService.resendInvitation(id);
+
+      if (!result.success || !result.invitation) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_resend_invite',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        {
+          invitation_id: result.invitation.id,
+          invited_email: result.invitation.email,
+          send_count: result.invitation.send_count,
+          delivered: result.delivered,
+        }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: result.delivered ? 'Invitation re-sent' : 'Invitation renewed but the email could not be delivered',
+        invitation: result.invitation,
+        delivered: result.delivered,
+      });
+
+    } catch (error) {
+      console.error('Resend invitation error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to resend invitation' },
+        { status: 500 }
+      );
+    }
+  }
+);
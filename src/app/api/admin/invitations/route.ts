@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { invitationService, InvitationStatus } from '@/lib/auth/invitations';
+import { roleService } from '@/lib/auth/roles';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+const INVITATION_STATUSES: InvitationStatus[] = ['pending', 'accepted', 'revoked', 'expired'];
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const status = context.request.nextUrl.searchParams.get('status') as InvitationStatus | null;
+
+      if (status && !INVITATION_STATUSES.includes(status)) {
+        return NextResponse.json(
+          { error: `Status must be one of: ${INVITATION_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const { invitations, error } = await invitationService.getInvitations(status || undefined);
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ invitations });
+
+    } catch (error) {
+      console.error('Get invitations error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.invitation,
+  },
+  async (context) => {
+    try {
+      const { email, display_name, role } = context.body;
+
+      const grant = await roleService.canGrant(context.user.roles, role || 'viewer');
+
+      if (!grant.allowed) {
+        return NextResponse.json(
+          { error: grant.error },
+          { status: 403 }
+        );
+      }
+
+      const result = await invitationService.createInvitation(
+        email,
+        display_name || null,
+        role || 'viewer',
+        context.user.email
+      );
+
+      if (!result.success || !result.invitation) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_create_invite',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        {
+          invitation_id: result.invitation.id,
+          invited_email: result.invitation.email,
+          role: result.invitation.role,
+          delivered: result.delivered,
+        }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: result.delivered ? 'Invitation sent' : 'Invitation created but the email could not be delivered',
+        invitation: result.invitation,
+        delivered: result.delivered,
+      });
+
+    } catch (error) {
+      console.error('Create invitation error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { allowListService } from '@/lib/auth/allowlist';
+import { getRateLimitMetrics } from '@/lib/rate-limit';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+// Operational counters for this instance; they reset when it restarts
+export const GET = defineRoute(
+  {
+    permission: 'audit:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async () => {
+    try {
+      return NextResponse.json({
+        timestamp: new Date().toISOString(),
+        cache: {
+          allowlist: allowListService.getCacheMetrics(),
+        },
+        // Decisions taken by each limit's failure policy while Redis was failing
+        rate_limit: getRateLimitMetrics(),
+      });
+    } catch (error) {
+      console.error('Get metrics error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to get metrics' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { networkRuleService } from '@/lib/auth/network-rules';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const DELETE = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['id'],
+  },
+  async (context) => {
+    try {
+      const id = parseInt(context.params.id, 10);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Invalid network rule id' },
+          { status: 400 }
+        );
+      }
+
+      const ip = getClientIP(context.request);
+      const result = await networkRuleService.removeRule(id, { ip, roles: context.user.roles });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_remove_network_rule',
+        context.request.nextUrl.pathname,
+        ip,
+        context.request.headers.get('user-agent'),
+        { cidr: result.rule?.cidr, action: result.rule?.action, role: result.rule?.role }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Network rule removed successfully',
+      });
+
+    } catch (error) {
+      console.error('Remove network rule error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to remove network rule' },
+        { status: 500 }
+      );
+    }
+  }
+);
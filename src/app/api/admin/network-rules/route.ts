@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { networkRuleService } from '@/lib/auth/network-rules';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const { rules, error } = await networkRuleService.getRules();
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      // Shown in the admin panel so admins can tell whether a rule covers them
+      return NextResponse.json({ rules, client_ip: getClientIP(context.request) });
+
+    } catch (error) {
+      console.error('Get network rules error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.networkRule,
+  },
+  async (context) => {
+    try {
+      const { cidr, action, role, description } = context.body;
+      const ip = getClientIP(context.request);
+
+      const result = await networkRuleService.addRule(
+        cidr,
+        action,
+        role || null,
+        description || null,
+        context.user.email,
+        { ip, roles: context.user.roles }
+      );
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_add_network_rule',
+        context.request.nextUrl.pathname,
+        ip,
+        context.request.headers.get('user-agent'),
+        { cidr: result.rule?.cidr, action: result.rule?.action, role: result.rule?.role }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Network rule added successfully',
+        rule: result.rule,
+      });
+
+    } catch (error) {
+      console.error('Add network rule error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
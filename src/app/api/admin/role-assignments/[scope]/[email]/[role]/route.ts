@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { allowListService } from '@/lib/auth/allowlist';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const DELETE = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['scope', 'email', 'role'],
+  },
+  async (context) => {
+    try {
+      const { scope, email, role } = context.params;
+
+      const result = await allowListService.unassignRole(email, scope, role);
+
+      if (!result.success || !result.assignment) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_unassign_role',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { unassigned_email: result.assignment.email, scope: result.assignment.scope, role: result.assignment.role }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Role assignment removed successfully',
+      });
+
+    } catch (error) {
+      console.error('Unassign role error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to remove role assignment' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { allowListService } from '@/lib/auth/allowlist';
+import { roleService } from '@/lib/auth/roles';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const { searchParams } = context.request.nextUrl;
+      const scope = searchParams.get('scope') || undefined;
+      const email = searchParams.get('email') || undefined;
+
+      const [{ assignments, error }, { scopes }] = await Promise.all([
+        allowListService.getRoleAssignments({ scope, email }),
+        allowListService.getScopes(),
+      ]);
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ assignments, scopes });
+
+    } catch (error) {
+      console.error('Get role assignments error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.roleAssignment,
+  },
+  async (context) => {
+    try {
+      const { email, scope, role } = context.body;
+
+      const grant = await roleService.canGrant(context.user.roles, role);
+
+      if (!grant.allowed) {
+        return NextResponse.json(
+          { error: grant.error },
+          { status: 403 }
+        );
+      }
+
+      const result = await allowListService.assignRole(email, scope, role, context.user.email);
+
+      if (!result.success || !result.assignment) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_assign_role',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { assigned_email: result.assignment.email, scope: result.assignment.scope, role: result.assignment.role }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Role assigned successfully',
+        assignment: result.assignment,
+      });
+
+    } catch (error) {
+      console.error('Assign role error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
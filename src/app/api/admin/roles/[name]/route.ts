@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { roleService } from '@/lib/auth/roles';
+import { auditLogger } from '@/lib/audit/logger';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const PATCH = defineRoute(
+  {
+    permission: 'roles:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.roleUpdate,
+    params: ['name'],
+  },
+  async (context) => {
+    try {
+      const roleName = context.params.name;
+      const { description, permissions, inherits } = context.body;
+
+      if (!Array.isArray(permissions)) {
+        return NextResponse.json(
+          { error: 'Permissions must be an array' },
+          { status: 400 }
+        );
+      }
+
+      if (inherits !== undefined && inherits !== null && !Array.isArray(inherits)) {
+        return NextResponse.json(
+          { error: 'Inherited roles must be an array' },
+          { status: 400 }
+        );
+      }
+
+      // Omitting inherits keeps the role's current parents
+      const result = await roleService.updateRole(roleName, description || null, permissions, inherits ?? undefined);
+
+      if (!result.success || !result.role) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_update_role',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        {
+          role: result.role.name,
+          previous_permissions: result.previous?.permissions,
+          permissions: result.role.permissions,
+          previous_inherits: result.previous?.inherits,
+          inherits: result.role.inherits,
+        }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Role updated successfully',
+        role: result.role,
+      });
+
+    } catch (error) {
+      console.error('Update role error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to update role' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const DELETE = defineRoute(
+  {
+    permission: 'roles:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['name'],
+  },
+  async (context) => {
+    try {
+      const { name } = context.params;
+
+      const result = await roleService.deleteRole(name);
+
+      if (!result.success || !result.role) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_delete_role',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { role: result.role.name, permissions: result.role.permissions }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Role deleted successfully',
+      });
+
+    } catch (error) {
+      console.error('Delete role error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to delete role' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { roleService } from '@/lib/auth/roles';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+// Role names populate the role pickers across the admin panel, so reading only needs users:read
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async () => {
+    try {
+      const { roles, error } = await roleService.getRoles();
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ roles });
+
+    } catch (error) {
+      console.error('Get roles error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = defineRoute(
+  {
+    permission: 'roles:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.role,
+  },
+  async (context) => {
+    try {
+      const { name, description, permissions, inherits } = context.body;
+
+      if (permissions !== undefined && permissions !== null && !Array.isArray(permissions)) {
+        return NextResponse.json(
+          { error: 'Permissions must be an array' },
+          { status: 400 }
+        );
+      }
+
+      if (inherits !== undefined && inherits !== null && !Array.isArray(inherits)) {
+        return NextResponse.json(
+          { error: 'Inherited roles must be an array' },
+          { status: 400 }
+        );
+      }
+
+      const result = await roleService.createRole(
+        name,
+        description || null,
+        permissions || [],
+        context.user.email,
+        inherits || []
+      );
+
+      if (!result.success || !result.role) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_create_role',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { role: result.role.name, permissions: result.role.permissions, inherits: result.role.inherits }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Role created successfully',
+        role: result.role,
+      });
+
+    } catch (error) {
+      console.error('Create role error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
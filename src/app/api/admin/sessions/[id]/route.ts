@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { sessionService } from '@/lib/auth/sessions';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const DELETE = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['id'],
+  },
+  async (context) => {
+    try {
+      const result = await sessionService.terminateSession(context.params.id, 'terminated');
+
+      if (!result.success || !result.session) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      await auditLogger.logSessionEvent(
+        result.session.email,
+        'session_invalidated',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { session_id: result.session.id, reason: 'terminated', invalidated_by: context.user.email }
+      );
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_terminate_session',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { session_id: result.session.id, target_email: result.session.email }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Session terminated',
+      });
+
+    } catch (error) {
+      console.error('Terminate session error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to terminate session' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { sessionService } from '@/lib/auth/sessions';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const email = context.request.nextUrl.searchParams.get('email') || undefined;
+
+      const { sessions, error } = await sessionService.getSessions({ email });
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ sessions });
+
+    } catch (error) {
+      console.error('Get sessions error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+// Terminates every active session of the user given by ?email=
+export const DELETE = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const email = context.request.nextUrl.searchParams.get('email');
+
+      if (!email) {
+        return NextResponse.json(
+          { error: 'Email is required' },
+          { status: 400 }
+        );
+      }
+
+      const result = await sessionService.endSessionsForUser(email, 'terminated');
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 500 }
+        );
+      }
+
+      for (const session of result.sessions) {
+        await auditLogger.logSessionEvent(
+          session.email,
+          'session_invalidated',
+          context.request.nextUrl.pathname,
+          getClientIP(context.request),
+          context.request.headers.get('user-agent'),
+          { session_id: session.id, reason: 'terminated', invalidated_by: context.user.email }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_terminate_user_sessions',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { target_email: email, sessions_ended: result.sessions.length }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: `Terminated ${result.sessions.length} session(s)`,
+        terminated: result.sessions.length,
+      });
+
+    } catch (error) {
+      console.error('Terminate user sessions error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to terminate sessions' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -1,73 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
-import { getSignedInEmail } from '@/lib/auth/user';
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
 import { allowListService } from '@/lib/auth/allowlist';
+import { sessionService } from '@/lib/auth/sessions';
 import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
 
-async function requireAdmin(handler: (context: { user: { email: string; role: string }; request: NextRequest }) => Promise<NextResponse>) {
-  return async (request: NextRequest) => {
+export const DELETE = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['email'],
+  },
+  async (context) => {
     try {
-      const { userId } = await auth();
-
-      if (!userId) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-
-      const { email } = await getSignedInEmail();
-      
-      if (!email) {
-        return NextResponse.json(
-          { error: 'No email in session' },
-          { status: 401 }
-        );
-      }
-
-      // Check allow list and role
-      const allowListResult = await allowListService.isEmailAllowed(email);
-      
-      if (!allowListResult.allowed || !allowListResult.user) {
-        return NextResponse.json(
-          { error: 'User not found in allow list' },
-          { status: 403 }
-        );
-      }
-
-      if (allowListResult.user.role !== 'admin') {
-        return NextResponse.json(
-          { error: 'Admin role required' },
-          { status: 403 }
-        );
-      }
-
-      return await handler({
-        user: {
-          email: allowListResult.user.email,
-          role: allowListResult.user.role,
-        },
-        request,
-      });
-
-    } catch (error) {
-      console.error('Admin auth error:', error);
-      return NextResponse.json(
-        { error: 'Authentication failed' },
-        { status: 500 }
-      );
-    }
-  };
-}
-
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ email: string }> }
-) {
-  const adminHandler = await requireAdmin(async (context) => {
-    try {
-      const resolvedParams = await params;
-      const email = decodeURIComponent(resolvedParams.email);
+      const { email } = context.params;
 
       const result = await allowListService.removeUser(email);
 
@@ -78,6 +26,20 @@ export async function DELETE(
         );
       }
 
+      // A removed user is signed out everywhere
+      const { sessions: endedSessions } = await sessionService.endSessionsForUser(email, 'user_removed');
+
+      for (const session of endedSessions) {
+        await auditLogger.logSessionEvent(
+          email,
+          'session_invalidated',
+          context.request.nextUrl.pathname,
+          getClientIP(context.request),
+          context.request.headers.get('user-agent'),
+          { session_id: session.id, reason: 'user_removed', invalidated_by: context.user.email }
+        );
+      }
+
       // Log admin action
       await auditLogger.logAdminEvent(
         context.user.email,
@@ -85,7 +47,7 @@ export async function DELETE(
         context.request.nextUrl.pathname,
         getClientIP(context.request),
         context.request.headers.get('user-agent'),
-        { removed_email: email }
+        { removed_email: email, sessions_ended: endedSessions.length }
       );
 
       return NextResponse.json({
@@ -101,22 +63,5 @@ export async function DELETE(
         { status: 500 }
       );
     }
-  });
-
-  return adminHandler(request);
-}
-
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  
-  if (realIP) {
-    return realIP;
   }
-  
-  return 'unknown';
-}
+);
@@ -1,73 +1,21 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
-import { getSignedInEmail } from '@/lib/auth/user';
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
 import { allowListService } from '@/lib/auth/allowlist';
+import { sessionService } from '@/lib/auth/sessions';
 import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
 
-async function requireAdmin(handler: (context: { user: { email: string; role: string }; request: NextRequest }) => Promise<NextResponse>) {
-  return async (request: NextRequest) => {
+export const PATCH = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['email'],
+  },
+  async (context) => {
     try {
-      const { userId } = await auth();
-
-      if (!userId) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-
-      const { email } = await getSignedInEmail();
-      
-      if (!email) {
-        return NextResponse.json(
-          { error: 'No email in session' },
-          { status: 401 }
-        );
-      }
-
-      // Check allow list and role
-      const allowListResult = await allowListService.isEmailAllowed(email);
-      
-      if (!allowListResult.allowed || !allowListResult.user) {
-        return NextResponse.json(
-          { error: 'User not found in allow list' },
-          { status: 403 }
-        );
-      }
-
-      if (allowListResult.user.role !== 'admin') {
-        return NextResponse.json(
-          { error: 'Admin role required' },
-          { status: 403 }
-        );
-      }
-
-      return await handler({
-        user: {
-          email: allowListResult.user.email,
-          role: allowListResult.user.role,
-        },
-        request,
-      });
-
-    } catch (error) {
-      console.error('Admin auth error:', error);
-      return NextResponse.json(
-        { error: 'Authentication failed' },
-        { status: 500 }
-      );
-    }
-  };
-}
-
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ email: string }> }
-) {
-  const adminHandler = await requireAdmin(async (context) => {
-    try {
-      const resolvedParams = await params;
-      const email = decodeURIComponent(resolvedParams.email);
+      const { email } = context.params;
 
       const result = await allowListService.toggleUserStatus(email);
 
@@ -78,6 +26,22 @@ export async function PATCH(
         );
       }
 
+      // A disabled user is signed out everywhere; enabling them again does not restore sessions
+      const { sessions: endedSessions } = result.newStatus === false
+        ? await sessionService.endSessionsForUser(email, 'user_disabled')
+        : { sessions: [] };
+
+      for (const session of endedSessions) {
+        await auditLogger.logSessionEvent(
+          email,
+          'session_invalidated',
+          context.request.nextUrl.pathname,
+          getClientIP(context.request),
+          context.request.headers.get('user-agent'),
+          { session_id: session.id, reason: 'user_disabled', invalidated_by: context.user.email }
+        );
+      }
+
       // Log admin action
       await auditLogger.logAdminEvent(
         context.user.email,
@@ -85,9 +49,10 @@ export async function PATCH(
         context.request.nextUrl.pathname,
         getClientIP(context.request),
         context.request.headers.get('user-agent'),
-        { 
-          toggled_email: email, 
-          new_status: result.newStatus 
+        {
+          toggled_email: email,
+          new_status: result.newStatus,
+          sessions_ended: endedSessions.length,
         }
       );
 
@@ -105,22 +70,5 @@ export async function PATCH(
         { status: 500 }
       );
     }
-  });
-
-  return adminHandler(request);
-}
-
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  
-  if (realIP) {
-    return realIP;
   }
-  
-  return 'unknown';
-}
+);
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { allowListService } from '@/lib/auth/allowlist';
+import { sessionService } from '@/lib/auth/sessions';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+// Expiry sweep: deactivates every allow list entry whose access has ended and ends sessions past their expiry
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const { users, error } = await allowListService.expireUsers();
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      for (const user of users) {
+        await auditLogger.logEvent({
+          email: user.email,
+          event: 'access_expired',
+          path: context.request.nextUrl.pathname,
+          ip: getClientIP(context.request),
+          user_agent: context.request.headers.get('user-agent'),
+          details: { expires_at: user.expires_at, role: user.role, swept_by: context.user.email },
+        });
+      }
+
+      const { sessions } = await sessionService.expireSessions();
+
+      for (const session of sessions) {
+        await auditLogger.logSessionEvent(
+          session.email,
+          'session_expired',
+          context.request.nextUrl.pathname,
+          getClientIP(context.request),
+          context.request.headers.get('user-agent'),
+          { session_id: session.id, reason: session.end_reason, expires_at: session.expires_at, swept_by: context.user.email }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        expired: users.map(user => user.email),
+        expired_sessions: sessions.length,
+      });
+
+    } catch (error) {
+      console.error('Expire users error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
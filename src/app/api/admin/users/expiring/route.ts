@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { allowListService } from '@/lib/auth/allowlist';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const days = parseInt(context.request.nextUrl.searchParams.get('days') || '14', 10);
+      const withinDays = isNaN(days) ? 14 : Math.min(Math.max(days, 0), 365);
+
+      const { users, error } = await allowListService.getExpiringUsers(withinDays);
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ users, days: withinDays });
+
+    } catch (error) {
+      console.error('Get expiring users error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
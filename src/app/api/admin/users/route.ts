@@ -1,71 +1,19 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { auth } from '@clerk/nextjs/server';
-import { getSignedInEmail } from '@/lib/auth/user';
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
 import { allowListService } from '@/lib/auth/allowlist';
+import { roleService } from '@/lib/auth/roles';
 import { auditLogger } from '@/lib/audit/logger';
-import { withRateLimit } from '@/lib/middleware/rate-limit';
-import { withRequestLimits, requestLimitConfigs } from '@/lib/middleware/request-limits';
-import { withInputSanitization, sanitizationConfigs } from '@/lib/middleware/input-sanitization';
-import { withCSRFProtection, csrfConfigs } from '@/lib/csrf-protection';
-
-async function requireAdmin(handler: (context: { user: { email: string; role: string }; request: NextRequest }) => Promise<NextResponse>) {
-  return async (request: NextRequest) => {
-    try {
-      const { userId } = await auth();
-
-      if (!userId) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-
-      const { email } = await getSignedInEmail();
-      
-      if (!email) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-
-      // Check allow list and role
-      const allowListResult = await allowListService.isEmailAllowed(email);
-      
-      if (!allowListResult.allowed || !allowListResult.user) {
-        return NextResponse.json(
-          { error: 'Forbidden' },
-          { status: 403 }
-        );
-      }
-
-      if (allowListResult.user.role !== 'admin') {
-        return NextResponse.json(
-          { error: 'Forbidden' },
-          { status: 403 }
-        );
-      }
-
-      return await handler({
-        user: {
-          email: allowListResult.user.email,
-          role: allowListResult.user.role,
-        },
-        request,
-      });
-
-    } catch (error) {
-      console.error('Admin auth error:', error);
-      return NextResponse.json(
-        { error: 'Internal server error' },
-        { status: 500 }
-      );
-    }
-  };
-}
-
-async function getUsersHandler(request: NextRequest) {
-  const adminHandler = await requireAdmin(async (context) => {
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async () => {
     try {
       const { users, error } = await allowListService.getAllUsers();
       
@@ -86,15 +34,19 @@ async function getUsersHandler(request: NextRequest) {
         { status: 500 }
       );
     }
-  });
-
-  return adminHandler(request);
-}
+  }
+);
 
-async function postUsersHandler(request: NextRequest) {
-  const adminHandler = await requireAdmin(async (context) => {
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.admin,
+  },
+  async (context) => {
     try {
-      const { email, display_name, role } = await context.request.json();
+      const { email, display_name, role, expires_at } = context.body;
 
       if (!email) {
         return NextResponse.json(
@@ -103,11 +55,30 @@ async function postUsersHandler(request: NextRequest) {
         );
       }
 
+      const expiresAt = expires_at ? new Date(expires_at) : null;
+
+      if (expiresAt && expiresAt.getTime() <= Date.now()) {
+        return NextResponse.json(
+          { error: 'Expiry must be in the future' },
+          { status: 400 }
+        );
+      }
+
+      const grant = await roleService.canGrant(context.user.roles, role || 'viewer');
+
+      if (!grant.allowed) {
+        return NextResponse.json(
+          { error: grant.error },
+          { status: 403 }
+        );
+      }
+
       const result = await allowListService.addUser(
         email,
         display_name || '',
         role || 'viewer',
-        context.user.email
+        context.user.email,
+        expiresAt
       );
 
       if (!result.success) {
@@ -124,7 +95,7 @@ async function postUsersHandler(request: NextRequest) {
         context.request.nextUrl.pathname,
         getClientIP(context.request),
         context.request.headers.get('user-agent'),
-        { added_email: email, role }
+        { added_email: email, role, expires_at: expiresAt, previous_role: result.previousRole }
       );
 
       return NextResponse.json({
@@ -140,33 +111,5 @@ async function postUsersHandler(request: NextRequest) {
         { status: 500 }
       );
     }
-  });
-
-  return adminHandler(request);
-}
-
-export const GET = withRequestLimits(requestLimitConfigs.admin)(
-  withRateLimit({ type: 'admin' })(getUsersHandler)
-);
-export const POST = withCSRFProtection(csrfConfigs.strict)(
-  withInputSanitization(sanitizationConfigs.admin)(
-    withRequestLimits(requestLimitConfigs.admin)(
-      withRateLimit({ type: 'admin' })(postUsersHandler)
-    )
-  )
-);
-
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  
-  if (realIP) {
-    return realIP;
   }
-  
-  return 'unknown';
-}
+);
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { webhookService } from '@/lib/webhooks/webhooks';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['id'],
+  },
+  async (context) => {
+    try {
+      const id = parseInt(context.params.id, 10);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Invalid delivery id' },
+          { status: 400 }
+        );
+      }
+
+      const result = await webhookService.replayDelivery(id);
+
+      if (!result.success || !result.delivery) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_replay_webhook_delivery',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { delivery_id: id, replay_id: result.delivery.id, webhook_id: result.delivery.webhook_id, event: result.delivery.event }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Delivery replayed',
+        delivery: result.delivery,
+      });
+
+    } catch (error) {
+      console.error('Replay webhook delivery error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to replay delivery' },
+        { status: 500 }
+      );
+    }
+  }
+);
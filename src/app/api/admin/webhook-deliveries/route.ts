@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { webhookService } from '@/lib/webhooks/webhooks';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async (context) => {
+    try {
+      const { searchParams } = context.request.nextUrl;
+      const webhookId = parseInt(searchParams.get('webhook_id') || '', 10);
+      const { deliveries, error } = await webhookService.getDeliveries(isNaN(webhookId) ? undefined : webhookId);
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ deliveries });
+
+    } catch (error) {
+      console.error('Get webhook deliveries error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { webhookService } from '@/lib/webhooks/webhooks';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const DELETE = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    params: ['id'],
+  },
+  async (context) => {
+    try {
+      const id = parseInt(context.params.id, 10);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Invalid webhook id' },
+          { status: 400 }
+        );
+      }
+
+      const result = await webhookService.removeWebhook(id);
+
+      if (!result.success || !result.webhook) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_remove_webhook',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { webhook_id: result.webhook.id, url: result.webhook.url }
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: 'Webhook removed successfully',
+      });
+
+    } catch (error) {
+      console.error('Remove webhook error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to remove webhook' },
+        { status: 500 }
+      );
+    }
+  }
+);
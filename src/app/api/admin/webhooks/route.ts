@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { getClientIP } from '@/lib/client-ip';
+import { webhookService } from '@/lib/webhooks/webhooks';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const GET = defineRoute(
+  {
+    permission: 'users:read',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+  },
+  async () => {
+    try {
+      const { webhooks, error } = await webhookService.getWebhooks();
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ webhooks });
+
+    } catch (error) {
+      console.error('Get webhooks error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = defineRoute(
+  {
+    permission: 'users:write',
+    rateLimit: 'admin',
+    limits: requestLimitConfigs.admin,
+    body: sanitizationConfigs.webhook,
+  },
+  async (context) => {
+    try {
+      const { url, events, description } = context.body;
+
+      if (!Array.isArray(events)) {
+        return NextResponse.json(
+          { error: 'Events must be an array' },
+          { status: 400 }
+        );
+      }
+
+      const result = await webhookService.addWebhook(
+        url,
+        events,
+        description || null,
+        context.user.email
+      );
+
+      if (!result.success || !result.webhook) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      // Log admin action
+      await auditLogger.logAdminEvent(
+        context.user.email,
+        'admin_add_webhook',
+        context.request.nextUrl.pathname,
+        getClientIP(context.request),
+        context.request.headers.get('user-agent'),
+        { webhook_id: result.webhook.id, url: result.webhook.url, events: result.webhook.events }
+      );
+
+      // The secret is shown once; receivers need it to verify signatures
+      return NextResponse.json({
+        success: true,
+        message: 'Webhook added successfully',
+        webhook: result.webhook,
+        secret: result.secret,
+      });
+
+    } catch (error) {
+      console.error('Add webhook error:', error);
+
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -1,33 +1,125 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { getSignedInEmail } from '@/lib/auth/user';
-import { withRateLimit } from '@/lib/middleware/rate-limit';
-import { withRequestLimits, requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { allowListService, getDenialDetails } from '@/lib/auth/allowlist';
+import { getClientIP } from '@/lib/client-ip';
+import { auditLogger } from '@/lib/audit/logger';
+import { invitationService, INVITE_COOKIE_NAME } from '@/lib/auth/invitations';
+import { sessionService } from '@/lib/auth/sessions';
+import { clearSecureCookie } from '@/lib/session-security';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
 
-async function authCallbackHandler(request: NextRequest) {
-  try {
-    const { userId } = await auth();
+export const GET = defineRoute(
+  {
+    auth: 'public',
+    rateLimit: 'auth',
+    limits: requestLimitConfigs.auth,
+  },
+  async ({ request }) => {
+    try {
+      const { userId, sessionId } = await auth();
     
-    if (!userId) {
-      return NextResponse.redirect(new URL('/auth/login', request.url));
-    }
+      if (!userId) {
+        return NextResponse.redirect(new URL('/auth/login', request.url));
+      }
 
-    // Get user email from Clerk session (with fallback)
-    const { email } = await getSignedInEmail();
+      // Get user email from Clerk session (with fallback)
+      const { email } = await getSignedInEmail();
     
-    if (!email) {
-      return NextResponse.redirect(new URL('/auth/login', request.url));
-    }
+      if (!email) {
+        return NextResponse.redirect(new URL('/auth/login', request.url));
+      }
+
+      // An invite token is single use - drop the cookie whatever the outcome
+      const inviteToken = request.cookies.get(INVITE_COOKIE_NAME)?.value;
+      const redirectTo = (path: string) => {
+        const response = NextResponse.redirect(new URL(path, request.url));
+        if (inviteToken) {
+          clearSecureCookie(response, INVITE_COOKIE_NAME);
+        }
+        return response;
+      };
+
+      // First sign-in through an invitation link adds the invitee to the allow list
+      let inviteError: string | undefined;
+      if (inviteToken) {
+        const acceptance = await invitationService.acceptInvitation(inviteToken, email);
+
+        if (acceptance.success && acceptance.invitation) {
+          await auditLogger.logEvent({
+            email,
+            event: 'invite_accepted',
+            path: request.nextUrl.pathname,
+            ip: getClientIP(request),
+            user_agent: request.headers.get('user-agent'),
+            details: {
+              invitation_id: acceptance.invitation.id,
+              role: acceptance.invitation.role,
+              invited_by: acceptance.invitation.invited_by,
+            },
+          });
+        } else {
+          inviteError = acceptance.error;
+        }
+      }
+
+      // Check allow list and record the login outcome
+      const allowListResult = await allowListService.isEmailAllowed(email);
 
-    // Redirect to dashboard - middleware will handle allow list check
-    return NextResponse.redirect(new URL('/dashboard', request.url));
+      if (!allowListResult.allowed) {
+        await auditLogger.logAuthEvent(
+          email,
+          'login_deny',
+          request.nextUrl.pathname,
+          getClientIP(request),
+          request.headers.get('user-agent'),
+          { ...getDenialDetails(allowListResult), ...(inviteError && { invite_error: inviteError }) }
+        );
+
+        return redirectTo('/not-invited');
+      }
+
+      await auditLogger.logAuthEvent(
+        email,
+        'login_allow',
+        request.nextUrl.pathname,
+        getClientIP(request),
+        request.headers.get('user-agent'),
+        {
+          role: allowListResult.user?.role,
+          scope: allowListResult.scope,
+          roles: allowListResult.roles,
+          ...(allowListResult.matchedRule && { matched_rule: allowListResult.matchedRule.pattern }),
+        }
+      );
+
+      // Record the new session; repeat visits to the callback reuse the existing row
+      if (sessionId) {
+        const session = await sessionService.startSession(
+          email,
+          sessionId,
+          getClientIP(request),
+          request.headers.get('user-agent')
+        );
+
+        if (session.created && session.session) {
+          await auditLogger.logSessionEvent(
+            email,
+            'session_created',
+            request.nextUrl.pathname,
+            getClientIP(request),
+            request.headers.get('user-agent'),
+            { session_id: session.session.id, expires_at: session.session.expires_at }
+          );
+        }
+      }
+
+      return redirectTo('/dashboard');
     
-  } catch (error) {
-    console.error('Auth callback error:', error);
-    return NextResponse.redirect(new URL('/auth/login', request.url));
+    } catch (error) {
+      console.error('Auth callback error:', error);
+      return NextResponse.redirect(new URL('/auth/login', request.url));
+    }
   }
-}
-
-export const GET = withRequestLimits(requestLimitConfigs.auth)(
-  withRateLimit({ type: 'auth' })(authCallbackHandler)
 );
@@ -1,7 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { defineRoute } from '@/lib/middleware/define-route';
 
-export async function GET(request: NextRequest) {
-  // This endpoint can be used to initiate login flow
-  // For Clerk, we just redirect to the login page
-  return NextResponse.redirect(new URL('/auth/login', request.url));
-}
+export const GET = defineRoute(
+  { auth: 'public', rateLimit: 'auth' },
+  async ({ request }) => {
+    // This endpoint can be used to initiate login flow
+    // For Clerk, we just redirect to the login page
+    return NextResponse.redirect(new URL('/auth/login', request.url));
+  }
+);
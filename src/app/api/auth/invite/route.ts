@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { invitationService, INVITE_COOKIE_NAME } from '@/lib/auth/invitations';
+import { setSecureCookie } from '@/lib/session-security';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+// Entry point for invitation links: remember the token and send the invitee to sign in.
+// The invitation is consumed by the auth callback once the signed-in email is known.
+export const GET = defineRoute(
+  {
+    auth: 'public',
+    rateLimit: 'auth',
+    limits: requestLimitConfigs.auth,
+  },
+  async ({ request }) => {
+    try {
+      const token = request.nextUrl.searchParams.get('token');
+
+      if (!token) {
+        return NextResponse.redirect(new URL('/not-invited?invite=invalid', request.url));
+      }
+
+      const { invitation, error } = await invitationService.findPendingInvitation(token);
+
+      if (!invitation || error) {
+        return NextResponse.redirect(new URL('/not-invited?invite=invalid', request.url));
+      }
+
+      const response = NextResponse.redirect(new URL('/auth/login', request.url));
+      setSecureCookie(response, INVITE_COOKIE_NAME, token, { maxAge: 60 * 60 });
+
+      return response;
+
+    } catch (error) {
+      console.error('Invite link error:', error);
+      return NextResponse.redirect(new URL('/not-invited?invite=invalid', request.url));
+    }
+  }
+);
@@ -1,19 +1,36 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
+import { getClientIP } from '@/lib/client-ip';
+import { sessionService } from '@/lib/auth/sessions';
+import { auditLogger } from '@/lib/audit/logger';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+export const POST = defineRoute(
+  { auth: 'public', rateLimit: 'auth' },
+  async ({ request }) => {
+    try {
+      const { userId, sessionId } = await auth();
+
+      if (userId && sessionId) {
+        // End the tracked session; UserMenu closes the Clerk session once this returns
+        const result = await sessionService.endSession(sessionId, 'signed_out');
+
+        if (result.success && result.session) {
+          await auditLogger.logSessionEvent(
+            result.session.email,
+            'session_invalidated',
+            request.nextUrl.pathname,
+            getClientIP(request),
+            request.headers.get('user-agent'),
+            { session_id: result.session.id, reason: 'signed_out' }
+          );
+        }
+      }
 
-export async function POST(request: NextRequest) {
-  try {
-    const { userId } = await auth();
-    
-    if (userId) {
-      // For Clerk, we'll redirect to their logout URL
-      // The actual logout will be handled by Clerk's SignOut component
       return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error('Logout error:', error);
+      return NextResponse.json({ error: 'Logout failed' }, { status: 500 });
     }
-    
-    return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error('Logout error:', error);
-    return NextResponse.json({ error: 'Logout failed' }, { status: 500 });
   }
-}
+);
@@ -1,12 +1,9 @@
-import { NextRequest } from 'next/server';
 import { generateCSRFTokenEndpoint } from '@/lib/csrf-protection';
-import { withRateLimit } from '@/lib/middleware/rate-limit';
-import { withRequestLimits, requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { defineRoute } from '@/lib/middleware/define-route';
 
-async function csrfTokenHandler(request: NextRequest) {
-  return await generateCSRFTokenEndpoint(request);
-}
-
-export const GET = withRequestLimits(requestLimitConfigs.api)(
-  withRateLimit({ type: 'api' })(csrfTokenHandler)
+export const GET = defineRoute(
+  { auth: 'public' },
+  async ({ request }) => {
+    return await generateCSRFTokenEndpoint(request);
+  }
 );
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { allowListService } from '@/lib/auth/allowlist';
+import { accessRequestService } from '@/lib/auth/access-requests';
+import { roleService } from '@/lib/auth/roles';
+import { getClientIP } from '@/lib/client-ip';
+import { auditLogger } from '@/lib/audit/logger';
+import { requestLimitConfigs } from '@/lib/middleware/request-limits';
+import { sanitizationConfigs } from '@/lib/middleware/input-sanitization';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+// Signed-in users who are not on the allow list can view and submit their own access request.
+// The session guard deliberately skips the allow list, so this only ever acts on the caller's own email.
+export const GET = defineRoute(
+  { auth: 'session' },
+  async ({ email }) => {
+    try {
+      const { request, error } = await accessRequestService.getLatestRequest(email);
+      const { roles, error: rolesError } = await roleService.getRoles();
+
+      if (error || rolesError) {
+        return NextResponse.json(
+          { error: error || rolesError },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        email,
+        roles: roles.map(role => ({ name: role.name, description: role.description })),
+        request: request
+          ? {
+              requested_role: request.requested_role,
+              status: request.status,
+              created_at: request.created_at,
+              decided_at: request.decided_at,
+            }
+          : null,
+      });
+
+    } catch (error) {
+      console.error('Get access request error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to get access request' },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+
+export const POST = defineRoute(
+  {
+    auth: 'session',
+    rateLimit: 'auth',
+    limits: requestLimitConfigs.auth,
+    body: sanitizationConfigs.accessRequest,
+  },
+  async ({ email, request, body }) => {
+    try {
+      const allowListResult = await allowListService.isEmailAllowed(email);
+
+      if (allowListResult.allowed) {
+        return NextResponse.json(
+          { error: 'You already have access' },
+          { status: 400 }
+        );
+      }
+
+      // Deny-listed emails cannot queue requests
+      if (allowListResult.denyEntry) {
+        return NextResponse.json(
+          { error: 'Forbidden' },
+          { status: 403 }
+        );
+      }
+
+      const { display_name, requested_role, justification } = body;
+
+      const result = await accessRequestService.createRequest(
+        email,
+        display_name || null,
+        requested_role || 'viewer',
+        justification
+      );
+
+      if (!result.success || !result.request) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      await auditLogger.logEvent({
+        email,
+        event: 'access_requested',
+        path: request.nextUrl.pathname,
+        ip: getClientIP(request),
+        user_agent: request.headers.get('user-agent'),
+        details: {
+          request_id: result.request.id,
+          requested_role: result.request.requested_role,
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: 'Access request submitted',
+      });
+
+    } catch (error) {
+      console.error('Create access request error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to submit access request' },
+        { status: 500 }
+      );
+    }
+  }
+);
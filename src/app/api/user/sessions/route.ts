@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { sessionService } from '@/lib/auth/sessions';
+import { getSessionIdleTimeout } from '@/lib/session-security';
+import { defineRoute } from '@/lib/middleware/define-route';
+
+// The signed-in user's own active sessions, plus the idle timeout so the dashboard can warn before it
+export const GET = defineRoute(
+  { auth: 'user' },
+  async ({ user }) => {
+    try {
+      const { sessions, error } = await sessionService.getActiveSessions(user.email, user.sessionId);
+
+      if (error) {
+        return NextResponse.json(
+          { error },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({ sessions, idle_timeout: getSessionIdleTimeout() });
+
+    } catch (error) {
+      console.error('Get sessions error:', error);
+
+      return NextResponse.json(
+        { error: 'Failed to get sessions' },
+        { status: 500 }
+      );
+    }
+  }
+);
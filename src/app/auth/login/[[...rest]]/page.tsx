@@ -1,12 +1,29 @@
 'use client';
 
-import { SignIn } from '@clerk/nextjs';
+import { SignIn, useAuth, useClerk } from '@clerk/nextjs';
 import { useEffect, useState } from 'react';
 import { setupCSPViolationReporting, checkClerkResources, logCSPHeaders } from '@/lib/csp-debug';
 
 export default function LoginPage() {
   const [clerkLoaded, setClerkLoaded] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const { isLoaded, isSignedIn } = useAuth();
+  const { signOut } = useClerk();
+
+  // Sent here by the middleware or the dashboard when the tracked session timed out. Close whatever is
+  // left of the Clerk session so the sign-in form does not bounce straight back to the expired page.
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('reason') !== 'session_expired') {
+      return;
+    }
+
+    setSessionExpired(true);
+
+    if (isLoaded && isSignedIn) {
+      signOut({ redirectUrl: '/auth/login?reason=session_expired' });
+    }
+  }, [isLoaded, isSignedIn, signOut]);
 
   useEffect(() => {
     // Set up CSP debugging in development
@@ -55,6 +72,14 @@ export default function LoginPage() {
           </p>
         </div>
         
+        {sessionExpired && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+            <p className="text-sm text-yellow-800">
+              Your session has expired. Please sign in again.
+            </p>
+          </div>
+        )}
+
         <div className="mt-8">
           {error ? (
             <div className="bg-red-50 border border-red-200 rounded-md p-4">
@@ -100,7 +125,7 @@ export default function LoginPage() {
               routing="path"
               path="/auth/login"
               signUpUrl="/auth/login"
-              afterSignInUrl="/dashboard"
+              afterSignInUrl="/api/auth/callback"
               appearance={{
                 elements: {
                   formButtonPrimary: 'bg-blue-600 hover:bg-blue-700 text-white',
@@ -1,27 +1,102 @@
 'use client';
 
-import { useAuth } from '@clerk/nextjs';
+import { useAuth, useClerk } from '@clerk/nextjs';
 import { useRouter } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 
 interface UserProfile {
   email: string;
   display_name: string | null;
   role: string;
+  scope: string;
+  roles: string[];
+  permissions: string[];
   active: boolean;
 }
 
+interface ActiveSession {
+  id: string;
+  created_at: string;
+  expires_at: string;
+  last_accessed: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  current: boolean;
+}
+
+// How long before the session times out the dashboard starts warning
+const EXPIRY_WARNING_SECONDS = 120;
+
 export default function DashboardPage() {
   const { isLoaded, isSignedIn } = useAuth();
+  const { signOut } = useClerk();
   const router = useRouter();
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // When the current session ends unless there is activity first, and whether activity can still extend it
+  const [sessionDeadline, setSessionDeadline] = useState<{ at: number; idle: boolean } | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  // Every guarded request counts as activity, so fetching the sessions also restarts the idle timeout
+  const fetchSessions = useCallback(async () => {
+    const sessionsResponse = await fetch('/api/user/sessions');
+
+    if (!sessionsResponse.ok) {
+      return;
+    }
+
+    const data = await sessionsResponse.json();
+    setSessions(data.sessions);
+
+    const current = (data.sessions as ActiveSession[]).find(session => session.current);
+
+    if (current) {
+      const idleDeadline = Date.now() + data.idle_timeout * 1000;
+      const lifetimeDeadline = new Date(current.expires_at).getTime();
+
+      setSessionDeadline({
+        at: Math.min(idleDeadline, lifetimeDeadline),
+        idle: idleDeadline <= lifetimeDeadline,
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!sessionDeadline) {
+      return;
+    }
+
+    const tick = () => {
+      const remaining = Math.ceil((sessionDeadline.at - Date.now()) / 1000);
+
+      if (remaining <= 0) {
+        // Activity in another tab may have kept the session alive, but checking would count as activity
+        // itself and keep an idle dashboard signed in forever
+        signOut({ redirectUrl: '/auth/login?reason=session_expired' });
+        return;
+      }
+
+      setSecondsLeft(remaining <= EXPIRY_WARNING_SECONDS ? remaining : null);
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+
+    return () => clearInterval(timer);
+  }, [sessionDeadline, signOut]);
 
   useEffect(() => {
     const fetchUserProfile = async () => {
       try {
         const response = await fetch('/api/user/profile');
+
+        if (response.status === 401) {
+          // Tracked session expired or was ended: close the Clerk session too
+          await signOut({ redirectUrl: '/auth/login' });
+          return;
+        }
         
         if (response.status === 403) {
           // User not in allow list
@@ -35,6 +110,8 @@ export default function DashboardPage() {
         
         const profile = await response.json();
         setUserProfile(profile);
+
+        await fetchSessions();
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
       } finally {
@@ -50,7 +127,7 @@ export default function DashboardPage() {
     if (isLoaded && isSignedIn) {
       fetchUserProfile();
     }
-  }, [isLoaded, isSignedIn, router]);
+  }, [isLoaded, isSignedIn, router, signOut, fetchSessions]);
 
   if (!isLoaded || loading) {
     return (
@@ -97,6 +174,24 @@ export default function DashboardPage() {
             </p>
           </div>
 
+          {secondsLeft !== null && sessionDeadline && (
+            <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-xl p-4 flex flex-wrap items-center justify-between gap-4">
+              <p className="text-sm text-yellow-800">
+                {sessionDeadline.idle
+                  ? `You will be signed out in ${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')} because of inactivity.`
+                  : `Your session reaches its maximum length in ${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}. Sign in again to continue.`}
+              </p>
+              {sessionDeadline.idle && (
+                <button
+                  onClick={() => fetchSessions()}
+                  className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700"
+                >
+                  Stay signed in
+                </button>
+              )}
+            </div>
+          )}
+
           {userProfile && (
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
               {/* User Profile Card */}
@@ -126,18 +221,26 @@ export default function DashboardPage() {
                     <div className="bg-gray-50 rounded-xl p-4">
                       <div className="flex items-center mb-2">
                         <span className="text-2xl mr-2">👑</span>
-                        <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Role</h3>
+                        <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">
+                          {userProfile.roles.length > 1 ? 'Roles' : 'Role'}
+                        </h3>
                       </div>
-                      <span className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full ${
-                        userProfile.role === 'admin' 
-                          ? 'bg-purple-100 text-purple-800' 
-                          : userProfile.role === 'qa'
-                          ? 'bg-yellow-100 text-yellow-800'
-                          : 'bg-blue-100 text-blue-800'
-                      }`}>
-                        {userProfile.role === 'admin' ? '🔐 Admin' : 
-                         userProfile.role === 'qa' ? '🧪 QA' : '👀 Viewer'}
-                      </span>
+                      <div className="flex flex-wrap gap-2">
+                        {userProfile.roles.map((role) => (
+                          <span key={role} className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full ${
+                            role === 'admin' 
+                              ? 'bg-purple-100 text-purple-800' 
+                              : role === 'qa'
+                              ? 'bg-yellow-100 text-yellow-800'
+                              : 'bg-blue-100 text-blue-800'
+                          }`}>
+                            {role === 'admin' ? '🔐 Admin' : 
+                             role === 'qa' ? '🧪 QA' :
+                             role === 'viewer' ? '👀 Viewer' : `🏷️ ${role}`}
+                          </span>
+                        ))}
+                      </div>
+                      <p className="mt-2 text-xs text-gray-500">in {userProfile.scope}</p>
                     </div>
                     
                     <div className="bg-gray-50 rounded-xl p-4">
@@ -163,11 +266,45 @@ export default function DashboardPage() {
                     </div>
                   </div>
                 </div>
+
+                {/* Active Sessions */}
+                <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100 mt-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                    <span className="text-2xl mr-2">🖥️</span>
+                    Active Sessions
+                  </h3>
+                  {sessions.length === 0 ? (
+                    <p className="text-sm text-gray-500">No active sessions recorded</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {sessions.map((session) => (
+                        <li key={session.id} className="py-3 flex items-start justify-between gap-4">
+                          <div className="min-w-0">
+                            <p className="text-sm text-gray-900 truncate" title={session.user_agent || undefined}>
+                              {session.user_agent || 'Unknown device'}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {session.ip_address || 'Unknown IP'} · signed in {new Date(session.created_at).toLocaleString()}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              Last active {new Date(session.last_accessed).toLocaleString()} · expires {new Date(session.expires_at).toLocaleString()}
+                            </p>
+                          </div>
+                          {session.current && (
+                            <span className="inline-flex px-3 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800 whitespace-nowrap">
+                              This session
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
               </div>
 
               {/* Quick Actions Sidebar */}
               <div className="space-y-6">
-                {userProfile.role === 'admin' && (
+                {userProfile.permissions.includes('users:read') && (
                   <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-100">
                     <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
                       <span className="text-2xl mr-2">⚙️</span>
@@ -181,13 +318,15 @@ export default function DashboardPage() {
                         <span className="mr-2">👥</span>
                         Manage Users
                       </a>
-                      <a 
-                        href="/admin?tab=audit"
-                        className="w-full inline-flex items-center justify-center px-4 py-3 border border-gray-300 text-sm font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 transition-all duration-200"
-                      >
-                        <span className="mr-2">📊</span>
-                        View Audit Logs
-                      </a>
+                      {userProfile.permissions.includes('audit:read') && (
+                        <a 
+                          href="/admin?tab=audit"
+                          className="w-full inline-flex items-center justify-center px-4 py-3 border border-gray-300 text-sm font-medium rounded-xl text-gray-700 bg-white hover:bg-gray-50 transition-all duration-200"
+                        >
+                          <span className="mr-2">📊</span>
+                          View Audit Logs
+                        </a>
+                      )}
                     </div>
                   </div>
                 )}
@@ -210,8 +349,8 @@ export default function DashboardPage() {
                     <div className="flex justify-between items-center">
                       <span className="text-sm opacity-90">Access Level</span>
                       <span className="font-bold">
-                        {userProfile.role === 'admin' ? 'Full Access' : 
-                         userProfile.role === 'qa' ? 'Testing Access' : 'View Only'}
+                        {userProfile.permissions.includes('users:write') ? 'Full Access' : 
+                         userProfile.roles.includes('qa') ? 'Testing Access' : 'View Only'}
                       </span>
                     </div>
                   </div>
@@ -1,6 +1,7 @@
 import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
-import { ClerkProvider, SignInButton, SignUpButton, SignedIn, SignedOut, UserButton } from '@clerk/nextjs';
+import { ClerkProvider, SignInButton, SignUpButton, SignedIn, SignedOut } from '@clerk/nextjs';
+import UserMenu from '@/components/UserMenu';
 import './globals.css';
 
 const inter = Inter({ subsets: ['latin'] });
@@ -20,7 +21,7 @@ export default function RootLayout({
       publishableKey={process.env.NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY}
       signInUrl="/auth/login"
       signUpUrl="/auth/login"
-      afterSignInUrl="/dashboard"
+      afterSignInUrl="/api/auth/callback"
     >
       <html lang="en">
         <body className={inter.className}>
@@ -37,7 +38,7 @@ export default function RootLayout({
                       <SignUpButton />
                     </SignedOut>
                     <SignedIn>
-                      <UserButton />
+                      <UserMenu />
                     </SignedIn>
                   </div>
                 </div>
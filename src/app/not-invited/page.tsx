@@ -1,8 +1,77 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
+import { authenticatedRequest } from '@/lib/csrf-client';
+
+interface AccessRequestStatus {
+  requested_role: string;
+  status: 'pending' | 'approved' | 'rejected';
+  created_at: string;
+  decided_at: string | null;
+}
 
 export default function NotInvitedPage() {
+  const [invalidInvite, setInvalidInvite] = useState(false);
+  const [signedInEmail, setSignedInEmail] = useState<string | null>(null);
+  const [accessRequest, setAccessRequest] = useState<AccessRequestStatus | null>(null);
+  const [roles, setRoles] = useState<{ name: string; description: string | null }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState({
+    display_name: '',
+    requested_role: 'viewer',
+    justification: '',
+  });
+
+  useEffect(() => {
+    // Set by /api/auth/invite when an invitation link is expired, revoked or already used
+    setInvalidInvite(new URLSearchParams(window.location.search).get('invite') === 'invalid');
+    fetchAccessRequest();
+  }, []);
+
+  const fetchAccessRequest = async () => {
+    try {
+      const response = await fetch('/api/user/access-request');
+      if (response.ok) {
+        const data = await response.json();
+        setSignedInEmail(data.email);
+        setAccessRequest(data.request);
+        setRoles(data.roles);
+      }
+    } catch (err) {
+      console.error('Failed to fetch access request:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const response = await authenticatedRequest('/api/user/access-request', {
+        method: 'POST',
+        body: JSON.stringify(form),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to submit access request');
+      }
+
+      setError('');
+      fetchAccessRequest();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit access request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canRequest = signedInEmail && (!accessRequest || accessRequest.status === 'rejected');
+
   return (
     <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -20,6 +89,12 @@ export default function NotInvitedPage() {
           </p>
         </div>
 
+        {invalidInvite && (
+          <div className="alert alert-warning">
+            This invitation link is invalid, has expired or has already been used. Ask your administrator to resend it.
+          </div>
+        )}
+
         <div className="card p-6">
           <h3 className="text-lg font-medium text-gray-900 mb-4">
             What does this mean?
@@ -27,22 +102,102 @@ export default function NotInvitedPage() {
           <ul className="space-y-2 text-sm text-gray-600">
             <li>• Only pre-approved users can access this application</li>
             <li>• Your email address needs to be added to the allow list</li>
-            <li>• Contact your administrator to request access</li>
+            <li>• You can request access below and an administrator will review it</li>
           </ul>
         </div>
 
-        <div className="space-y-4">
-          <div className="text-center">
-            <p className="text-sm text-gray-600 mb-4">
-              Need access? Contact your administrator:
-            </p>
-            <a
-              href="mailto:admin@example.com?subject=Access Request&body=Hi, I would like to request access to the application. My email address is: [your-email@example.com]"
-              className="btn btn-primary w-full"
-            >
-              Request Access
-            </a>
+        {!loading && accessRequest?.status === 'pending' && (
+          <div className="alert alert-warning">
+            Your access request for {signedInEmail} was submitted on {new Date(accessRequest.created_at).toLocaleDateString()} and is awaiting review. You will be notified by email.
+          </div>
+        )}
+
+        {!loading && accessRequest?.status === 'approved' && (
+          <div className="alert alert-success">
+            Your access request has been approved.{' '}
+            <Link href="/dashboard" className="font-medium underline">
+              Continue to the dashboard
+            </Link>
+          </div>
+        )}
+
+        {!loading && accessRequest?.status === 'rejected' && (
+          <div className="alert alert-error">
+            Your previous access request was declined. You can submit a new request with more detail.
           </div>
+        )}
+
+        {!loading && canRequest && (
+          <form onSubmit={handleSubmit} className="card p-6 space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">
+              Request Access
+            </h3>
+            <p className="text-sm text-gray-600">
+              Signed in as {signedInEmail}
+            </p>
+
+            {error && (
+              <div className="alert alert-error">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Display Name
+              </label>
+              <input
+                type="text"
+                value={form.display_name}
+                onChange={(e) => setForm({ ...form, display_name: e.target.value })}
+                className="input w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Requested Role
+              </label>
+              <select
+                value={form.requested_role}
+                onChange={(e) => setForm({ ...form, requested_role: e.target.value })}
+                className="input w-full"
+              >
+                {roles.map((role) => (
+                  <option key={role.name} value={role.name}>
+                    {role.description ? `${role.name} - ${role.description}` : role.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Why do you need access?
+              </label>
+              <textarea
+                required
+                rows={4}
+                value={form.justification}
+                onChange={(e) => setForm({ ...form, justification: e.target.value })}
+                className="input w-full"
+              />
+            </div>
+            <button type="submit" disabled={submitting} className="btn btn-primary w-full">
+              {submitting ? 'Submitting...' : 'Submit Request'}
+            </button>
+          </form>
+        )}
+
+        <div className="space-y-4">
+          {!loading && !signedInEmail && (
+            <div className="text-center">
+              <p className="text-sm text-gray-600 mb-4">
+                Sign in to request access.
+              </p>
+              <Link href="/auth/login" className="btn btn-primary w-full">
+                Sign In
+              </Link>
+            </div>
+          )}
 
           <div className="text-center">
             <Link
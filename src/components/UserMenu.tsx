@@ -0,0 +1,38 @@
+'use client';
+
+import { useClerk, useUser } from '@clerk/nextjs';
+import { useState } from 'react';
+import { authenticatedRequest, csrfClient } from '@/lib/csrf-client';
+
+// Stands in for Clerk's UserButton, whose sign-out goes straight to Clerk: signing out here first ends
+// the tracked session (and audits it) through POST /api/auth/logout, then closes the Clerk session
+export default function UserMenu() {
+  const { user } = useUser();
+  const { signOut } = useClerk();
+  const [signingOut, setSigningOut] = useState(false);
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    try {
+      await authenticatedRequest('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      // Still sign out of Clerk; the tracked session then ends at its idle timeout
+      console.error('Failed to end the tracked session:', err);
+    }
+    csrfClient.clearToken();
+    await signOut({ redirectUrl: '/auth/login' });
+  };
+
+  return (
+    <div className="flex items-center space-x-3">
+      {user?.primaryEmailAddress && (
+        <span className="text-sm text-gray-600">
+          {user.primaryEmailAddress.emailAddress}
+        </span>
+      )}
+      <button onClick={handleSignOut} className="btn btn-sm btn-secondary" disabled={signingOut}>
+        {signingOut ? 'Signing out...' : 'Sign Out'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+import RoleSelect from './RoleSelect';
+
+interface AccessRequest {
+  id: string;
+  email: string;
+  display_name: string | null;
+  requested_role: string;
+  justification: string;
+  created_at: string;
+}
+
+interface AccessRequestsPanelProps {
+  roles: string[];
+  // Called after an approval so the parent can refresh its user list
+  onChange?: () => void;
+}
+
+export default function AccessRequestsPanel({ roles, onChange }: AccessRequestsPanelProps) {
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [grantedRoles, setGrantedRoles] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const fetchRequests = async () => {
+    try {
+      const response = await fetch('/api/admin/access-requests?status=pending');
+      if (!response.ok) {
+        throw new Error('Failed to fetch access requests');
+      }
+      const data = await response.json();
+      setRequests(data.requests);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch access requests');
+    }
+  };
+
+  const handleApprove = async (request: AccessRequest) => {
+    try {
+      const response = await authenticatedRequest(`/api/admin/access-requests/${request.id}/approve`, {
+        method: 'POST',
+        body: JSON.stringify({ role: grantedRoles[request.id] || request.requested_role }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to approve access request');
+      }
+
+      setError('');
+      setMessage(data.message);
+      fetchRequests();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to approve access request');
+    }
+  };
+
+  const handleReject = async (request: AccessRequest) => {
+    const note = prompt(`Reject the access request from ${request.email}? Optionally add a note for the requester:`);
+    if (note === null) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedRequest(`/api/admin/access-requests/${request.id}/reject`, {
+        method: 'POST',
+        body: JSON.stringify({ note }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reject access request');
+      }
+
+      setError('');
+      setMessage(data.message);
+      fetchRequests();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reject access request');
+    }
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Access Requests
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Requests submitted from the not-invited page. Approving adds the requester to the allow list; both decisions notify them by email.
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="alert alert-success mb-6">
+          {message}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Requester
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Justification
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Requested
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Grant Role
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {requests.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  No pending access requests
+                </td>
+              </tr>
+            )}
+            {requests.map((request) => (
+              <tr key={request.id}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">
+                    {request.email}
+                  </div>
+                  {request.display_name && (
+                    <div className="text-sm text-gray-500">
+                      {request.display_name}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {request.justification}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(request.created_at).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  <RoleSelect
+                    roles={roles}
+                    value={grantedRoles[request.id] || request.requested_role}
+                    onChange={(role) => setGrantedRoles({ ...grantedRoles, [request.id]: role })}
+                  />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                  <button
+                    onClick={() => handleApprove(request)}
+                    className="btn btn-sm btn-success"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleReject(request)}
+                    className="btn btn-sm btn-danger"
+                  >
+                    Reject
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+import RoleSelect from './RoleSelect';
+
+interface AllowRule {
+  id: number;
+  pattern: string;
+  role: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+  active: boolean;
+}
+
+interface AllowRulesPanelProps {
+  roles: string[];
+}
+
+export default function AllowRulesPanel({ roles }: AllowRulesPanelProps) {
+  const [rules, setRules] = useState<AllowRule[]>([]);
+  const [error, setError] = useState('');
+  const [newRule, setNewRule] = useState({
+    pattern: '',
+    role: 'viewer',
+    description: '',
+  });
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/admin/allow-rules');
+      if (!response.ok) {
+        throw new Error('Failed to fetch allow rules');
+      }
+      const data = await response.json();
+      setRules(data.rules);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch allow rules');
+    }
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authenticatedRequest('/api/admin/allow-rules', {
+        method: 'POST',
+        body: JSON.stringify(newRule),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add allow rule');
+      }
+
+      setNewRule({ pattern: '', role: 'viewer', description: '' });
+      setError('');
+      fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add allow rule');
+    }
+  };
+
+  const handleRemoveRule = async (rule: AllowRule) => {
+    if (!confirm(`Are you sure you want to remove the rule ${rule.pattern}?`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedRequest(`/api/admin/allow-rules/${rule.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove allow rule');
+      }
+
+      fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove allow rule');
+    }
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Domain Rules
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Allow everyone matching a pattern such as <code>*@partner.com</code>. Exact user entries always take precedence.
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleAddRule} className="flex flex-wrap items-end gap-3 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Pattern
+          </label>
+          <input
+            type="text"
+            required
+            placeholder="*@partner.com"
+            value={newRule.pattern}
+            onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Default Role
+          </label>
+          <RoleSelect
+            roles={roles}
+            value={newRule.role}
+            onChange={(role) => setNewRule({ ...newRule, role })}
+          />
+        </div>
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Description
+          </label>
+          <input
+            type="text"
+            value={newRule.description}
+            onChange={(e) => setNewRule({ ...newRule, description: e.target.value })}
+            className="input w-full"
+          />
+        </div>
+        <button type="submit" className="btn btn-primary">
+          Add Rule
+        </button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Pattern
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Role
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Description
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Created By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  No domain rules configured
+                </td>
+              </tr>
+            )}
+            {rules.map((rule) => (
+              <tr key={rule.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                  {rule.pattern}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {rule.role}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {rule.description || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {rule.created_by || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => handleRemoveRule(rule)}
+                    className="btn btn-sm btn-danger"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
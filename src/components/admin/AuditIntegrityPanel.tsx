@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+
+interface AuditCheckpoint {
+  id: number;
+  last_entry_id: number;
+  last_hash: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface ChainVerification {
+  valid: boolean;
+  status: 'verified' | 'broken' | 'signatures_unverified' | 'error';
+  entries_checked: number;
+  checkpoints_checked: number;
+  first_broken?: { id: number; reason: string; checkpoint_id?: number };
+}
+
+const STATUS_STYLES: Record<ChainVerification['status'], string> = {
+  verified: 'alert alert-success',
+  broken: 'alert alert-error',
+  signatures_unverified: 'alert alert-warning',
+  error: 'alert alert-error',
+};
+
+function describeVerification(verification: ChainVerification): string {
+  const checked = `${verification.entries_checked} entries and ${verification.checkpoints_checked} checkpoints checked`;
+
+  switch (verification.status) {
+    case 'verified':
+      return `The audit log is intact: ${checked}.`;
+    case 'signatures_unverified':
+      return `The entries link up, but AUDIT_CHECKPOINT_SECRET is not set on this server, so checkpoint signatures were not checked and a rewritten log would go unnoticed (${checked}).`;
+    case 'broken': {
+      const broken = verification.first_broken;
+      const checkpoint = broken?.checkpoint_id ? ` (checkpoint #${broken.checkpoint_id})` : '';
+      return broken
+        ? `The audit log has been altered at entry #${broken.id}${checkpoint}: ${broken.reason.replace(/_/g, ' ')}.`
+        : 'The audit log has been altered.';
+    }
+    default:
+      return 'The audit log could not be verified.';
+  }
+}
+
+export default function AuditIntegrityPanel() {
+  const [checkpoints, setCheckpoints] = useState<AuditCheckpoint[]>([]);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchCheckpoints = async () => {
+    try {
+      const response = await fetch('/api/admin/audit/checkpoints');
+      if (!response.ok) {
+        throw new Error('Failed to fetch audit checkpoints');
+      }
+      const data = await response.json();
+      setCheckpoints(data.checkpoints);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch audit checkpoints');
+    }
+  };
+
+  useEffect(() => {
+    fetchCheckpoints();
+  }, []);
+
+  // Walks the whole log, so it only runs when asked
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      const response = await fetch('/api/admin/audit/verify');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to verify the audit log');
+      }
+      setVerification(await response.json());
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify the audit log');
+    }
+    setVerifying(false);
+  };
+
+  const handleCreateCheckpoint = async () => {
+    try {
+      const response = await authenticatedRequest('/api/admin/audit/checkpoints', {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create checkpoint');
+      }
+
+      setError('');
+      fetchCheckpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create checkpoint');
+    }
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">
+            Audit Log Integrity
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Each audit entry is hash-linked to the one before it, and signed checkpoints pin the chain so it
+            can&apos;t be recomputed after an edit.
+          </p>
+        </div>
+        <div className="space-x-2 whitespace-nowrap">
+          <button onClick={handleVerify} className="btn btn-sm btn-primary" disabled={verifying}>
+            {verifying ? 'Verifying...' : 'Verify'}
+          </button>
+          <button onClick={handleCreateCheckpoint} className="btn btn-sm btn-secondary">
+            Sign Checkpoint
+          </button>
+          <a href="/api/admin/audit/checkpoints/export" className="btn btn-sm btn-secondary">
+            Export
+          </a>
+        </div>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      {verification && (
+        <div className={`${STATUS_STYLES[verification.status]} mb-6`}>
+          {describeVerification(verification)}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Checkpoint
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Last Entry
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Hash
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Signed By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Signed At
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {checkpoints.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  No checkpoints yet
+                </td>
+              </tr>
+            )}
+            {checkpoints.map((checkpoint) => (
+              <tr key={checkpoint.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  #{checkpoint.id}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  #{checkpoint.last_entry_id}
+                </td>
+                <td className="px-6 py-4 text-sm font-mono text-gray-500">
+                  {checkpoint.last_hash.slice(0, 16)}…
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {checkpoint.created_by || 'automatic'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(checkpoint.created_at).toLocaleString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+
+interface DenyListEntry {
+  id: number;
+  pattern: string;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export default function DenyListPanel() {
+  const [entries, setEntries] = useState<DenyListEntry[]>([]);
+  const [error, setError] = useState('');
+  const [newEntry, setNewEntry] = useState({
+    pattern: '',
+    reason: '',
+  });
+
+  useEffect(() => {
+    fetchEntries();
+  }, []);
+
+  const fetchEntries = async () => {
+    try {
+      const response = await fetch('/api/admin/deny-list');
+      if (!response.ok) {
+        throw new Error('Failed to fetch deny list');
+      }
+      const data = await response.json();
+      setEntries(data.entries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch deny list');
+    }
+  };
+
+  const handleAddEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authenticatedRequest('/api/admin/deny-list', {
+        method: 'POST',
+        body: JSON.stringify(newEntry),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add deny list entry');
+      }
+
+      setNewEntry({ pattern: '', reason: '' });
+      setError('');
+      fetchEntries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add deny list entry');
+    }
+  };
+
+  const handleRemoveEntry = async (entry: DenyListEntry) => {
+    if (!confirm(`Are you sure you want to unblock ${entry.pattern}?`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedRequest(`/api/admin/deny-list/${entry.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove deny list entry');
+      }
+
+      fetchEntries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove deny list entry');
+    }
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Deny List
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Blocked emails and domains. The deny list is checked before any allow entry or rule.
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleAddEntry} className="flex flex-wrap items-end gap-3 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Email or Pattern
+          </label>
+          <input
+            type="text"
+            required
+            placeholder="someone@example.com or *@example.com"
+            value={newEntry.pattern}
+            onChange={(e) => setNewEntry({ ...newEntry, pattern: e.target.value })}
+            className="input"
+          />
+        </div>
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Reason
+          </label>
+          <input
+            type="text"
+            required
+            value={newEntry.reason}
+            onChange={(e) => setNewEntry({ ...newEntry, reason: e.target.value })}
+            className="input w-full"
+          />
+        </div>
+        <button type="submit" className="btn btn-danger">
+          Block
+        </button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Email or Pattern
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Reason
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Added By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Added
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {entries.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  Nobody is on the deny list
+                </td>
+              </tr>
+            )}
+            {entries.map((entry) => (
+              <tr key={entry.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                  {entry.pattern}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {entry.reason}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {entry.created_by || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(entry.created_at).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => handleRemoveEntry(entry)}
+                    className="btn btn-sm btn-secondary"
+                  >
+                    Unblock
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+
+interface ExpiringUser {
+  email: string;
+  display_name: string | null;
+  role: string;
+  expires_at: string;
+}
+
+interface ExpiringUsersPanelProps {
+  // Called after an extension or sweep so the parent can refresh its user list
+  onChange?: () => void;
+}
+
+const EXTENSION_DAYS = 30;
+
+export default function ExpiringUsersPanel({ onChange }: ExpiringUsersPanelProps) {
+  const [users, setUsers] = useState<ExpiringUser[]>([]);
+  const [days, setDays] = useState(14);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchExpiringUsers(days);
+  }, [days]);
+
+  const fetchExpiringUsers = async (withinDays: number) => {
+    try {
+      const response = await fetch(`/api/admin/users/expiring?days=${withinDays}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch expiring users');
+      }
+      const data = await response.json();
+      setUsers(data.users);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch expiring users');
+    }
+  };
+
+  const handleExtend = async (user: ExpiringUser) => {
+    // Extend from the later of now and the current expiry
+    const base = Math.max(Date.now(), new Date(user.expires_at).getTime());
+    const expiresAt = new Date(base + EXTENSION_DAYS * 24 * 60 * 60 * 1000);
+
+    try {
+      const response = await authenticatedRequest('/api/admin/users', {
+        method: 'POST',
+        body: JSON.stringify({
+          email: user.email,
+          display_name: user.display_name || '',
+          role: user.role,
+          expires_at: expiresAt.toISOString(),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to extend access');
+      }
+
+      setMessage(`Extended ${user.email} until ${expiresAt.toLocaleString()}`);
+      fetchExpiringUsers(days);
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to extend access');
+    }
+  };
+
+  const handleSweep = async () => {
+    try {
+      const response = await authenticatedRequest('/api/admin/users/expire', {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to run expiry sweep');
+      }
+
+      const data = await response.json();
+      setMessage(`Deactivated ${data.expired.length} expired user(s)`);
+      fetchExpiringUsers(days);
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run expiry sweep');
+    }
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Expiring Soon
+        </h2>
+        <div className="flex items-center space-x-3">
+          <select
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10))}
+            className="input"
+          >
+            <option value={7}>Next 7 days</option>
+            <option value={14}>Next 14 days</option>
+            <option value={30}>Next 30 days</option>
+          </select>
+          <button onClick={handleSweep} className="btn btn-secondary">
+            Deactivate Expired
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="alert alert-success mb-6">
+          {message}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Email
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Role
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Expires
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {users.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  No access expiring in the next {days} days
+                </td>
+              </tr>
+            )}
+            {users.map((user) => {
+              const expired = new Date(user.expires_at).getTime() <= Date.now();
+
+              return (
+                <tr key={user.email}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {user.email}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {user.role}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${expired ? 'text-red-600' : 'text-gray-500'}`}>
+                    {new Date(user.expires_at).toLocaleString()}
+                    {expired && ' (expired)'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                    <button
+                      onClick={() => handleExtend(user)}
+                      className="btn btn-sm btn-primary"
+                    >
+                      Extend {EXTENSION_DAYS} days
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+import RoleSelect from './RoleSelect';
+
+interface Invitation {
+  id: string;
+  email: string;
+  display_name: string | null;
+  role: string;
+  status: 'pending' | 'accepted' | 'revoked' | 'expired';
+  invited_by: string | null;
+  created_at: string;
+  expires_at: string;
+  last_sent_at: string | null;
+  send_count: number;
+}
+
+interface InvitationsPanelProps {
+  roles: string[];
+}
+
+export default function InvitationsPanel({ roles }: InvitationsPanelProps) {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [newInvite, setNewInvite] = useState({
+    email: '',
+    display_name: '',
+    role: 'viewer',
+  });
+
+  useEffect(() => {
+    fetchInvitations();
+  }, []);
+
+  const fetchInvitations = async () => {
+    try {
+      const response = await fetch('/api/admin/invitations?status=pending');
+      if (!response.ok) {
+        throw new Error('Failed to fetch invitations');
+      }
+      const data = await response.json();
+      setInvitations(data.invitations);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch invitations');
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authenticatedRequest('/api/admin/invitations', {
+        method: 'POST',
+        body: JSON.stringify(newInvite),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send invitation');
+      }
+
+      setNewInvite({ email: '', display_name: '', role: 'viewer' });
+      setError('');
+      setMessage(data.message);
+      fetchInvitations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send invitation');
+    }
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    try {
+      const response = await authenticatedRequest(`/api/admin/invitations/${invitation.id}/resend`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resend invitation');
+      }
+
+      setMessage(data.message);
+      fetchInvitations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resend invitation');
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!confirm(`Are you sure you want to revoke the invitation for ${invitation.email}?`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedRequest(`/api/admin/invitations/${invitation.id}/revoke`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to revoke invitation');
+      }
+
+      fetchInvitations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invitation');
+    }
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Invitations
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Invitees get a single-use link by email and are added to the allow list on their first sign-in.
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="alert alert-success mb-6">
+          {message}
+        </div>
+      )}
+
+      <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-3 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Email
+          </label>
+          <input
+            type="email"
+            required
+            value={newInvite.email}
+            onChange={(e) => setNewInvite({ ...newInvite, email: e.target.value })}
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Display Name
+          </label>
+          <input
+            type="text"
+            value={newInvite.display_name}
+            onChange={(e) => setNewInvite({ ...newInvite, display_name: e.target.value })}
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Role
+          </label>
+          <RoleSelect
+            roles={roles}
+            value={newInvite.role}
+            onChange={(role) => setNewInvite({ ...newInvite, role })}
+          />
+        </div>
+        <button type="submit" className="btn btn-primary">
+          Send Invitation
+        </button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Email
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Role
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Invited By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Last Sent
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Expires
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {invitations.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  No pending invitations
+                </td>
+              </tr>
+            )}
+            {invitations.map((invitation) => (
+              <tr key={invitation.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {invitation.email}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {invitation.role}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {invitation.invited_by || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {invitation.last_sent_at ? new Date(invitation.last_sent_at).toLocaleString() : '-'}
+                  {invitation.send_count > 1 && ` (${invitation.send_count}x)`}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(invitation.expires_at).toLocaleString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                  <button
+                    onClick={() => handleResend(invitation)}
+                    className="btn btn-sm btn-secondary"
+                  >
+                    Resend
+                  </button>
+                  <button
+                    onClick={() => handleRevoke(invitation)}
+                    className="btn btn-sm btn-danger"
+                  >
+                    Revoke
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
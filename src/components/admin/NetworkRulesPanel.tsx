@@ -0,0 +1,241 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+
+interface NetworkRule {
+  id: number;
+  cidr: string;
+  action: 'allow' | 'deny';
+  role: string | null;
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface NetworkRulesPanelProps {
+  roles: string[];
+}
+
+export default function NetworkRulesPanel({ roles }: NetworkRulesPanelProps) {
+  const [rules, setRules] = useState<NetworkRule[]>([]);
+  const [clientIP, setClientIP] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [newRule, setNewRule] = useState({
+    cidr: '',
+    action: 'allow',
+    role: '',
+    description: '',
+  });
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/admin/network-rules');
+      if (!response.ok) {
+        throw new Error('Failed to fetch network rules');
+      }
+      const data = await response.json();
+      setRules(data.rules);
+      setClientIP(data.client_ip);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch network rules');
+    }
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authenticatedRequest('/api/admin/network-rules', {
+        method: 'POST',
+        body: JSON.stringify(newRule),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add network rule');
+      }
+
+      setNewRule({ cidr: '', action: 'allow', role: '', description: '' });
+      setError('');
+      fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add network rule');
+    }
+  };
+
+  const handleRemoveRule = async (rule: NetworkRule) => {
+    if (!confirm(`Are you sure you want to remove the ${rule.action} rule for ${rule.cidr}?`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedRequest(`/api/admin/network-rules/${rule.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove network rule');
+      }
+
+      setError('');
+      fetchRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove network rule');
+    }
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Network Restrictions
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Deny rules block matching addresses. Once everyone or a role has allow rules, only addresses inside
+          one of them get through. Your address is {clientIP || 'unknown'}.
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleAddRule} className="flex flex-wrap items-end gap-3 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Network
+          </label>
+          <input
+            type="text"
+            required
+            placeholder="10.0.0.0/8 or 2001:db8::/32"
+            value={newRule.cidr}
+            onChange={(e) => setNewRule({ ...newRule, cidr: e.target.value })}
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Action
+          </label>
+          <select
+            value={newRule.action}
+            onChange={(e) => setNewRule({ ...newRule, action: e.target.value })}
+            className="input"
+          >
+            <option value="allow">allow</option>
+            <option value="deny">deny</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Applies To
+          </label>
+          <select
+            value={newRule.role}
+            onChange={(e) => setNewRule({ ...newRule, role: e.target.value })}
+            className="input"
+          >
+            <option value="">everyone</option>
+            {roles.map((role) => (
+              <option key={role} value={role}>
+                {role}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Description
+          </label>
+          <input
+            type="text"
+            placeholder="Optional"
+            value={newRule.description}
+            onChange={(e) => setNewRule({ ...newRule, description: e.target.value })}
+            className="input w-full"
+          />
+        </div>
+        <button type="submit" className="btn btn-primary">
+          Add Rule
+        </button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Network
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Action
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Applies To
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Description
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Added By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  Every network is allowed
+                </td>
+              </tr>
+            )}
+            {rules.map((rule) => (
+              <tr key={rule.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                  {rule.cidr}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    rule.action === 'allow'
+                      ? 'bg-success-100 text-success-800'
+                      : 'bg-red-100 text-red-800'
+                  }`}>
+                    {rule.action}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {rule.role || 'everyone'}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {rule.description || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {rule.created_by || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => handleRemoveRule(rule)}
+                    className="btn btn-sm btn-secondary"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
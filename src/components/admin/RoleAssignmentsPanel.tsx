@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+import RoleSelect from './RoleSelect';
+
+interface RoleAssignment {
+  email: string;
+  scope: string;
+  role: string;
+  granted_by: string | null;
+  created_at: string;
+}
+
+interface RoleAssignmentsPanelProps {
+  roles: string[];
+  // Allow list emails offered as suggestions; assignments can only be made for allow listed users
+  emails: string[];
+}
+
+export default function RoleAssignmentsPanel({ roles, emails }: RoleAssignmentsPanelProps) {
+  const [scope, setScope] = useState('');
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [assignments, setAssignments] = useState<RoleAssignment[]>([]);
+  const [error, setError] = useState('');
+  const [newAssignment, setNewAssignment] = useState({
+    email: '',
+    scope: '',
+    role: 'viewer',
+  });
+
+  useEffect(() => {
+    fetchAssignments(scope);
+  }, [scope]);
+
+  const fetchAssignments = async (selectedScope: string) => {
+    try {
+      const query = selectedScope ? `?scope=${encodeURIComponent(selectedScope)}` : '';
+      const response = await fetch(`/api/admin/role-assignments${query}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch role assignments');
+      }
+      const data = await response.json();
+      setAssignments(data.assignments);
+      setScopes(data.scopes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch role assignments');
+    }
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authenticatedRequest('/api/admin/role-assignments', {
+        method: 'POST',
+        body: JSON.stringify({ ...newAssignment, scope: newAssignment.scope || scope }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to assign role');
+      }
+
+      setNewAssignment({ ...newAssignment, email: '' });
+      setError('');
+      fetchAssignments(scope);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assign role');
+    }
+  };
+
+  const handleUnassign = async (assignment: RoleAssignment) => {
+    if (!confirm(`Remove the ${assignment.role} role from ${assignment.email} in ${assignment.scope}?`)) {
+      return;
+    }
+
+    try {
+      const path = [assignment.scope, assignment.email, assignment.role].map(encodeURIComponent).join('/');
+      const response = await authenticatedRequest(`/api/admin/role-assignments/${path}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove role assignment');
+      }
+
+      fetchAssignments(scope);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove role assignment');
+    }
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Role Assignments
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Grant users one or more roles per application scope. In a scope where a user has no assignments, their default role from the allow list applies.
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Scope
+        </label>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          className="input"
+        >
+          <option value="">All scopes</option>
+          {scopes.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <form onSubmit={handleAssign} className="flex flex-wrap items-end gap-3 mb-6">
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Email
+          </label>
+          <input
+            type="email"
+            required
+            list="role-assignment-emails"
+            value={newAssignment.email}
+            onChange={(e) => setNewAssignment({ ...newAssignment, email: e.target.value })}
+            className="input w-full"
+          />
+          <datalist id="role-assignment-emails">
+            {emails.map((email) => (
+              <option key={email} value={email} />
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Scope
+          </label>
+          <input
+            type="text"
+            required={!scope}
+            placeholder={scope || 'billing'}
+            list="role-assignment-scopes"
+            value={newAssignment.scope}
+            onChange={(e) => setNewAssignment({ ...newAssignment, scope: e.target.value })}
+            className="input"
+          />
+          <datalist id="role-assignment-scopes">
+            {scopes.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Role
+          </label>
+          <RoleSelect
+            roles={roles}
+            value={newAssignment.role}
+            onChange={(role) => setNewAssignment({ ...newAssignment, role })}
+          />
+        </div>
+        <button type="submit" className="btn btn-primary">
+          Assign Role
+        </button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Email
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Scope
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Role
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Granted By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {assignments.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  No role assignments{scope && ` in ${scope}`}
+                </td>
+              </tr>
+            )}
+            {assignments.map((assignment) => (
+              <tr key={`${assignment.scope}/${assignment.email}/${assignment.role}`}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {assignment.email}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">
+                  {assignment.scope}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {assignment.role}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {assignment.granted_by || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => handleUnassign(assignment)}
+                    className="btn btn-sm btn-danger"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
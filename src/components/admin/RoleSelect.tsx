@@ -0,0 +1,28 @@
+'use client';
+
+interface RoleSelectProps {
+  roles: string[];
+  value: string;
+  onChange: (role: string) => void;
+  className?: string;
+}
+
+// Role picker for admin forms; the role list comes from /api/admin/roles via the admin page
+export default function RoleSelect({ roles, value, onChange, className = 'input' }: RoleSelectProps) {
+  // Keep the current value selectable while roles are loading or if it was deleted
+  const options = roles.includes(value) ? roles : [value, ...roles];
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={className}
+    >
+      {options.map((role) => (
+        <option key={role} value={role}>
+          {role}
+        </option>
+      ))}
+    </select>
+  );
+}
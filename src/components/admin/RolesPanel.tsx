@@ -0,0 +1,279 @@
+'use client';
+
+import { useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+import { PERMISSIONS, ALL_PERMISSIONS, SUPERUSER_ROLE, Permission } from '@/lib/auth/permissions';
+
+export interface Role {
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  inherits: string[];
+  built_in: boolean;
+}
+
+type RoleEdit = Pick<Role, 'permissions' | 'inherits'>;
+
+interface RolesPanelProps {
+  roles: Role[];
+  // Called after any change so the parent can refresh the role list
+  onChange: () => void;
+}
+
+export default function RolesPanel({ roles, onChange }: RolesPanelProps) {
+  const [error, setError] = useState('');
+  const [edits, setEdits] = useState<Record<string, RoleEdit>>({});
+  const [newRole, setNewRole] = useState({
+    name: '',
+    description: '',
+    permissions: [] as Permission[],
+    inherits: [] as string[],
+  });
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value)
+      ? values.filter(v => v !== value)
+      : [...values, value];
+
+  const handleCreateRole = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authenticatedRequest('/api/admin/roles', {
+        method: 'POST',
+        body: JSON.stringify(newRole),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create role');
+      }
+
+      setNewRole({ name: '', description: '', permissions: [], inherits: [] });
+      setError('');
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create role');
+    }
+  };
+
+  const handleSaveRole = async (role: Role) => {
+    try {
+      const response = await authenticatedRequest(`/api/admin/roles/${encodeURIComponent(role.name)}`, {
+        method: 'PATCH',
+        body: JSON.stringify({
+          description: role.description,
+          permissions: edits[role.name].permissions,
+          inherits: edits[role.name].inherits,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update role');
+      }
+
+      const remaining = { ...edits };
+      delete remaining[role.name];
+      setEdits(remaining);
+      setError('');
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update role');
+    }
+  };
+
+  const handleDeleteRole = async (role: Role) => {
+    if (!confirm(`Are you sure you want to delete the ${role.name} role?`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedRequest(`/api/admin/roles/${encodeURIComponent(role.name)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete role');
+      }
+
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete role');
+    }
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Roles
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Each role grants a set of permissions and inherits everything granted to its parent roles, so it also satisfies checks for them. The {SUPERUSER_ROLE} role always has every permission and satisfies every role.
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Role
+              </th>
+              {ALL_PERMISSIONS.map((permission) => (
+                <th
+                  key={permission}
+                  title={PERMISSIONS[permission]}
+                  className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  {permission}
+                </th>
+              ))}
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Inherits
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {roles.map((role) => {
+              const locked = role.name === SUPERUSER_ROLE;
+              const current = edits[role.name] || { permissions: role.permissions, inherits: role.inherits };
+
+              return (
+                <tr key={role.name}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">
+                      {role.name}
+                      {role.built_in && <span className="ml-2 text-xs text-gray-400">built in</span>}
+                    </div>
+                    {role.description && (
+                      <div className="text-sm text-gray-500">
+                        {role.description}
+                      </div>
+                    )}
+                  </td>
+                  {ALL_PERMISSIONS.map((permission) => (
+                    <td key={permission} className="px-3 py-4 text-center">
+                      <input
+                        type="checkbox"
+                        disabled={locked}
+                        checked={locked || current.permissions.includes(permission)}
+                        onChange={() => setEdits({ ...edits, [role.name]: { ...current, permissions: toggle(current.permissions, permission) } })}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {locked ? (
+                      'all roles'
+                    ) : (
+                      <div className="flex flex-wrap gap-3">
+                        {roles.filter(parent => parent.name !== role.name && parent.name !== SUPERUSER_ROLE).map((parent) => (
+                          <label key={parent.name} className="flex items-center">
+                            <input
+                              type="checkbox"
+                              className="mr-1"
+                              checked={current.inherits.includes(parent.name)}
+                              onChange={() => setEdits({ ...edits, [role.name]: { ...current, inherits: toggle(current.inherits, parent.name) } })}
+                            />
+                            {parent.name}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                    {edits[role.name] && (
+                      <button
+                        onClick={() => handleSaveRole(role)}
+                        className="btn btn-sm btn-primary"
+                      >
+                        Save
+                      </button>
+                    )}
+                    {!role.built_in && (
+                      <button
+                        onClick={() => handleDeleteRole(role)}
+                        className="btn btn-sm btn-danger"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleCreateRole} className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Role Name
+            </label>
+            <input
+              type="text"
+              required
+              placeholder="support"
+              value={newRole.name}
+              onChange={(e) => setNewRole({ ...newRole, name: e.target.value })}
+              className="input"
+            />
+          </div>
+          <div className="flex-1 min-w-[12rem]">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Description
+            </label>
+            <input
+              type="text"
+              value={newRole.description}
+              onChange={(e) => setNewRole({ ...newRole, description: e.target.value })}
+              className="input w-full"
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {ALL_PERMISSIONS.map((permission) => (
+            <label key={permission} className="flex items-center text-sm text-gray-700" title={PERMISSIONS[permission]}>
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={newRole.permissions.includes(permission)}
+                onChange={() => setNewRole({ ...newRole, permissions: toggle(newRole.permissions, permission) })}
+              />
+              {permission}
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="text-sm font-medium text-gray-700">Inherits from</span>
+          {roles.filter(parent => parent.name !== SUPERUSER_ROLE).map((parent) => (
+            <label key={parent.name} className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={newRole.inherits.includes(parent.name)}
+                onChange={() => setNewRole({ ...newRole, inherits: toggle(newRole.inherits, parent.name) })}
+              />
+              {parent.name}
+            </label>
+          ))}
+        </div>
+        <button type="submit" className="btn btn-primary">
+          Create Role
+        </button>
+      </form>
+    </div>
+  );
+}
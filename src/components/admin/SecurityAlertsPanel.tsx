@@ -0,0 +1,193 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+
+interface SecurityAlert {
+  id: number;
+  kind: string;
+  subject_type: 'ip' | 'email' | 'user_agent';
+  subject: string;
+  severity: 'warning' | 'critical';
+  details: Record<string, any> | null;
+  blocked_until: string | null;
+  created_at: string;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  brute_force: 'Brute force',
+  email_probing: 'Email probing',
+  account_targeted: 'Account targeted',
+  credential_stuffing: 'Credential stuffing',
+  impossible_travel: 'Impossible travel',
+};
+
+function describeDetails(details: Record<string, any> | null): string {
+  if (!details) {
+    return '-';
+  }
+
+  return Object.keys(details).map(key => `${key.replace(/_/g, ' ')}: ${details[key]}`).join(', ');
+}
+
+export default function SecurityAlertsPanel() {
+  const [alerts, setAlerts] = useState<SecurityAlert[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/alerts?status=${showAll ? 'all' : 'open'}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch security alerts');
+      }
+      const data = await response.json();
+      setAlerts(data.alerts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch security alerts');
+    }
+  }, [showAll]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  const handleAction = async (alert: SecurityAlert, action: 'acknowledge' | 'unblock') => {
+    if (action === 'unblock' && !confirm(`Are you sure you want to lift the block on ${alert.subject}?`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedRequest(`/api/admin/alerts/${alert.id}/${action}`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to ${action} alert`);
+      }
+
+      setError('');
+      fetchAlerts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} alert`);
+    }
+  };
+
+  const isBlocking = (alert: SecurityAlert) => !!alert.blocked_until && new Date(alert.blocked_until).getTime() > Date.now();
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">
+            Security Alerts
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Raised from failed sign-ins and unauthenticated API requests. Brute force and attacks on one account
+            block the IP address or email for a while.
+          </p>
+        </div>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+            className="mr-2"
+          />
+          Show acknowledged
+        </label>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Alert
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Subject
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Details
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Raised
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {alerts.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  No security alerts
+                </td>
+              </tr>
+            )}
+            {alerts.map((alert) => (
+              <tr key={alert.id}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    alert.severity === 'critical'
+                      ? 'bg-red-100 text-red-800'
+                      : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {KIND_LABELS[alert.kind] || alert.kind}
+                  </span>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  <span className="font-mono break-all">{alert.subject}</span>
+                  {isBlocking(alert) && (
+                    <div className="text-xs text-red-600">
+                      Blocked until {new Date(alert.blocked_until!).toLocaleTimeString()}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {describeDetails(alert.details)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(alert.created_at).toLocaleString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                  {isBlocking(alert) && (
+                    <button
+                      onClick={() => handleAction(alert, 'unblock')}
+                      className="btn btn-sm btn-secondary"
+                    >
+                      Lift Block
+                    </button>
+                  )}
+                  {alert.acknowledged_at ? (
+                    <span className="text-gray-500">
+                      Acknowledged by {alert.acknowledged_by}
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => handleAction(alert, 'acknowledge')}
+                      className="btn btn-sm btn-primary"
+                    >
+                      Acknowledge
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
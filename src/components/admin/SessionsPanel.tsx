@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+
+interface Session {
+  id: string;
+  email: string;
+  created_at: string;
+  expires_at: string;
+  last_accessed: string;
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+export default function SessionsPanel() {
+  const [filter, setFilter] = useState('');
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchSessions(filter);
+  }, [filter]);
+
+  const fetchSessions = async (emailFilter: string) => {
+    try {
+      const query = emailFilter ? `?email=${encodeURIComponent(emailFilter)}` : '';
+      const response = await fetch(`/api/admin/sessions${query}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch sessions');
+      }
+      const data = await response.json();
+      setSessions(data.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch sessions');
+    }
+  };
+
+  const handleTerminate = async (session: Session) => {
+    if (!confirm(`Terminate this session for ${session.email}?`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedRequest(`/api/admin/sessions/${session.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to terminate session');
+      }
+
+      setMessage(`Terminated a session for ${session.email}`);
+      fetchSessions(filter);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to terminate session');
+    }
+  };
+
+  const handleTerminateAll = async (userEmail: string) => {
+    if (!confirm(`Terminate every session for ${userEmail}?`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedRequest(`/api/admin/sessions?email=${encodeURIComponent(userEmail)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to terminate sessions');
+      }
+
+      const data = await response.json();
+      setMessage(`Terminated ${data.terminated} session(s) for ${userEmail}`);
+      fetchSessions(filter);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to terminate sessions');
+    }
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Active Sessions
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Everyone signed in right now. Terminating a session signs that device out on its next request.
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="alert alert-success mb-6">
+          {message}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <input
+          type="email"
+          placeholder="Filter by email..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="input w-full max-w-md"
+        />
+        {filter && sessions.length > 0 && (
+          <button
+            onClick={() => handleTerminateAll(filter)}
+            className="btn btn-danger"
+          >
+            Terminate All for User
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Email
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                IP Address
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                User Agent
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Signed In
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Last Seen
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {sessions.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  No active sessions{filter && ` for ${filter}`}
+                </td>
+              </tr>
+            )}
+            {sessions.map((session) => (
+              <tr key={session.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  <button
+                    onClick={() => setFilter(session.email)}
+                    className="hover:underline"
+                    title="Show only this user's sessions"
+                  >
+                    {session.email}
+                  </button>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">
+                  {session.ip_address || '-'}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate" title={session.user_agent || undefined}>
+                  {session.user_agent || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(session.created_at).toLocaleString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(session.last_accessed).toLocaleString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => handleTerminate(session)}
+                    className="btn btn-sm btn-danger"
+                  >
+                    Terminate
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { authenticatedRequest } from '@/lib/csrf-client';
+
+interface Webhook {
+  id: number;
+  url: string;
+  events: string[];
+  description: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  url: string;
+  event: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  replay_of: number | null;
+  next_attempt_at: string | null;
+  created_at: string;
+}
+
+const EVENTS = ['user.added', 'user.removed', 'user.toggled', 'user.role_changed'];
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  succeeded: 'bg-success-100 text-success-800',
+  failed: 'bg-red-100 text-red-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+};
+
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+export default function WebhooksPanel() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [selectedWebhook, setSelectedWebhook] = useState<number | null>(null);
+  const [error, setError] = useState('');
+  const [secret, setSecret] = useState('');
+  const [newWebhook, setNewWebhook] = useState({
+    url: '',
+    events: EVENTS,
+    description: '',
+  });
+
+  const fetchWebhooks = async () => {
+    try {
+      const response = await fetch('/api/admin/webhooks');
+      if (!response.ok) {
+        throw new Error('Failed to fetch webhooks');
+      }
+      const data = await response.json();
+      setWebhooks(data.webhooks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhooks');
+    }
+  };
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/webhook-deliveries${selectedWebhook ? `?webhook_id=${selectedWebhook}` : ''}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch webhook deliveries');
+      }
+      const data = await response.json();
+      setDeliveries(data.deliveries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhook deliveries');
+    }
+  }, [selectedWebhook]);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, []);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const handleAddWebhook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authenticatedRequest('/api/admin/webhooks', {
+        method: 'POST',
+        body: JSON.stringify(newWebhook),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add webhook');
+      }
+
+      const data = await response.json();
+      setSecret(data.secret);
+      setNewWebhook({ url: '', events: EVENTS, description: '' });
+      setError('');
+      fetchWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add webhook');
+    }
+  };
+
+  const handleRemoveWebhook = async (webhook: Webhook) => {
+    if (!confirm(`Are you sure you want to remove the webhook for ${webhook.url}? Its delivery log is removed too.`)) {
+      return;
+    }
+
+    try {
+      const response = await authenticatedRequest(`/api/admin/webhooks/${webhook.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove webhook');
+      }
+
+      if (selectedWebhook === webhook.id) {
+        setSelectedWebhook(null);
+      }
+      setError('');
+      fetchWebhooks();
+      fetchDeliveries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove webhook');
+    }
+  };
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    try {
+      const response = await authenticatedRequest(`/api/admin/webhook-deliveries/${delivery.id}/replay`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to replay delivery');
+      }
+
+      setError('');
+      fetchDeliveries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replay delivery');
+    }
+  };
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">
+          Webhooks
+        </h2>
+        <p className="mt-1 text-sm text-gray-500">
+          Endpoints told when users are added, removed, enabled or disabled, or change role. Requests are signed
+          with the webhook&apos;s secret in the X-Signature header.
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-6">
+          {error}
+        </div>
+      )}
+
+      {secret && (
+        <div className="alert alert-success mb-6">
+          Signing secret, shown only once: <span className="font-mono break-all">{secret}</span>
+        </div>
+      )}
+
+      <form onSubmit={handleAddWebhook} className="space-y-4 mb-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[16rem]">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              URL
+            </label>
+            <input
+              type="url"
+              required
+              placeholder="https://provisioning.example.com/hooks/users"
+              value={newWebhook.url}
+              onChange={(e) => setNewWebhook({ ...newWebhook, url: e.target.value })}
+              className="input w-full"
+            />
+          </div>
+          <div className="flex-1 min-w-[12rem]">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Description
+            </label>
+            <input
+              type="text"
+              placeholder="Optional"
+              value={newWebhook.description}
+              onChange={(e) => setNewWebhook({ ...newWebhook, description: e.target.value })}
+              className="input w-full"
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {EVENTS.map((event) => (
+            <label key={event} className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={newWebhook.events.includes(event)}
+                onChange={() => setNewWebhook({ ...newWebhook, events: toggle(newWebhook.events, event) })}
+              />
+              {event}
+            </label>
+          ))}
+        </div>
+        <button type="submit" className="btn btn-primary" disabled={newWebhook.events.length === 0}>
+          Add Webhook
+        </button>
+      </form>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                URL
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Events
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Description
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Added By
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {webhooks.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  No webhooks registered
+                </td>
+              </tr>
+            )}
+            {webhooks.map((webhook) => (
+              <tr key={webhook.id}>
+                <td className="px-6 py-4 text-sm font-mono text-gray-900 break-all">
+                  {webhook.url}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {webhook.events.join(', ')}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500">
+                  {webhook.description || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {webhook.created_by || '-'}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                  <button
+                    onClick={() => setSelectedWebhook(selectedWebhook === webhook.id ? null : webhook.id)}
+                    className="btn btn-sm btn-secondary"
+                  >
+                    {selectedWebhook === webhook.id ? 'All Deliveries' : 'Deliveries'}
+                  </button>
+                  <button
+                    onClick={() => handleRemoveWebhook(webhook)}
+                    className="btn btn-sm btn-secondary"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-medium text-gray-900">
+          Delivery Log
+        </h3>
+        <button onClick={fetchDeliveries} className="btn btn-sm btn-secondary">
+          Refresh
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Event
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Endpoint
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Sent
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {deliveries.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-sm text-gray-500 text-center">
+                  No deliveries yet
+                </td>
+              </tr>
+            )}
+            {deliveries.map((delivery) => (
+              <tr key={delivery.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {delivery.event}
+                  {delivery.replay_of && (
+                    <div className="text-xs text-gray-500">
+                      Replay of #{delivery.replay_of}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm font-mono text-gray-500 break-all">
+                  {delivery.url}
+                </td>
+                <td className="px-6 py-4 text-sm">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[delivery.status]}`}>
+                    {delivery.status}
+                  </span>
+                  <div className="text-xs text-gray-500">
+                    {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                    {delivery.response_status !== null && `, HTTP ${delivery.response_status}`}
+                  </div>
+                  {delivery.error && (
+                    <div className="text-xs text-red-600">
+                      {delivery.error}
+                    </div>
+                  )}
+                  {delivery.status === 'pending' && delivery.next_attempt_at && (
+                    <div className="text-xs text-gray-500">
+                      Next attempt {new Date(delivery.next_attempt_at).toLocaleString()}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(delivery.created_at).toLocaleString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => handleReplay(delivery)}
+                    className="btn btn-sm btn-secondary"
+                  >
+                    Replay
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
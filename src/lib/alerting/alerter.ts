@@ -0,0 +1,259 @@
+import { query } from '../database/connection';
+import { allowListService } from '../auth/allowlist';
+import { SUPERUSER_ROLE } from '../auth/permissions';
+import { AlertMessage, AlertSink, AlertTrigger, createSinksFromEnv } from './sinks';
+
+export const ALERT_TRIGGERS: AlertTrigger[] = ['admin_added', 'admin_role_granted', 'bulk_removal', 'denial_spike', 'last_admin_disabled'];
+
+export const alertingConfig = {
+  // Delivery attempts per sink before the alert is dead-lettered
+  attempts: 3,
+  // Wait before the first retry; doubles for each one after
+  retryDelayMs: 1000,
+  // bulk_removal: this many users removed within the window, by anyone
+  bulkRemoval: { count: 5, windowSeconds: 600 },
+  // denial_spike: this many login_deny / api_deny entries within the window
+  denialSpike: { count: 100, windowSeconds: 300 },
+};
+
+export interface DeadLetter {
+  id: number;
+  sink: string;
+  trigger: AlertTrigger;
+  payload: AlertMessage;
+  error: string;
+  attempts: number;
+  created_at: Date;
+}
+
+// The audit entry fields triggers look at
+export interface AlertableEvent {
+  email: string | null;
+  event: string;
+  details?: Record<string, any>;
+}
+
+// ALERT_TRIGGERS limits which triggers fire, e.g. "admin_added,last_admin_disabled"; all of them by default
+export function getEnabledTriggers(): AlertTrigger[] {
+  const configured = (process.env.ALERT_TRIGGERS || '')
+    .split(',')
+    .map(trigger => trigger.trim())
+    .filter(Boolean);
+
+  return configured.length > 0
+    ? ALERT_TRIGGERS.filter(trigger => configured.includes(trigger))
+    : ALERT_TRIGGERS;
+}
+
+// Events after which the admin count may have dropped to zero
+function mayRemoveAdmin(entry: AlertableEvent): boolean {
+  switch (entry.event) {
+    case 'admin_remove_user':
+      return true;
+    case 'admin_toggle_user':
+      return entry.details?.new_status === false;
+    case 'admin_unassign_role':
+    case 'access_expired':
+      return entry.details?.role === SUPERUSER_ROLE;
+    default:
+      return false;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+class Alerter {
+  private sinks: AlertSink[] | null = null;
+  // Deliveries still retrying, so tests and shutdown can wait for them
+  private pending = new Set<Promise<void>>();
+  // Timestamps of recent events for the rate triggers, at most `count` each
+  private recent: Record<'bulk_removal' | 'denial_spike', number[]> = { bulk_removal: [], denial_spike: [] };
+  private quietUntil: Record<'bulk_removal' | 'denial_spike', number> = { bulk_removal: 0, denial_spike: 0 };
+
+  setSinks(sinks: AlertSink[]): void {
+    this.sinks = sinks;
+  }
+
+  // Fed every audit entry; never throws. Deliveries continue in the background.
+  async observe(entry: AlertableEvent): Promise<void> {
+    try {
+      const alerts = await this.evaluate(entry);
+      const enabled = getEnabledTriggers();
+
+      alerts
+        .filter(alert => enabled.includes(alert.trigger))
+        .forEach(alert => this.dispatch(alert));
+    } catch (error) {
+      console.error('Alert trigger error:', error);
+    }
+  }
+
+  // Waits for deliveries in flight, retries included
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  async getDeadLetters(limit: number = 100): Promise<{ deadLetters: DeadLetter[]; error?: string }> {
+    try {
+      const result = await query(
+        'SELECT id, sink, trigger, payload, error, attempts, created_at FROM auth_alert_dead_letters ORDER BY created_at DESC LIMIT $1',
+        [limit]
+      );
+
+      return { deadLetters: result.rows as DeadLetter[] };
+    } catch (error) {
+      console.error('Get dead letters error:', error);
+      return {
+        deadLetters: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  reset(): void {
+    this.recent = { bulk_removal: [], denial_spike: [] };
+    this.quietUntil = { bulk_removal: 0, denial_spike: 0 };
+  }
+
+  private async evaluate(entry: AlertableEvent): Promise<AlertMessage[]> {
+    const ts = new Date().toISOString();
+    const by = entry.email || 'unknown';
+    const alerts: AlertMessage[] = [];
+
+    if (entry.event === 'admin_add_user' && entry.details?.role === SUPERUSER_ROLE) {
+      alerts.push({
+        trigger: 'admin_added', severity: 'warning', ts,
+        title: 'Admin added',
+        text: `${by} added ${entry.details.added_email} to the allow list as ${SUPERUSER_ROLE}`,
+        details: { added_email: entry.details.added_email, added_by: by },
+      });
+    }
+
+    if (entry.event === 'admin_approve_access_request' && entry.details?.granted_role === SUPERUSER_ROLE) {
+      alerts.push({
+        trigger: 'admin_added', severity: 'warning', ts,
+        title: 'Admin added',
+        text: `${by} approved ${entry.details.requester_email}'s access request as ${SUPERUSER_ROLE}`,
+        details: { added_email: entry.details.requester_email, added_by: by },
+      });
+    }
+
+    if (entry.event === 'invite_accepted' && entry.details?.role === SUPERUSER_ROLE) {
+      alerts.push({
+        trigger: 'admin_added', severity: 'warning', ts,
+        title: 'Admin added',
+        text: `${by} accepted an ${SUPERUSER_ROLE} invitation from ${entry.details.invited_by}`,
+        details: { added_email: by, added_by: entry.details.invited_by },
+      });
+    }
+
+    if (entry.event === 'admin_assign_role' && entry.details?.role === SUPERUSER_ROLE) {
+      alerts.push({
+        trigger: 'admin_role_granted', severity: 'warning', ts,
+        title: 'Admin role granted',
+        text: `${by} granted ${SUPERUSER_ROLE} to ${entry.details.assigned_email} in scope ${entry.details.scope}`,
+        details: { email: entry.details.assigned_email, scope: entry.details.scope, granted_by: by },
+      });
+    }
+
+    if (entry.event === 'admin_remove_user' && this.spiked('bulk_removal', alertingConfig.bulkRemoval)) {
+      alerts.push({
+        trigger: 'bulk_removal', severity: 'critical', ts,
+        title: 'Bulk user removal',
+        text: `${alertingConfig.bulkRemoval.count} users were removed from the allow list within ${alertingConfig.bulkRemoval.windowSeconds / 60} minutes, the last by ${by}`,
+        details: { ...alertingConfig.bulkRemoval, last_removed_by: by },
+      });
+    }
+
+    if ((entry.event === 'login_deny' || entry.event === 'api_deny') && this.spiked('denial_spike', alertingConfig.denialSpike)) {
+      alerts.push({
+        trigger: 'denial_spike', severity: 'warning', ts,
+        title: 'Denial spike',
+        text: `${alertingConfig.denialSpike.count} sign-ins or API requests were denied within ${alertingConfig.denialSpike.windowSeconds / 60} minutes`,
+        details: { ...alertingConfig.denialSpike },
+      });
+    }
+
+    if (mayRemoveAdmin(entry)) {
+      const { count, error } = await allowListService.countActiveAdmins();
+
+      if (!error && count === 0) {
+        alerts.push({
+          trigger: 'last_admin_disabled', severity: 'critical', ts,
+          title: 'No active admins left',
+          text: `Nobody holds the ${SUPERUSER_ROLE} role any more, after ${entry.event} (${by})`,
+          details: { event: entry.event, by, ...entry.details },
+        });
+      }
+    }
+
+    return alerts;
+  }
+
+  // Records the event and reports whether `count` of them fell within the window. Quiet for a window afterwards
+  // so one burst raises one alert.
+  private spiked(trigger: 'bulk_removal' | 'denial_spike', { count, windowSeconds }: { count: number; windowSeconds: number }): boolean {
+    const now = Date.now();
+    const times = [...this.recent[trigger], now].slice(-count);
+    this.recent[trigger] = times;
+
+    if (times.length < count || now - times[0] > windowSeconds * 1000 || now < this.quietUntil[trigger]) {
+      return false;
+    }
+
+    this.quietUntil[trigger] = now + windowSeconds * 1000;
+    return true;
+  }
+
+  private dispatch(alert: AlertMessage): void {
+    if (!this.sinks) {
+      this.sinks = createSinksFromEnv();
+    }
+
+    this.sinks.forEach(sink => {
+      const delivery: Promise<void> = this.deliver(sink, alert).then(() => {
+        this.pending.delete(delivery);
+      });
+      this.pending.add(delivery);
+    });
+  }
+
+  private async deliver(sink: AlertSink, alert: AlertMessage): Promise<void> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= alertingConfig.attempts; attempt++) {
+      try {
+        await sink.send(alert);
+        return;
+      } catch (error) {
+        lastError = error;
+
+        if (attempt < alertingConfig.attempts) {
+          await sleep(alertingConfig.retryDelayMs * Math.pow(2, attempt - 1));
+        }
+      }
+    }
+
+    const message = lastError instanceof Error ? lastError.message : 'Delivery failed';
+    console.error(`Alert delivery to ${sink.name} failed after ${alertingConfig.attempts} attempts:`, lastError);
+
+    try {
+      await query(
+        'INSERT INTO auth_alert_dead_letters (sink, trigger, payload, error, attempts) VALUES ($1, $2, $3, $4, $5)',
+        [sink.name, alert.trigger, JSON.stringify(alert), message, alertingConfig.attempts]
+      );
+    } catch (error) {
+      console.error('Dead letter error:', error);
+    }
+  }
+}
+
+// Singleton instance
+const alerter = new Alerter();
+
+export { alerter };
+export default alerter;
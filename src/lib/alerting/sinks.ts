@@ -0,0 +1,86 @@
+import { signPayload } from '../signing';
+
+export type AlertTrigger = 'admin_added' | 'admin_role_granted' | 'bulk_removal' | 'denial_spike' | 'last_admin_disabled';
+
+export interface AlertMessage {
+  trigger: AlertTrigger;
+  severity: 'warning' | 'critical';
+  title: string;
+  text: string;
+  details: Record<string, any>;
+  // ISO timestamp of when the trigger fired
+  ts: string;
+}
+
+// Implement this to plug in another destination (e.g. a pager); send() throws when delivery fails
+export interface AlertSink {
+  name: string;
+  send(alert: AlertMessage): Promise<void>;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+async function post(url: string, body: string, headers: Record<string, string>, timeoutMs: number): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status}`);
+  }
+}
+
+// Posts to a Slack incoming webhook
+export class SlackSink implements AlertSink {
+  name = 'slack';
+
+  constructor(private webhookUrl: string, private timeoutMs: number = DEFAULT_TIMEOUT_MS) {}
+
+  async send(alert: AlertMessage): Promise<void> {
+    const icon = alert.severity === 'critical' ? ':rotating_light:' : ':warning:';
+    const body = JSON.stringify({ text: `${icon} *${alert.title}*\n${alert.text}` });
+
+    await post(this.webhookUrl, body, {}, this.timeoutMs);
+  }
+}
+
+// Posts the alert as JSON, signed in the X-Signature header (sha256=<hex>) over X-Signature-Timestamp
+export class WebhookSink implements AlertSink {
+  name = 'webhook';
+
+  constructor(private url: string, private secret: string, private timeoutMs: number = DEFAULT_TIMEOUT_MS) {}
+
+  async send(alert: AlertMessage): Promise<void> {
+    const body = JSON.stringify(alert);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    await post(this.url, body, {
+      'X-Signature-Timestamp': timestamp.toString(),
+      'X-Signature': `sha256=${signPayload(this.secret, timestamp, body)}`,
+    }, this.timeoutMs);
+  }
+}
+
+// SLACK_WEBHOOK_URL and ALERT_WEBHOOK_URL (with ALERT_WEBHOOK_SECRET) each add a sink; neither means no alerts.
+// A webhook without its secret is left out rather than failing, so the other sinks still get alerts
+// (env validation already reports it at startup).
+export function createSinksFromEnv(): AlertSink[] {
+  const sinks: AlertSink[] = [];
+
+  if (process.env.SLACK_WEBHOOK_URL) {
+    sinks.push(new SlackSink(process.env.SLACK_WEBHOOK_URL));
+  }
+
+  if (process.env.ALERT_WEBHOOK_URL) {
+    if (process.env.ALERT_WEBHOOK_SECRET) {
+      sinks.push(new WebhookSink(process.env.ALERT_WEBHOOK_URL, process.env.ALERT_WEBHOOK_SECRET));
+    } else {
+      console.warn('ALERT_WEBHOOK_URL is set without ALERT_WEBHOOK_SECRET; alerts are not sent to it');
+    }
+  }
+
+  return sinks;
+}
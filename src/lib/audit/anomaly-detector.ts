@@ -0,0 +1,321 @@
+import { query } from '../database/connection';
+import { toInet } from '../client-ip';
+import { blockTemporarily, liftTemporaryBlock, BlockSubject } from '../rate-limit';
+
+export type AlertKind = 'brute_force' | 'email_probing' | 'account_targeted' | 'credential_stuffing' | 'impossible_travel';
+export type AlertSubjectType = 'ip' | 'email' | 'user_agent';
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface SecurityAlert {
+  id: number;
+  kind: AlertKind;
+  subject_type: AlertSubjectType;
+  subject: string;
+  severity: AlertSeverity;
+  details: Record<string, any> | null;
+  // Set when the alert blocked its subject through the rate-limit layer
+  blocked_until: Date | null;
+  created_at: Date;
+  acknowledged_by: string | null;
+  acknowledged_at: Date | null;
+}
+
+// The audit entry fields the detector looks at
+export interface ObservedEvent {
+  email: string | null;
+  event: string;
+  ip: string | null;
+  user_agent: string | null;
+  details?: Record<string, any>;
+}
+
+// Thresholds over a sliding window of denials, counted per instance
+export const anomalyConfig = {
+  windowSeconds: 600,
+  // brute_force: denials from one IP
+  bruteForceDenials: 20,
+  // email_probing: different emails denied from one IP. Only alerts: uninvited colleagues behind one NAT look
+  // the same
+  probingEmails: 5,
+  // account_targeted: different IPs denied for one email
+  targetedAccountIps: 5,
+  // credential_stuffing: one user agent denied from this many IPs for this many emails
+  stuffingIps: 10,
+  stuffingEmails: 10,
+  // impossible_travel: the same email from two networks this close together
+  travelSeconds: 300,
+  // How long brute_force and account_targeted block their subject
+  blockSeconds: 900,
+};
+
+const ACCESS_EVENTS = ['login_allow', 'api_allow'];
+
+// Login denials that say nothing about the caller's intent: sessions running out, network rules and our
+// own failures
+const IGNORED_REASONS = ['session_expired', 'session_ended', 'session_error', 'network_rules_error', 'network_denied', 'network_not_allowed'];
+
+// Only failed sign-ins and unauthenticated API calls count. Signed-in users refused a route (e.g. a viewer
+// opening /admin) are authorization denials, and blocking their IP would lock out everyone sharing it.
+function isAuthenticationFailure(entry: ObservedEvent): boolean {
+  const reason = entry.details?.reason;
+
+  if (entry.event === 'login_deny') {
+    return !IGNORED_REASONS.includes(reason);
+  }
+
+  return entry.event === 'api_deny' && reason === 'unauthenticated';
+}
+
+const ALERT_COLUMNS = 'id, kind, subject_type, subject, severity, details, blocked_until, created_at, acknowledged_by, acknowledged_at';
+
+// Keys tracked per map and denials kept per key, so a flood can't exhaust memory
+const MAX_KEYS = 10000;
+const MAX_DENIALS_PER_KEY = 200;
+
+interface Denial {
+  ts: number;
+  ip: string | null;
+  email: string | null;
+}
+
+// Two addresses are on the same network when they share an IPv4 /16 or an IPv6 /48
+export function networkOf(ip: string): string {
+  if (ip.includes(':')) {
+    const [head, tail] = ip.split('::');
+    const left = head ? head.split(':') : [];
+    const right = tail ? tail.split(':') : [];
+    const groups = tail === undefined ? left : [...left, ...Array(8 - left.length - right.length).fill('0'), ...right];
+
+    return groups.slice(0, 3).map(group => parseInt(group, 16).toString(16)).join(':');
+  }
+
+  return ip.split('.').slice(0, 2).join('.');
+}
+
+function distinct(values: (string | null)[]): string[] {
+  return values.filter((value, index): value is string => !!value && values.indexOf(value) === index);
+}
+
+class AnomalyDetector {
+  private denialsByIp = new Map<string, Denial[]>();
+  private denialsByEmail = new Map<string, Denial[]>();
+  private denialsByAgent = new Map<string, Denial[]>();
+  private lastAccess = new Map<string, { ip: string; ts: number }>();
+  // `${kind}:${subject}` -> when the same alert may be raised again
+  private raised = new Map<string, number>();
+
+  // Fed every audit entry; never throws, so logging can't fail because of it
+  async observe(entry: ObservedEvent): Promise<void> {
+    try {
+      if (isAuthenticationFailure(entry)) {
+        await this.observeDenial(entry);
+      } else if (ACCESS_EVENTS.includes(entry.event)) {
+        await this.observeAccess(entry);
+      }
+    } catch (error) {
+      console.error('Anomaly detection error:', error);
+    }
+  }
+
+  async getAlerts(status: 'open' | 'all' = 'open', limit: number = 100): Promise<{ alerts: SecurityAlert[]; error?: string }> {
+    try {
+      const result = await query(
+        `SELECT ${ALERT_COLUMNS} FROM auth_security_alerts ${status === 'open' ? 'WHERE acknowledged_at IS NULL' : ''} ORDER BY created_at DESC LIMIT $1`,
+        [limit]
+      );
+
+      return { alerts: result.rows as SecurityAlert[] };
+    } catch (error) {
+      console.error('Get security alerts error:', error);
+      return {
+        alerts: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async acknowledgeAlert(id: number, acknowledgedBy: string): Promise<{ success: boolean; alert?: SecurityAlert; error?: string }> {
+    try {
+      const result = await query(
+        `UPDATE auth_security_alerts SET acknowledged_by = $2, acknowledged_at = now() WHERE id = $1 AND acknowledged_at IS NULL RETURNING ${ALERT_COLUMNS}`,
+        [id, acknowledgedBy]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Alert not found or already acknowledged' };
+      }
+
+      return { success: true, alert: result.rows[0] as SecurityAlert };
+    } catch (error) {
+      console.error('Acknowledge security alert error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Ends the block an alert placed before it expires, e.g. for a false positive
+  async liftBlock(id: number): Promise<{ success: boolean; alert?: SecurityAlert; error?: string }> {
+    try {
+      const result = await query(
+        `UPDATE auth_security_alerts SET blocked_until = now() WHERE id = $1 AND blocked_until > now() RETURNING ${ALERT_COLUMNS}`,
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Alert not found or not blocking' };
+      }
+
+      const alert = result.rows[0] as SecurityAlert;
+      await liftTemporaryBlock(alert.subject_type as BlockSubject, alert.subject);
+      // A fresh attack may raise the alert again straight away
+      this.raised.delete(`${alert.kind}:${alert.subject}`);
+
+      return { success: true, alert };
+    } catch (error) {
+      console.error('Lift block error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  reset(): void {
+    this.denialsByIp.clear();
+    this.denialsByEmail.clear();
+    this.denialsByAgent.clear();
+    this.lastAccess.clear();
+    this.raised.clear();
+  }
+
+  private async observeDenial(entry: ObservedEvent): Promise<void> {
+    const ip = toInet(entry.ip);
+    const email = entry.email ? entry.email.toLowerCase().trim() : null;
+    const denial: Denial = { ts: Date.now(), ip, email };
+
+    if (ip) {
+      const fromIp = this.record(this.denialsByIp, ip, denial);
+      const emails = distinct(fromIp.map(d => d.email));
+
+      if (emails.length >= anomalyConfig.probingEmails) {
+        await this.raise('email_probing', 'ip', ip, 'warning', { emails: emails.length, denials: fromIp.length }, false);
+      }
+
+      if (fromIp.length >= anomalyConfig.bruteForceDenials) {
+        await this.raise('brute_force', 'ip', ip, 'critical', { denials: fromIp.length }, true);
+      }
+    }
+
+    if (email) {
+      const forEmail = this.record(this.denialsByEmail, email, denial);
+      const ips = distinct(forEmail.map(d => d.ip));
+
+      if (ips.length >= anomalyConfig.targetedAccountIps) {
+        await this.raise('account_targeted', 'email', email, 'critical', { ips: ips.length, denials: forEmail.length }, true);
+      }
+    }
+
+    if (entry.user_agent) {
+      const fromAgent = this.record(this.denialsByAgent, entry.user_agent, denial);
+      const ips = distinct(fromAgent.map(d => d.ip));
+      const emails = distinct(fromAgent.map(d => d.email));
+
+      // A user agent is shared by many honest clients and trivially changed, so this only alerts
+      if (ips.length >= anomalyConfig.stuffingIps && emails.length >= anomalyConfig.stuffingEmails) {
+        await this.raise('credential_stuffing', 'user_agent', entry.user_agent, 'warning', { ips: ips.length, emails: emails.length }, false);
+      }
+    }
+  }
+
+  // Without geolocation, a jump between networks within minutes stands in for travel nobody could make
+  private async observeAccess(entry: ObservedEvent): Promise<void> {
+    const ip = toInet(entry.ip);
+
+    if (!ip || !entry.email) {
+      return;
+    }
+
+    const email = entry.email.toLowerCase().trim();
+    const now = Date.now();
+    const previous = this.lastAccess.get(email);
+
+    this.track(this.lastAccess, email, { ip, ts: now });
+
+    if (previous && networkOf(previous.ip) !== networkOf(ip) && now - previous.ts < anomalyConfig.travelSeconds * 1000) {
+      await this.raise('impossible_travel', 'email', email, 'warning', {
+        from_ip: previous.ip,
+        to_ip: ip,
+        seconds: Math.round((now - previous.ts) / 1000),
+      }, false);
+    }
+  }
+
+  // Adds the denial to the key's window and returns the denials still inside it
+  private record(map: Map<string, Denial[]>, key: string, denial: Denial): Denial[] {
+    const since = denial.ts - anomalyConfig.windowSeconds * 1000;
+    const denials = (map.get(key) || []).filter(d => d.ts > since);
+
+    denials.push(denial);
+    this.track(map, key, denials.slice(-MAX_DENIALS_PER_KEY));
+
+    return denials;
+  }
+
+  // Re-inserts so the Map's order stays least recently seen first, evicting past MAX_KEYS
+  private track<T>(map: Map<string, T>, key: string, value: T): void {
+    map.delete(key);
+
+    if (map.size >= MAX_KEYS) {
+      const oldest = map.keys().next().value;
+      if (oldest !== undefined) {
+        map.delete(oldest);
+      }
+    }
+
+    map.set(key, value);
+  }
+
+  private async raise(
+    kind: AlertKind,
+    subjectType: AlertSubjectType,
+    subject: string,
+    severity: AlertSeverity,
+    details: Record<string, any>,
+    block: boolean
+  ): Promise<void> {
+    const key = `${kind}:${subject}`;
+    const now = Date.now();
+
+    // One alert per subject and kind while it is blocked, or per window when it isn't
+    if ((this.raised.get(key) || 0) > now) {
+      return;
+    }
+
+    const cooldownSeconds = block ? anomalyConfig.blockSeconds : anomalyConfig.windowSeconds;
+    this.raised.forEach((until, existing) => {
+      if (until <= now) {
+        this.raised.delete(existing);
+      }
+    });
+    this.raised.set(key, now + cooldownSeconds * 1000);
+
+    const blockedUntil = block
+      ? (await blockTemporarily(subjectType as BlockSubject, subject, anomalyConfig.blockSeconds, kind)).until
+      : null;
+
+    console.warn(`Security alert: ${kind} from ${subjectType} ${subject}${block ? `, blocked for ${anomalyConfig.blockSeconds}s` : ''}`);
+
+    await query(
+      'INSERT INTO auth_security_alerts (kind, subject_type, subject, severity, details, blocked_until) VALUES ($1, $2, $3, $4, $5, $6)',
+      [kind, subjectType, subject, severity, JSON.stringify(details), blockedUntil ? new Date(blockedUntil) : null]
+    );
+  }
+}
+
+// Singleton instance
+const anomalyDetector = new AnomalyDetector();
+
+export { anomalyDetector };
+export default anomalyDetector;
@@ -0,0 +1,324 @@
+import { createHash } from 'crypto';
+import { PoolClient } from 'pg';
+import { query } from '../database/connection';
+import { signPayload } from '../signing';
+
+// prev_hash of the first chained entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Columns hashed into each entry, read back exactly as Postgres stores them
+export const CHAINED_COLUMNS = 'id, email, event, path, ip, user_agent, ts, details';
+
+export const auditChainConfig = {
+  // Entries read per query while verifying
+  batchSize: 1000,
+  // How often logEvent signs a checkpoint on its own, per instance (0 turns that off)
+  checkpointIntervalSeconds: 3600,
+};
+
+// Serializes writers so each entry links to the one written before it
+const CHAIN_LOCK_KEY = 7316041;
+
+// Written on every guarded API request. Chaining them would queue all API traffic, across every instance,
+// behind the chain lock, so they are stored without a hash and skipped by verify; they are not tamper-evident.
+export const UNCHAINED_EVENTS = ['api_allow'];
+
+export function isChainedEvent(event: string): boolean {
+  return UNCHAINED_EVENTS.indexOf(event) === -1;
+}
+
+export interface ChainedEntry {
+  id: number | string;
+  email: string | null;
+  event: string;
+  path: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  ts: Date | string;
+  details: Record<string, any> | string | null;
+}
+
+export interface AuditCheckpoint {
+  id: number;
+  last_entry_id: number;
+  last_hash: string;
+  signature: string;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export type ChainBreakReason = 'missing_hash' | 'prev_hash_mismatch' | 'hash_mismatch' | 'checkpoint_signature_invalid' | 'checkpoint_mismatch';
+
+// signatures_unverified: the links and checkpoint positions hold, but AUDIT_CHECKPOINT_SECRET isn't set here,
+// so nothing shows the chain wasn't recomputed after an edit
+export type ChainStatus = 'verified' | 'broken' | 'signatures_unverified' | 'error';
+
+export interface ChainVerification {
+  // Only true when every link and checkpoint signature was checked
+  valid: boolean;
+  status: ChainStatus;
+  entries_checked: number;
+  checkpoints_checked: number;
+  // The first entry (or checkpoint) where the chain no longer holds
+  first_broken?: { id: number; reason: ChainBreakReason; checkpoint_id?: number };
+  error?: string;
+}
+
+// JSON with object keys sorted at every level, so JSONB's key order doesn't change the hash
+export function canonicalJson(value: any): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value === undefined ? null : value);
+}
+
+// SHA-256 over the previous hash and the entry's stored values
+export function hashEntry(prevHash: string, entry: ChainedEntry): string {
+  const details = typeof entry.details === 'string' ? JSON.parse(entry.details) : entry.details;
+
+  return createHash('sha256')
+    .update(prevHash)
+    .update('\n')
+    .update(canonicalJson([
+      Number(entry.id),
+      entry.email,
+      entry.event,
+      entry.path,
+      entry.ip,
+      entry.user_agent,
+      new Date(entry.ts).toISOString(),
+      details,
+    ]))
+    .digest('hex');
+}
+
+// The string a checkpoint's signature covers, also given to auditors in the export
+export function checkpointPayload(checkpoint: Pick<AuditCheckpoint, 'last_entry_id' | 'last_hash'>): string {
+  return canonicalJson({ last_entry_id: Number(checkpoint.last_entry_id), last_hash: checkpoint.last_hash });
+}
+
+export function signCheckpoint(secret: string, checkpoint: Pick<AuditCheckpoint, 'last_entry_id' | 'last_hash' | 'created_at'>): string {
+  const timestamp = Math.floor(new Date(checkpoint.created_at).getTime() / 1000);
+  return signPayload(secret, timestamp, checkpointPayload(checkpoint));
+}
+
+class AuditChain {
+  private lastCheckpointCheck = 0;
+
+  // Writes an entry and its link inside the caller's transaction; the insert has to go through here so the
+  // hash covers what Postgres stored (normalized addresses, JSONB, timestamps). Chained writes are serialized,
+  // one lock, INSERT and UPDATE at a time across all instances, so keep per-request events in UNCHAINED_EVENTS.
+  async append(
+    client: PoolClient,
+    values: [string | null, string, string | null, string | null, string | null, string | null]
+  ): Promise<{ id: number; hash: string }> {
+    await client.query('SELECT pg_advisory_xact_lock($1)', [CHAIN_LOCK_KEY]);
+
+    const previous = await client.query(
+      'SELECT hash FROM auth_audit_log WHERE hash IS NOT NULL ORDER BY id DESC LIMIT 1'
+    );
+    const prevHash: string = previous.rows[0]?.hash || GENESIS_HASH;
+
+    const inserted = await client.query(
+      `INSERT INTO auth_audit_log (email, event, path, ip, user_agent, details) VALUES ($1, $2, $3, $4, $5, $6) RETURNING ${CHAINED_COLUMNS}`,
+      values
+    );
+    const entry = inserted.rows[0] as ChainedEntry;
+    const hash = hashEntry(prevHash, entry);
+
+    await client.query(
+      'UPDATE auth_audit_log SET prev_hash = $2, hash = $3 WHERE id = $1',
+      [entry.id, prevHash, hash]
+    );
+
+    return { id: Number(entry.id), hash };
+  }
+
+  // Walks the chain from its first entry and checks every signed checkpoint against it. Entries written
+  // before the chain existed have no hash and are skipped.
+  async verify(): Promise<ChainVerification> {
+    let entriesChecked = 0;
+
+    try {
+      let prevHash = GENESIS_HASH;
+      let started = false;
+      let afterId = 0;
+
+      for (;;) {
+        const batch = await query(
+          `SELECT ${CHAINED_COLUMNS}, prev_hash, hash FROM auth_audit_log WHERE id > $1 ORDER BY id LIMIT $2`,
+          [afterId, auditChainConfig.batchSize]
+        );
+
+        for (const row of batch.rows) {
+          const id = Number(row.id);
+          afterId = id;
+
+          if (!row.hash) {
+            if (started && isChainedEvent(row.event)) {
+              return { valid: false, status: 'broken', entries_checked: entriesChecked, checkpoints_checked: 0, first_broken: { id, reason: 'missing_hash' } };
+            }
+            continue;
+          }
+
+          started = true;
+          entriesChecked++;
+
+          // A deleted or reordered entry leaves the next one pointing at a hash that isn't its predecessor's
+          if (row.prev_hash !== prevHash) {
+            return { valid: false, status: 'broken', entries_checked: entriesChecked, checkpoints_checked: 0, first_broken: { id, reason: 'prev_hash_mismatch' } };
+          }
+
+          if (hashEntry(prevHash, row as ChainedEntry) !== row.hash) {
+            return { valid: false, status: 'broken', entries_checked: entriesChecked, checkpoints_checked: 0, first_broken: { id, reason: 'hash_mismatch' } };
+          }
+
+          prevHash = row.hash;
+        }
+
+        if (batch.rows.length < auditChainConfig.batchSize) {
+          break;
+        }
+      }
+
+      return { ...(await this.verifyCheckpoints()), entries_checked: entriesChecked };
+    } catch (error) {
+      console.error('Audit chain verification error:', error);
+      return {
+        valid: false,
+        status: 'error',
+        entries_checked: entriesChecked,
+        checkpoints_checked: 0,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Signs the latest link with AUDIT_CHECKPOINT_SECRET. Someone able to rewrite the table can recompute every
+  // hash after it, but not the signatures, so history before a checkpoint can't be changed unnoticed.
+  async createCheckpoint(createdBy: string | null): Promise<{ success: boolean; checkpoint?: AuditCheckpoint; error?: string }> {
+    const secret = process.env.AUDIT_CHECKPOINT_SECRET;
+
+    if (!secret) {
+      return { success: false, error: 'AUDIT_CHECKPOINT_SECRET is not configured' };
+    }
+
+    try {
+      const latest = await query(
+        'SELECT id, hash FROM auth_audit_log WHERE hash IS NOT NULL ORDER BY id DESC LIMIT 1'
+      );
+
+      if (latest.rows.length === 0) {
+        return { success: false, error: 'The audit log has no chained entries yet' };
+      }
+
+      const createdAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+      const checkpoint = { last_entry_id: Number(latest.rows[0].id), last_hash: latest.rows[0].hash as string, created_at: createdAt };
+
+      const result = await query(
+        'INSERT INTO auth_audit_checkpoints (last_entry_id, last_hash, signature, created_by, created_at) VALUES ($1, $2, $3, $4, $5) RETURNING id, last_entry_id, last_hash, signature, created_by, created_at',
+        [checkpoint.last_entry_id, checkpoint.last_hash, signCheckpoint(secret, checkpoint), createdBy, createdAt]
+      );
+
+      return { success: true, checkpoint: result.rows[0] as AuditCheckpoint };
+    } catch (error) {
+      console.error('Create audit checkpoint error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async getCheckpoints(limit: number = 100): Promise<{ checkpoints: AuditCheckpoint[]; error?: string }> {
+    try {
+      const result = await query(
+        'SELECT id, last_entry_id, last_hash, signature, created_by, created_at FROM auth_audit_checkpoints ORDER BY id DESC LIMIT $1',
+        [limit]
+      );
+
+      return { checkpoints: result.rows as AuditCheckpoint[] };
+    } catch (error) {
+      console.error('Get audit checkpoints error:', error);
+      return {
+        checkpoints: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Called after each logged entry; at most once an interval per instance, signs a checkpoint unless another
+  // instance already did. Never throws.
+  async checkpointIfDue(): Promise<void> {
+    const intervalMs = auditChainConfig.checkpointIntervalSeconds * 1000;
+    const now = Date.now();
+
+    if (!intervalMs || !process.env.AUDIT_CHECKPOINT_SECRET || now - this.lastCheckpointCheck < intervalMs) {
+      return;
+    }
+
+    this.lastCheckpointCheck = now;
+
+    try {
+      const recent = await query(
+        'SELECT 1 FROM auth_audit_checkpoints WHERE created_at > $1 LIMIT 1',
+        [new Date(now - intervalMs)]
+      );
+
+      if (recent.rows.length === 0) {
+        await this.createCheckpoint(null);
+      }
+    } catch (error) {
+      console.error('Audit checkpoint error:', error);
+    }
+  }
+
+  reset(): void {
+    this.lastCheckpointCheck = 0;
+  }
+
+  private async verifyCheckpoints(): Promise<Omit<ChainVerification, 'entries_checked'>> {
+    const secret = process.env.AUDIT_CHECKPOINT_SECRET;
+    const checkpoints = await query(
+      `SELECT c.id, c.last_entry_id, c.last_hash, c.signature, c.created_at, l.hash AS entry_hash
+       FROM auth_audit_checkpoints c LEFT JOIN auth_audit_log l ON l.id = c.last_entry_id
+       ORDER BY c.last_entry_id, c.id`
+    );
+
+    for (const checkpoint of checkpoints.rows) {
+      const id = Number(checkpoint.last_entry_id);
+      const checkpointId = Number(checkpoint.id);
+
+      if (secret && signCheckpoint(secret, checkpoint) !== checkpoint.signature) {
+        return { valid: false, status: 'broken', checkpoints_checked: checkpoints.rows.length, first_broken: { id, reason: 'checkpoint_signature_invalid', checkpoint_id: checkpointId } };
+      }
+
+      // The signed entry was deleted (e.g. the tail was truncated) or the chain was recomputed after editing
+      if (checkpoint.entry_hash !== checkpoint.last_hash) {
+        return { valid: false, status: 'broken', checkpoints_checked: checkpoints.rows.length, first_broken: { id, reason: 'checkpoint_mismatch', checkpoint_id: checkpointId } };
+      }
+    }
+
+    // Without the secret the checkpoints could have been rewritten along with the chain
+    if (!secret && checkpoints.rows.length > 0) {
+      return { valid: false, status: 'signatures_unverified', checkpoints_checked: checkpoints.rows.length };
+    }
+
+    return { valid: true, status: 'verified', checkpoints_checked: checkpoints.rows.length };
+  }
+}
+
+// Singleton instance
+const auditChain = new AuditChain();
+
+export { auditChain };
+export default auditChain;
@@ -1,4 +1,9 @@
-import { query } from '../database/connection';
+import { query, transaction } from '../database/connection';
+import { toInet } from '../client-ip';
+import { anomalyDetector } from './anomaly-detector';
+import { auditChain, isChainedEvent } from './hash-chain';
+import { alerter } from '../alerting/alerter';
+import { webhookService } from '../webhooks/webhooks';
 
 export type AuditEvent = 
   | 'login_allow'
@@ -8,10 +13,40 @@ export type AuditEvent =
   | 'admin_add_user'
   | 'admin_remove_user'
   | 'admin_toggle_user'
+  | 'admin_add_allow_rule'
+  | 'admin_remove_allow_rule'
+  | 'admin_add_deny_entry'
+  | 'admin_remove_deny_entry'
+  | 'admin_create_invite'
+  | 'admin_resend_invite'
+  | 'admin_revoke_invite'
+  | 'invite_accepted'
+  | 'access_requested'
+  | 'admin_approve_access_request'
+  | 'admin_reject_access_request'
+  | 'admin_create_role'
+  | 'admin_update_role'
+  | 'admin_delete_role'
+  | 'admin_assign_role'
+  | 'admin_unassign_role'
+  | 'admin_terminate_session'
+  | 'admin_terminate_user_sessions'
+  | 'admin_add_network_rule'
+  | 'admin_remove_network_rule'
+  | 'admin_acknowledge_alert'
+  | 'admin_lift_block'
+  | 'admin_add_webhook'
+  | 'admin_remove_webhook'
+  | 'admin_replay_webhook_delivery'
+  | 'admin_create_audit_checkpoint'
+  | 'access_expired'
   | 'session_created'
   | 'session_expired'
   | 'session_invalidated';
 
+export type AdminAuditEvent = Extract<AuditEvent, `admin_${string}`>;
+export type SessionAuditEvent = Extract<AuditEvent, `session_${string}`>;
+
 export interface AuditLogEntry {
   id?: number;
   email: string | null;
@@ -34,18 +69,35 @@ export interface AuditLogQuery {
 
 class AuditLogger {
   async logEvent(entry: Omit<AuditLogEntry, 'id' | 'ts'>): Promise<{ success: boolean; error?: string }> {
+    // Denials and sign-ins feed the anomaly detector, admin changes the alert triggers and user lifecycle
+    // changes the outbound webhooks, whether or not the row can be written
+    await anomalyDetector.observe(entry);
+    await alerter.observe(entry);
+    await webhookService.observe(entry);
+
     try {
-      await query(
-        'INSERT INTO auth_audit_log (email, event, path, ip, user_agent, details) VALUES ($1, $2, $3, $4, $5, $6)',
-        [
-          entry.email,
-          entry.event,
-          entry.path,
-          entry.ip,
-          entry.user_agent,
-          entry.details ? JSON.stringify(entry.details) : null,
-        ]
-      );
+      const values: [string | null, string, string | null, string | null, string | null, string | null] = [
+        entry.email,
+        entry.event,
+        entry.path,
+        // The ip column is INET: anything that is not an address is stored as null
+        toInet(entry.ip),
+        entry.user_agent,
+        entry.details ? JSON.stringify(entry.details) : null,
+      ];
+
+      if (!isChainedEvent(entry.event)) {
+        await query(
+          'INSERT INTO auth_audit_log (email, event, path, ip, user_agent, details) VALUES ($1, $2, $3, $4, $5, $6)',
+          values
+        );
+        return { success: true };
+      }
+
+      // Every other entry carries a hash chained to the one before it (see hash-chain.ts)
+      await transaction(client => auditChain.append(client, values));
+
+      await auditChain.checkpointIfDue();
 
       return { success: true };
     } catch (error) {
@@ -77,7 +129,25 @@ class AuditLogger {
 
   async logAdminEvent(
     email: string | null,
-    event: 'admin_add_user' | 'admin_remove_user' | 'admin_toggle_user',
+    event: AdminAuditEvent,
+    path: string | null,
+    ip: string | null,
+    userAgent: string | null,
+    details?: Record<string, any>
+  ): Promise<void> {
+    await this.logEvent({
+      email,
+      event,
+      path,
+      ip,
+      user_agent: userAgent,
+      details,
+    });
+  }
+
+  async logSessionEvent(
+    email: string | null,
+    event: SessionAuditEvent,
     path: string | null,
     ip: string | null,
     userAgent: string | null,
@@ -0,0 +1,202 @@
+import { query } from '../database/connection';
+import { allowListService } from './allowlist';
+import { mailer } from '../mail/mailer';
+import { DEFAULT_ROLE } from './permissions';
+import { roleService } from './roles';
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AccessRequest {
+  id: string;
+  email: string;
+  display_name: string | null;
+  requested_role: string;
+  justification: string;
+  status: AccessRequestStatus;
+  created_at: Date;
+  decided_at: Date | null;
+  decided_by: string | null;
+  granted_role: string | null;
+  decision_note: string | null;
+}
+
+const ACCESS_REQUEST_COLUMNS = 'id, email, display_name, requested_role, justification, status, created_at, decided_at, decided_by, granted_role, decision_note';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+class AccessRequestService {
+  async createRequest(
+    email: string,
+    displayName: string | null,
+    requestedRole: string = DEFAULT_ROLE,
+    justification: string
+  ): Promise<{ success: boolean; request?: AccessRequest; error?: string }> {
+    try {
+      const result = await query(
+        `INSERT INTO auth_access_requests (email, display_name, requested_role, justification) VALUES ($1, $2, $3, $4) RETURNING ${ACCESS_REQUEST_COLUMNS}`,
+        [email.toLowerCase().trim(), displayName, requestedRole, justification]
+      );
+
+      return { success: true, request: result.rows[0] as AccessRequest };
+    } catch (error) {
+      if ((error as { code?: string })?.code === '23505') {
+        return { success: false, error: 'You already have a pending access request' };
+      }
+
+      if ((error as { code?: string })?.code === '23503') {
+        return { success: false, error: 'Unknown role' };
+      }
+
+      console.error('Create access request error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Most recent request for an email, so the requester can see where it stands
+  async getLatestRequest(email: string): Promise<{ request?: AccessRequest; error?: string }> {
+    try {
+      const result = await query(
+        `SELECT ${ACCESS_REQUEST_COLUMNS} FROM auth_access_requests WHERE email = $1 ORDER BY created_at DESC LIMIT 1`,
+        [email.toLowerCase().trim()]
+      );
+
+      return { request: result.rows[0] as AccessRequest | undefined };
+    } catch (error) {
+      console.error('Get access request error:', error);
+      return { error: error instanceof Error ? error.message : 'Database error' };
+    }
+  }
+
+  async getRequests(status?: AccessRequestStatus): Promise<{ requests: AccessRequest[]; error?: string }> {
+    try {
+      const result = status
+        ? await query(`SELECT ${ACCESS_REQUEST_COLUMNS} FROM auth_access_requests WHERE status = $1 ORDER BY created_at ASC`, [status])
+        : await query(`SELECT ${ACCESS_REQUEST_COLUMNS} FROM auth_access_requests ORDER BY created_at DESC LIMIT 200`);
+
+      return { requests: result.rows as AccessRequest[] };
+    } catch (error) {
+      console.error('Get access requests error:', error);
+      return {
+        requests: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Approves a pending request and adds the requester to the allow list through addUser, re-enabling an
+  // existing entry. The granted role defaults to the requested one but an admin can override it.
+  async approveRequest(
+    id: string,
+    decidedBy: string,
+    grantedRole?: string,
+    note?: string | null,
+    // The approver's roles; when given, the granted role must pass roleService.canGrant
+    decidedByRoles?: string[]
+  ): Promise<{ success: boolean; request?: AccessRequest; previousRole?: string | null; reactivated?: boolean; notified?: boolean; error?: string }> {
+    try {
+      if (!UUID_PATTERN.test(id)) {
+        return { success: false, error: 'Access request not found' };
+      }
+
+      // Only one decision can move the request out of pending
+      const result = await query(
+        `UPDATE auth_access_requests SET status = 'approved', decided_at = now(), decided_by = $2, granted_role = COALESCE($3, requested_role), decision_note = $4 WHERE id = $1 AND status = 'pending' RETURNING ${ACCESS_REQUEST_COLUMNS}`,
+        [id, decidedBy, grantedRole || null, note || null]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Access request not found or already decided' };
+      }
+
+      const request = result.rows[0] as AccessRequest;
+      const role = request.granted_role || request.requested_role;
+
+      // The requested role is only known once the request is claimed, so the grant is checked here
+      const grant = decidedByRoles ? await roleService.canGrant(decidedByRoles, role) : { allowed: true };
+      const added: { success: boolean; previousRole?: string | null; reactivated?: boolean; error?: string } = grant.allowed
+        ? await allowListService.addUser(request.email, request.display_name || '', role, decidedBy, null, { reactivate: true })
+        : { success: false, error: grant.error };
+
+      if (!added.success) {
+        await query(
+          `UPDATE auth_access_requests SET status = 'pending', decided_at = NULL, decided_by = NULL, granted_role = NULL, decision_note = NULL WHERE id = $1`,
+          [id]
+        );
+        return { success: false, error: added.error };
+      }
+
+      const notification = await this.notifyRequester(request);
+
+      return { success: true, request, previousRole: added.previousRole, reactivated: added.reactivated, notified: notification.success };
+    } catch (error) {
+      if ((error as { code?: string })?.code === '23503') {
+        return { success: false, error: 'Unknown role' };
+      }
+
+      console.error('Approve access request error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async rejectRequest(
+    id: string,
+    decidedBy: string,
+    note?: string | null
+  ): Promise<{ success: boolean; request?: AccessRequest; notified?: boolean; error?: string }> {
+    try {
+      if (!UUID_PATTERN.test(id)) {
+        return { success: false, error: 'Access request not found' };
+      }
+
+      const result = await query(
+        `UPDATE auth_access_requests SET status = 'rejected', decided_at = now(), decided_by = $2, decision_note = $3 WHERE id = $1 AND status = 'pending' RETURNING ${ACCESS_REQUEST_COLUMNS}`,
+        [id, decidedBy, note || null]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Access request not found or already decided' };
+      }
+
+      const request = result.rows[0] as AccessRequest;
+      const notification = await this.notifyRequester(request);
+
+      return { success: true, request, notified: notification.success };
+    } catch (error) {
+      console.error('Reject access request error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  private async notifyRequester(request: AccessRequest): Promise<{ success: boolean; error?: string }> {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const approved = request.status === 'approved';
+
+    return await mailer.send({
+      to: request.email,
+      subject: approved ? 'Your access request was approved' : 'Your access request was declined',
+      text: [
+        `Hi${request.display_name ? ` ${request.display_name}` : ''},`,
+        '',
+        approved
+          ? `Your access request has been approved with the ${request.granted_role || request.requested_role} role. You can now sign in at ${appUrl}/auth/login.`
+          : 'Your access request has been declined.',
+        ...(request.decision_note ? ['', `Note from the administrator: ${request.decision_note}`] : []),
+      ].join('\n'),
+    });
+  }
+}
+
+// Singleton instance
+const accessRequestService = new AccessRequestService();
+
+export { accessRequestService };
+export default accessRequestService;
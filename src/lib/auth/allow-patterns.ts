@@ -0,0 +1,36 @@
+// Allow rule patterns look like `*@partner.com` or `*@*.partner.com`.
+// A leading `@partner.com` is shorthand for `*@partner.com`.
+export function normalizeAllowPattern(pattern: string): string {
+  const normalized = pattern.toLowerCase().trim();
+  return normalized.startsWith('@') ? `*${normalized}` : normalized;
+}
+
+export function isValidAllowPattern(pattern: string): boolean {
+  const parts = pattern.split('@');
+  if (parts.length !== 2) {
+    return false;
+  }
+
+  const [localPart, domain] = parts;
+  if (!/^[a-z0-9.*_+-]+$/.test(localPart) || !/^[a-z0-9.*-]+$/.test(domain)) {
+    return false;
+  }
+
+  // The domain must contain a literal, dotted name - `*@*` or `*@*.*` would allow everyone
+  const literalDomain = domain.replace(/\*\.?/g, '');
+  return literalDomain.includes('.') && !literalDomain.startsWith('.') && !literalDomain.endsWith('.');
+}
+
+export function allowPatternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^@]*');
+
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// Number of literal (non-wildcard) characters; used to pick the most specific matching rule
+export function patternSpecificity(pattern: string): number {
+  return pattern.replace(/\*/g, '').length;
+}
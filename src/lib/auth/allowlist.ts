@@ -1,88 +1,184 @@
 import { query } from '../database/connection';
+import { createCache, CacheMetrics } from '../cache';
+import { normalizeAllowPattern, isValidAllowPattern, allowPatternToRegExp, patternSpecificity } from './allow-patterns';
+import { DEFAULT_ROLE, DEFAULT_SCOPE, SUPERUSER_ROLE, isValidScopeName } from './permissions';
 
 export interface AllowedUser {
   email: string;
   display_name: string | null;
-  role: 'admin' | 'viewer' | 'qa';
+  role: string;
   invited_by: string | null;
   created_at: Date;
   updated_at: Date;
   active: boolean;
+  expires_at: Date | null;
+}
+
+export interface AllowRule {
+  id: number;
+  pattern: string;
+  role: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: Date;
+  active: boolean;
+}
+
+export interface RoleAssignment {
+  email: string;
+  scope: string;
+  role: string;
+  granted_by: string | null;
+  created_at: Date;
+}
+
+export interface DenyListEntry {
+  id: number;
+  pattern: string;
+  reason: string;
+  created_by: string | null;
+  created_at: Date;
 }
 
 export interface AllowListResult {
   allowed: boolean;
   user?: AllowedUser;
+  matchedRule?: AllowRule;
+  denyEntry?: DenyListEntry;
+  expired?: boolean;
+  // The scope the check ran for and the roles the user holds there
+  scope?: string;
+  roles?: string[];
   error?: string;
 }
 
+const USER_COLUMNS = 'email, display_name, role, invited_by, created_at, updated_at, active, expires_at';
+const ASSIGNMENT_COLUMNS = 'email, scope, role, granted_by, created_at';
+
+// A cached database lookup; `user: null` records that the email has no allow list entry
+type UserLookup = { user: AllowedUser; assignments: RoleAssignment[] } | { user: null; assignments?: undefined };
+
+// The scope this deployment checks roles against
+export function getAppScope(): string {
+  return process.env.APP_SCOPE || DEFAULT_SCOPE;
+}
+
 class AllowListService {
-  private cache = new Map<string, { user: AllowedUser; timestamp: number }>();
   private cacheTimeout = 5 * 60 * 1000; // 5 minutes
+  private negativeCacheTimeout = 30 * 1000; // 30 seconds for emails without an entry
+  // Per-email entries; invalidations reach every instance (see createCache)
+  private cache = createCache<UserLookup>('allowlist', this.cacheTimeout);
+  // Database lookups in flight, shared by concurrent checks for the same email
+  private lookups = new Map<string, Promise<UserLookup>>();
+  // Active allow rules and the deny list, each under one key; changes invalidate them on every instance
+  private rulesCache = createCache<AllowRule[]>('allow-rules', this.cacheTimeout);
+  private denyListCache = createCache<DenyListEntry[]>('deny-list', this.cacheTimeout);
 
-  async isEmailAllowed(email: string): Promise<AllowListResult> {
+  async isEmailAllowed(email: string, scope: string = getAppScope()): Promise<AllowListResult> {
     try {
       // Normalize email
       const normalizedEmail = this.normalizeEmail(email);
+
+      // Deny list always wins, even over exact entries and cached results
+      const denyEntry = await this.matchDenyList(normalizedEmail);
+      if (denyEntry) {
+        return { allowed: false, denyEntry, error: 'Email is on the deny list' };
+      }
       
-      // Check cache first
-      const cached = this.cache.get(normalizedEmail);
-      if (cached && Date.now() - cached.timestamp < this.cacheTimeout) {
-        return {
-          allowed: cached.user.active,
-          user: cached.user,
-        };
+      const lookup = await this.lookupUser(normalizedEmail);
+
+      if (!lookup.user) {
+        // No exact entry - fall back to domain/wildcard rules
+        return await this.matchAllowRules(normalizedEmail, scope);
       }
 
-      // Query database
+      return this.toAllowListResult(lookup.user, lookup.assignments, scope);
+    } catch (error) {
+      console.error('Allow list check error:', error);
+      return { 
+        allowed: false, 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  // Adds the email, or updates its entry if it has one; previousRole is that entry's role (null when new).
+  // An existing entry keeps its expiry unless a new one is given, and a future expiry re-enables an entry the
+  // expiry sweep has disabled. With `reactivate` (an approved access request) a disabled entry is always
+  // enabled again and an expiry that has passed is cleared, or the user would stay locked out.
+  async addUser(
+    email: string,
+    displayName: string,
+    role: string = DEFAULT_ROLE,
+    invitedBy: string,
+    expiresAt: Date | null = null,
+    options: { reactivate?: boolean } = {}
+  ): Promise<{ success: boolean; previousRole?: string | null; reactivated?: boolean; error?: string }> {
+    try {
+      const normalizedEmail = this.normalizeEmail(email);
+      
       const result = await query(
-        'SELECT email, display_name, role, invited_by, created_at, updated_at, active FROM auth_allowed_emails WHERE email = $1',
-        [normalizedEmail]
+        `WITH previous AS (SELECT role, active FROM auth_allowed_emails WHERE email = $1)
+         INSERT INTO auth_allowed_emails (email, display_name, role, invited_by, expires_at) VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (email) DO UPDATE SET display_name = $2, role = $3, invited_by = $4,
+           expires_at = COALESCE($5, CASE WHEN $6::boolean AND auth_allowed_emails.expires_at <= now() THEN NULL ELSE auth_allowed_emails.expires_at END),
+           active = auth_allowed_emails.active OR $6::boolean OR COALESCE($5::timestamptz > now(), false),
+           updated_at = now()
+         RETURNING (SELECT role FROM previous) AS previous_role, (SELECT active FROM previous) AS previous_active, active`,
+        [normalizedEmail, displayName, role, invitedBy, expiresAt, !!options.reactivate]
       );
 
-      if (result.rows.length === 0) {
-        return { allowed: false, error: 'Email not found in allow list' };
-      }
+      // Invalidate cache on every instance
+      await this.invalidateUser(normalizedEmail);
 
-      const user = result.rows[0] as AllowedUser;
-      
-      // Update cache
-      this.cache.set(normalizedEmail, {
-        user,
-        timestamp: Date.now(),
-      });
+      const row = result.rows[0];
 
       return {
-        allowed: user.active,
-        user,
+        success: true,
+        previousRole: row?.previous_role ?? null,
+        reactivated: row?.previous_active === false && row?.active === true,
       };
     } catch (error) {
-      console.error('Allow list check error:', error);
+      // Roles reference auth_roles by foreign key
+      if ((error as { code?: string })?.code === '23503') {
+        return { success: false, error: 'Unknown role' };
+      }
+
+      console.error('Add user error:', error);
       return { 
-        allowed: false, 
+        success: false, 
         error: error instanceof Error ? error.message : 'Database error' 
       };
     }
   }
 
-  async addUser(email: string, displayName: string, role: 'admin' | 'viewer' | 'qa' = 'viewer', invitedBy: string): Promise<{ success: boolean; error?: string }> {
+  // Adds the email only if it has no entry yet, leaving an existing one (its role, expiry and status) alone
+  async insertUser(email: string, displayName: string, role: string, invitedBy: string): Promise<{ success: boolean; error?: string }> {
     try {
       const normalizedEmail = this.normalizeEmail(email);
-      
-      await query(
-        'INSERT INTO auth_allowed_emails (email, display_name, role, invited_by) VALUES ($1, $2, $3, $4) ON CONFLICT (email) DO UPDATE SET display_name = $2, role = $3, invited_by = $4, updated_at = now()',
+
+      const result = await query(
+        'INSERT INTO auth_allowed_emails (email, display_name, role, invited_by) VALUES ($1, $2, $3, $4) ON CONFLICT (email) DO NOTHING RETURNING email',
         [normalizedEmail, displayName, role, invitedBy]
       );
 
-      // Invalidate cache
-      this.cache.delete(normalizedEmail);
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Email is already on the allow list' };
+      }
+
+      // Clears a cached negative lookup on every instance
+      await this.invalidateUser(normalizedEmail);
 
       return { success: true };
     } catch (error) {
-      console.error('Add user error:', error);
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Database error' 
+      if ((error as { code?: string })?.code === '23503') {
+        return { success: false, error: 'Unknown role' };
+      }
+
+      console.error('Insert user error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
       };
     }
   }
@@ -96,8 +192,8 @@ class AllowListService {
         [normalizedEmail]
       );
 
-      // Invalidate cache
-      this.cache.delete(normalizedEmail);
+      // Invalidate cache on every instance
+      await this.invalidateUser(normalizedEmail);
 
       return { success: true };
     } catch (error) {
@@ -124,8 +220,8 @@ class AllowListService {
 
       const newStatus = result.rows[0].active;
       
-      // Invalidate cache
-      this.cache.delete(normalizedEmail);
+      // Invalidate cache on every instance
+      await this.invalidateUser(normalizedEmail);
 
       return { success: true, newStatus };
     } catch (error) {
@@ -140,7 +236,7 @@ class AllowListService {
   async getAllUsers(): Promise<{ users: AllowedUser[]; error?: string }> {
     try {
       const result = await query(
-        'SELECT email, display_name, role, invited_by, created_at, updated_at, active FROM auth_allowed_emails ORDER BY created_at DESC'
+        `SELECT ${USER_COLUMNS} FROM auth_allowed_emails ORDER BY created_at DESC`
       );
 
       return { users: result.rows as AllowedUser[] };
@@ -156,7 +252,7 @@ class AllowListService {
   async searchUsers(searchTerm: string): Promise<{ users: AllowedUser[]; error?: string }> {
     try {
       const result = await query(
-        'SELECT email, display_name, role, invited_by, created_at, updated_at, active FROM auth_allowed_emails WHERE email ILIKE $1 OR display_name ILIKE $1 ORDER BY created_at DESC',
+        `SELECT ${USER_COLUMNS} FROM auth_allowed_emails WHERE email ILIKE $1 OR display_name ILIKE $1 ORDER BY created_at DESC`,
         [`%${searchTerm}%`]
       );
 
@@ -170,6 +266,467 @@ class AllowListService {
     }
   }
 
+  // Active users whose access ends within the given number of days (including already expired ones)
+  async getExpiringUsers(withinDays: number = 14): Promise<{ users: AllowedUser[]; error?: string }> {
+    try {
+      const result = await query(
+        `SELECT ${USER_COLUMNS} FROM auth_allowed_emails WHERE active = true AND expires_at IS NOT NULL AND expires_at <= now() + make_interval(days => $1) ORDER BY expires_at ASC`,
+        [withinDays]
+      );
+
+      return { users: result.rows as AllowedUser[] };
+    } catch (error) {
+      console.error('Get expiring users error:', error);
+      return { 
+        users: [], 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  // Deactivate every user whose access has expired. Callers are responsible for auditing the result.
+  async expireUsers(): Promise<{ users: AllowedUser[]; error?: string }> {
+    try {
+      const result = await query(
+        `UPDATE auth_allowed_emails SET active = false, updated_at = now() WHERE active = true AND expires_at IS NOT NULL AND expires_at <= now() RETURNING ${USER_COLUMNS}`
+      );
+
+      const users = result.rows as AllowedUser[];
+
+      // Invalidate cache on every instance
+      await Promise.all(users.map(user => this.invalidateUser(this.normalizeEmail(user.email))));
+
+      return { users };
+    } catch (error) {
+      console.error('Expire users error:', error);
+      return { 
+        users: [], 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  // Active, unexpired users holding the admin role in the scope: by assignment, or by default role when they
+  // have no assignments there
+  async countActiveAdmins(scope: string = getAppScope()): Promise<{ count: number; error?: string }> {
+    try {
+      const result = await query(
+        `SELECT COUNT(*) AS count FROM auth_allowed_emails e
+         WHERE e.active = true AND (e.expires_at IS NULL OR e.expires_at > now())
+         AND (
+           EXISTS (SELECT 1 FROM auth_role_assignments a WHERE a.email = e.email AND a.scope = $1 AND a.role = $2)
+           OR (e.role = $2 AND NOT EXISTS (SELECT 1 FROM auth_role_assignments a WHERE a.email = e.email AND a.scope = $1))
+         )`,
+        [scope, SUPERUSER_ROLE]
+      );
+
+      return { count: parseInt(result.rows[0].count, 10) };
+    } catch (error) {
+      console.error('Count admins error:', error);
+      return {
+        count: 0,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async getRoleAssignments(filter: { email?: string; scope?: string } = {}): Promise<{ assignments: RoleAssignment[]; error?: string }> {
+    try {
+      const conditions: string[] = [];
+      const params: string[] = [];
+
+      if (filter.email) {
+        params.push(this.normalizeEmail(filter.email));
+        conditions.push(`email = $${params.length}`);
+      }
+
+      if (filter.scope) {
+        params.push(filter.scope);
+        conditions.push(`scope = $${params.length}`);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const result = await query(
+        `SELECT ${ASSIGNMENT_COLUMNS} FROM auth_role_assignments ${where} ORDER BY scope ASC, email ASC, role ASC`,
+        params
+      );
+
+      return { assignments: result.rows as RoleAssignment[] };
+    } catch (error) {
+      console.error('Get role assignments error:', error);
+      return { 
+        assignments: [], 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  // Every scope with at least one assignment, plus this deployment's own scope
+  async getScopes(): Promise<{ scopes: string[]; error?: string }> {
+    try {
+      const result = await query('SELECT DISTINCT scope FROM auth_role_assignments ORDER BY scope ASC');
+      const scopes = result.rows.map((row: { scope: string }) => row.scope);
+
+      return { scopes: scopes.includes(getAppScope()) ? scopes : [getAppScope(), ...scopes] };
+    } catch (error) {
+      console.error('Get scopes error:', error);
+      return { 
+        scopes: [getAppScope()], 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  // Assignments replace the user's default role within a scope; a user can hold several roles per scope
+  async assignRole(email: string, scope: string, role: string, grantedBy: string): Promise<{ success: boolean; assignment?: RoleAssignment; error?: string }> {
+    try {
+      const normalizedEmail = this.normalizeEmail(email);
+
+      if (!isValidScopeName(scope)) {
+        return { success: false, error: 'Invalid scope' };
+      }
+
+      const result = await query(
+        `INSERT INTO auth_role_assignments (email, scope, role, granted_by) VALUES ($1, $2, $3, $4) ON CONFLICT (email, scope, role) DO NOTHING RETURNING ${ASSIGNMENT_COLUMNS}`,
+        [normalizedEmail, scope, role, grantedBy]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Role is already assigned in this scope' };
+      }
+
+      // Invalidate cache on every instance
+      await this.invalidateUser(normalizedEmail);
+
+      return { success: true, assignment: result.rows[0] as RoleAssignment };
+    } catch (error) {
+      // Assignments reference both the allow list entry and the role
+      if ((error as { code?: string })?.code === '23503') {
+        const constraint = (error as { constraint?: string }).constraint;
+        return {
+          success: false,
+          error: constraint === 'auth_role_assignments_email_fkey' ? 'User not found in allow list' : 'Unknown role',
+        };
+      }
+
+      console.error('Assign role error:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  async unassignRole(email: string, scope: string, role: string): Promise<{ success: boolean; assignment?: RoleAssignment; error?: string }> {
+    try {
+      const normalizedEmail = this.normalizeEmail(email);
+
+      const result = await query(
+        `DELETE FROM auth_role_assignments WHERE email = $1 AND scope = $2 AND role = $3 RETURNING ${ASSIGNMENT_COLUMNS}`,
+        [normalizedEmail, scope, role]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Role assignment not found' };
+      }
+
+      // Invalidate cache on every instance
+      await this.invalidateUser(normalizedEmail);
+
+      return { success: true, assignment: result.rows[0] as RoleAssignment };
+    } catch (error) {
+      console.error('Unassign role error:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  async getAllowRules(): Promise<{ rules: AllowRule[]; error?: string }> {
+    try {
+      const result = await query(
+        'SELECT id, pattern, role, description, created_by, created_at, active FROM auth_allow_rules ORDER BY created_at DESC'
+      );
+
+      return { rules: result.rows as AllowRule[] };
+    } catch (error) {
+      console.error('Get allow rules error:', error);
+      return { 
+        rules: [], 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  async addAllowRule(pattern: string, role: string = DEFAULT_ROLE, description: string | null, createdBy: string): Promise<{ success: boolean; rule?: AllowRule; error?: string }> {
+    try {
+      const normalizedPattern = normalizeAllowPattern(pattern);
+
+      if (!isValidAllowPattern(normalizedPattern)) {
+        return { success: false, error: 'Invalid allow rule pattern' };
+      }
+
+      const result = await query(
+        'INSERT INTO auth_allow_rules (pattern, role, description, created_by) VALUES ($1, $2, $3, $4) ON CONFLICT (pattern) DO UPDATE SET role = $2, description = $3, created_by = $4, active = true RETURNING id, pattern, role, description, created_by, created_at, active',
+        [normalizedPattern, role, description, createdBy]
+      );
+
+      // Invalidate rules cache on every instance
+      await this.rulesCache.invalidate('all');
+
+      return { success: true, rule: result.rows[0] as AllowRule };
+    } catch (error) {
+      // Roles reference auth_roles by foreign key
+      if ((error as { code?: string })?.code === '23503') {
+        return { success: false, error: 'Unknown role' };
+      }
+
+      console.error('Add allow rule error:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  async removeAllowRule(id: number): Promise<{ success: boolean; rule?: AllowRule; error?: string }> {
+    try {
+      const result = await query(
+        'DELETE FROM auth_allow_rules WHERE id = $1 RETURNING id, pattern, role, description, created_by, created_at, active',
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Allow rule not found' };
+      }
+
+      // Invalidate rules cache on every instance
+      await this.rulesCache.invalidate('all');
+
+      return { success: true, rule: result.rows[0] as AllowRule };
+    } catch (error) {
+      console.error('Remove allow rule error:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  async getDenyList(): Promise<{ entries: DenyListEntry[]; error?: string }> {
+    try {
+      const result = await query(
+        'SELECT id, pattern, reason, created_by, created_at FROM auth_deny_list ORDER BY created_at DESC'
+      );
+
+      return { entries: result.rows as DenyListEntry[] };
+    } catch (error) {
+      console.error('Get deny list error:', error);
+      return { 
+        entries: [], 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  // Deny entries are either exact emails or patterns in the same form as allow rules
+  async addDenyEntry(pattern: string, reason: string, createdBy: string): Promise<{ success: boolean; entry?: DenyListEntry; error?: string }> {
+    try {
+      const normalizedPattern = normalizeAllowPattern(pattern);
+
+      if (!isValidAllowPattern(normalizedPattern)) {
+        return { success: false, error: 'Invalid deny list pattern' };
+      }
+
+      const result = await query(
+        'INSERT INTO auth_deny_list (pattern, reason, created_by) VALUES ($1, $2, $3) ON CONFLICT (pattern) DO UPDATE SET reason = $2, created_by = $3 RETURNING id, pattern, reason, created_by, created_at',
+        [normalizedPattern, reason, createdBy]
+      );
+
+      // Invalidate deny list cache on every instance
+      await this.denyListCache.invalidate('all');
+
+      return { success: true, entry: result.rows[0] as DenyListEntry };
+    } catch (error) {
+      console.error('Add deny entry error:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  async removeDenyEntry(id: number): Promise<{ success: boolean; entry?: DenyListEntry; error?: string }> {
+    try {
+      const result = await query(
+        'DELETE FROM auth_deny_list WHERE id = $1 RETURNING id, pattern, reason, created_by, created_at',
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Deny list entry not found' };
+      }
+
+      // Invalidate deny list cache on every instance
+      await this.denyListCache.invalidate('all');
+
+      return { success: true, entry: result.rows[0] as DenyListEntry };
+    } catch (error) {
+      console.error('Remove deny entry error:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Database error' 
+      };
+    }
+  }
+
+  private async matchDenyList(normalizedEmail: string): Promise<DenyListEntry | undefined> {
+    let entries = await this.denyListCache.get('all');
+
+    if (!entries) {
+      const loadedAt = Date.now();
+      const result = await query(
+        'SELECT id, pattern, reason, created_by, created_at FROM auth_deny_list'
+      );
+      entries = result.rows as DenyListEntry[];
+      await this.denyListCache.set('all', entries, undefined, loadedAt);
+    }
+
+    return entries.find(entry => allowPatternToRegExp(entry.pattern).test(normalizedEmail));
+  }
+
+  // Match an email without an exact entry against the active domain/wildcard rules.
+  // The most specific rule (most literal characters) wins.
+  private async matchAllowRules(normalizedEmail: string, scope: string): Promise<AllowListResult> {
+    const rules = await this.getActiveAllowRules();
+
+    const matchedRule = rules
+      .filter(rule => allowPatternToRegExp(rule.pattern).test(normalizedEmail))
+      .sort((a, b) => patternSpecificity(b.pattern) - patternSpecificity(a.pattern))[0];
+
+    if (!matchedRule) {
+      return { allowed: false, error: 'Email not found in allow list' };
+    }
+
+    return {
+      allowed: true,
+      user: {
+        email: normalizedEmail,
+        display_name: null,
+        role: matchedRule.role,
+        invited_by: matchedRule.created_by,
+        created_at: matchedRule.created_at,
+        updated_at: matchedRule.created_at,
+        active: true,
+        expires_at: null,
+      },
+      matchedRule,
+      // Rule matches have no allow list entry to hang assignments on, so the rule's role applies everywhere
+      scope,
+      roles: [matchedRule.role],
+    };
+  }
+
+  private async getActiveAllowRules(): Promise<AllowRule[]> {
+    const cached = await this.rulesCache.get('all');
+
+    if (cached) {
+      return cached;
+    }
+
+    const loadedAt = Date.now();
+    const result = await query(
+      'SELECT id, pattern, role, description, created_by, created_at, active FROM auth_allow_rules WHERE active = true'
+    );
+
+    const rules = result.rows as AllowRule[];
+    await this.rulesCache.set('all', rules, undefined, loadedAt);
+
+    return rules;
+  }
+
+  // Cache first, then the database. Concurrent misses for the same email wait on one query, and emails
+  // without an entry are cached briefly so unknown accounts can't cost a query per request.
+  private async lookupUser(normalizedEmail: string): Promise<UserLookup> {
+    const cached = await this.cache.get(normalizedEmail);
+    if (cached) {
+      return cached;
+    }
+
+    const pending = this.lookups.get(normalizedEmail);
+    if (pending) {
+      return pending;
+    }
+
+    const loadedAt = Date.now();
+    const lookup = this.loadUser(normalizedEmail);
+    this.lookups.set(normalizedEmail, lookup);
+
+    try {
+      const loaded = await lookup;
+
+      // An invalidation while the query ran, here or on another instance, means its result may predate the
+      // change: this one drops it from `lookups`, and the cache refuses values loaded before a stamp
+      if (this.lookups.get(normalizedEmail) === lookup) {
+        await this.cache.set(normalizedEmail, loaded, loaded.user ? undefined : this.negativeCacheTimeout, loadedAt);
+      }
+
+      return loaded;
+    } finally {
+      if (this.lookups.get(normalizedEmail) === lookup) {
+        this.lookups.delete(normalizedEmail);
+      }
+    }
+  }
+
+  private async loadUser(normalizedEmail: string): Promise<UserLookup> {
+    const result = await query(
+      `SELECT ${USER_COLUMNS} FROM auth_allowed_emails WHERE email = $1`,
+      [normalizedEmail]
+    );
+
+    if (result.rows.length === 0) {
+      return { user: null };
+    }
+
+    return {
+      user: result.rows[0] as AllowedUser,
+      assignments: await this.loadAssignments(normalizedEmail),
+    };
+  }
+
+  // Drops the entry, including a negative one, on every instance
+  private async invalidateUser(normalizedEmail: string): Promise<void> {
+    this.lookups.delete(normalizedEmail);
+    await this.cache.invalidate(normalizedEmail);
+  }
+
+  private async loadAssignments(normalizedEmail: string): Promise<RoleAssignment[]> {
+    const result = await query(
+      `SELECT ${ASSIGNMENT_COLUMNS} FROM auth_role_assignments WHERE email = $1`,
+      [normalizedEmail]
+    );
+
+    return (result.rows || []) as RoleAssignment[];
+  }
+
+  private toAllowListResult(user: AllowedUser, assignments: RoleAssignment[], scope: string): AllowListResult {
+    const scoped = assignments.filter(a => a.scope === scope).map(a => a.role);
+    const roles = scoped.length > 0 ? scoped : [user.role];
+
+    if (user.active && isAccessExpired(user)) {
+      return { allowed: false, user, expired: true, scope, roles, error: 'Access has expired' };
+    }
+
+    return {
+      allowed: user.active,
+      user,
+      scope,
+      roles,
+    };
+  }
+
   private normalizeEmail(email: string): string {
     return email.toLowerCase().trim();
   }
@@ -177,12 +734,36 @@ class AllowListService {
   // Clear cache (useful for testing or when you know data has changed)
   clearCache(): void {
     this.cache.clear();
+    this.lookups.clear();
+    this.rulesCache.clear();
+    this.denyListCache.clear();
   }
 
-  // Clear cache for specific email
-  clearCacheForEmail(email: string): void {
-    this.cache.delete(this.normalizeEmail(email));
+  // Clear cache for specific email, on every instance
+  async clearCacheForEmail(email: string): Promise<void> {
+    await this.invalidateUser(this.normalizeEmail(email));
   }
+
+  getCacheMetrics(): CacheMetrics {
+    return this.cache.getMetrics();
+  }
+}
+
+export function isAccessExpired(user: Pick<AllowedUser, 'expires_at'>): boolean {
+  return !!user.expires_at && new Date(user.expires_at).getTime() <= Date.now();
+}
+
+// Audit details explaining why an allow list check failed
+export function getDenialDetails(result: AllowListResult): Record<string, any> {
+  if (result.denyEntry) {
+    return { reason: 'deny_listed', deny_pattern: result.denyEntry.pattern };
+  }
+
+  if (result.expired) {
+    return { reason: 'access_expired', expires_at: result.user?.expires_at };
+  }
+
+  return { reason: 'not_in_allowlist', active: result.user?.active };
 }
 
 // Singleton instance
@@ -1,13 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { allowListService } from './allowlist';
+import { allowListService, getDenialDetails, getAppScope } from './allowlist';
 import { auditLogger } from '../audit/logger';
 import { getSignedInEmail } from './user';
+import { roleService } from './roles';
+import { sessionService } from './sessions';
+import { networkRuleService, getNetworkDenialDetails } from './network-rules';
+import { getClientIP } from '../client-ip';
+import { Permission, DEFAULT_ROLE } from './permissions';
 
 export interface AuthenticatedUser {
   email: string;
+  // Default role from the allow list entry
   role: string;
+  // Application scope the roles below were resolved for
+  scope: string;
+  // Roles held in this scope: explicit assignments, or the default role when there are none
+  roles: string[];
+  // The roles plus every role they inherit, used for "at least this role" checks
+  effectiveRoles: string[];
+  permissions: Permission[];
   display_name?: string;
+  // Clerk session id of this request, tracked in auth_sessions
+  sessionId: string | null;
 }
 
 export interface AuthContext {
@@ -15,55 +30,166 @@ export interface AuthContext {
   request: NextRequest;
 }
 
-export async function createAuthGuard(handler: (context: AuthContext) => Promise<NextResponse>) {
+export type AuthHandler = (context: AuthContext) => Promise<NextResponse>;
+export type RouteHandler = (request: NextRequest) => Promise<NextResponse>;
+// withRateLimit, withCSRFProtection, withInputSanitization and withRequestLimits all have this shape
+export type RouteMiddleware = (handler: RouteHandler) => RouteHandler;
+export type AuthGuard = (handler: AuthHandler) => Promise<RouteHandler>;
+
+// Every guard denial is audited and answered with the same payloads
+async function denyRequest(
+  request: NextRequest,
+  email: string | null,
+  status: 401 | 403 | 500,
+  details: Record<string, any>
+): Promise<NextResponse> {
+  await auditLogger.logAuthEvent(
+    email,
+    'api_deny',
+    request.nextUrl.pathname,
+    getClientIP(request),
+    request.headers.get('user-agent'),
+    details
+  );
+
+  const error = status === 401 ? 'Unauthorized' : status === 403 ? 'Forbidden' : 'Internal server error';
+
+  return NextResponse.json(
+    { error },
+    { status }
+  );
+}
+
+export interface SessionContext {
+  email: string;
+  request: NextRequest;
+}
+
+export type SessionHandler = (context: SessionContext) => Promise<NextResponse>;
+
+interface Authenticated {
+  email: string;
+  sessionId: string | null;
+}
+
+// Resolves the signed-in user's email, or the denial to send when there isn't one
+async function authenticate(request: NextRequest): Promise<Authenticated | { denial: NextResponse }> {
+  // Get Clerk auth data
+  const { userId, sessionId } = await auth();
+
+  if (!userId) {
+    return { denial: await denyRequest(request, null, 401, { reason: 'unauthenticated' }) };
+  }
+
+  // Get user email (with fallbacks)
+  const { email } = await getSignedInEmail();
+
+  if (!email) {
+    return { denial: await denyRequest(request, null, 401, { reason: 'unauthenticated', error: 'No email in session claims' }) };
+  }
+
+  return { email, sessionId: sessionId ?? null };
+}
+
+// Records activity on the caller's session. Returns the denial to send when the session has
+// expired or was ended, so a still-valid Clerk token cannot outlive its tracked session.
+async function trackSession(request: NextRequest, email: string, sessionId: string): Promise<NextResponse | null> {
+  const ip = getClientIP(request);
+  const userAgent = request.headers.get('user-agent');
+  const result = await sessionService.touchSession(email, sessionId, ip, userAgent);
+
+  if (!result.success) {
+    return await denyRequest(request, email, 500, { reason: 'session_error', error: result.error });
+  }
+
+  if (result.status === 'created' || result.status === 'expired') {
+    await auditLogger.logSessionEvent(
+      email,
+      result.status === 'created' ? 'session_created' : 'session_expired',
+      request.nextUrl.pathname,
+      ip,
+      userAgent,
+      {
+        session_id: result.session?.id,
+        expires_at: result.session?.expires_at,
+        ...(result.status === 'expired' && { reason: result.session?.end_reason }),
+      }
+    );
+  }
+
+  if (result.status === 'expired' || result.status === 'ended') {
+    return await denyRequest(request, email, 401, {
+      reason: result.status === 'expired' ? 'session_expired' : 'session_ended',
+      session_id: result.session?.id,
+      ...(result.status === 'expired' && { expiry_reason: result.session?.end_reason }),
+    });
+  }
+
+  return null;
+}
+
+// Signed in with Clerk, whether or not the email is allowed. For routes such as access requests
+// that serve people who are not on the allow list yet; they must only act on the caller's own email.
+export async function createSessionGuard(handler: SessionHandler) {
   return async (request: NextRequest): Promise<NextResponse> => {
     try {
-      // Get Clerk auth data
-      const { userId } = await auth();
-
-      if (!userId) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
+      const result = await authenticate(request);
+
+      if ('denial' in result) {
+        return result.denial;
       }
 
-      // Get user email (with fallbacks)
-      const { email } = await getSignedInEmail();
-      
-      if (!email) {
-        await auditLogger.logAuthEvent(
-          null,
-          'api_deny',
-          request.nextUrl.pathname,
-          getClientIP(request),
-          request.headers.get('user-agent'),
-          { error: 'No email in session claims' }
-        );
-
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
+      return await handler({ email: result.email, request });
+
+    } catch (error) {
+      console.error('Session guard error:', error);
+
+      return await denyRequest(request, null, 500, { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  };
+}
+
+export async function createAuthGuard(
+  handler: AuthHandler,
+  scope: string = getAppScope()
+) {
+  return async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const result = await authenticate(request);
+
+      if ('denial' in result) {
+        return result.denial;
       }
 
+      const { email, sessionId } = result;
+
       // Check allow list
-      const allowListResult = await allowListService.isEmailAllowed(email);
-      
+      const allowListResult = await allowListService.isEmailAllowed(email, scope);
+
       if (!allowListResult.allowed) {
-        await auditLogger.logAuthEvent(
-          email,
-          'api_deny',
-          request.nextUrl.pathname,
-          getClientIP(request),
-          request.headers.get('user-agent'),
-          { reason: 'not_in_allowlist', active: allowListResult.user?.active }
-        );
-
-        return NextResponse.json(
-          { error: 'Forbidden' },
-          { status: 403 }
-        );
+        return await denyRequest(request, email, 403, getDenialDetails(allowListResult));
+      }
+
+      const role = allowListResult.user?.role || DEFAULT_ROLE;
+      const roles = allowListResult.roles?.length ? allowListResult.roles : [role];
+
+      // Network restrictions for everyone and for the roles held in this scope, inherited ones included
+      const network = await networkRuleService.checkAccess(getClientIP(request), roles);
+
+      if (network.error) {
+        return await denyRequest(request, email, 500, { reason: 'network_rules_error', error: network.error });
+      }
+
+      if (!network.allowed) {
+        return await denyRequest(request, email, 403, { ...getNetworkDenialDetails(network), roles, scope });
+      }
+
+      if (sessionId) {
+        const sessionDenial = await trackSession(request, email, sessionId);
+
+        if (sessionDenial) {
+          return sessionDenial;
+        }
       }
 
       // Log successful API access
@@ -73,15 +199,25 @@ export async function createAuthGuard(handler: (context: AuthContext) => Promise
         request.nextUrl.pathname,
         getClientIP(request),
         request.headers.get('user-agent'),
-        { role: allowListResult.user?.role }
+        {
+          role: allowListResult.user?.role,
+          scope,
+          roles: allowListResult.roles,
+          ...(allowListResult.matchedRule && { matched_rule: allowListResult.matchedRule.pattern }),
+        }
       );
 
       // Create auth context
       const context: AuthContext = {
         user: {
           email,
-          role: allowListResult.user?.role || 'viewer',
+          role,
+          scope,
+          roles,
+          effectiveRoles: await roleService.getEffectiveRoles(roles),
+          permissions: await roleService.getPermissionsForRoles(roles),
           display_name: allowListResult.user?.display_name || undefined,
+          sessionId,
         },
         request,
       };
@@ -91,63 +227,66 @@ export async function createAuthGuard(handler: (context: AuthContext) => Promise
 
     } catch (error) {
       console.error('API guard error:', error);
-      
-      await auditLogger.logAuthEvent(
-        null,
-        'api_deny',
-        request.nextUrl.pathname,
-        getClientIP(request),
-        request.headers.get('user-agent'),
-        { error: error instanceof Error ? error.message : 'Unknown error' }
-      );
 
-      return NextResponse.json(
-        { error: 'Internal server error' },
-        { status: 500 }
-      );
+      return await denyRequest(request, null, 500, { error: error instanceof Error ? error.message : 'Unknown error' });
     }
   };
 }
 
-export function requireRole(requiredRole: string) {
-  return (handler: (context: AuthContext) => Promise<NextResponse>) => {
+export interface AccessRequirement {
+  // Any of these roles, directly or through inheritance
+  roles?: string[];
+  permission?: Permission;
+  // Defaults to this deployment's APP_SCOPE
+  scope?: string;
+}
+
+// Allow-listed user who meets every given requirement. With no roles or permission it only checks the allow list.
+export function requireAccess(requirement: AccessRequirement = {}): AuthGuard {
+  const { roles = [], permission, scope = getAppScope() } = requirement;
+
+  return (handler: AuthHandler) => {
     return createAuthGuard(async (context) => {
-      if (context.user.role !== requiredRole) {
-        await auditLogger.logAuthEvent(
-          context.user.email,
-          'api_deny',
-          context.request.nextUrl.pathname,
-          getClientIP(context.request),
-          context.request.headers.get('user-agent'),
-          { reason: 'insufficient_permissions', required_role: requiredRole, user_role: context.user.role }
-        );
-
-        return NextResponse.json(
-          { error: 'Forbidden' },
-          { status: 403 }
-        );
+      const missingRole = roles.length > 0 && !roles.some(role => context.user.effectiveRoles.includes(role));
+      const missingPermission = !!permission && !context.user.permissions.includes(permission);
+
+      if (missingRole || missingPermission) {
+        return await denyRequest(context.request, context.user.email, 403, {
+          reason: 'insufficient_permissions',
+          ...(missingRole && { required_roles: roles }),
+          ...(missingPermission && { required_permission: permission }),
+          user_role: context.user.role,
+          user_roles: context.user.roles,
+          effective_roles: context.user.effectiveRoles,
+          scope: context.user.scope,
+        });
       }
 
       return await handler(context);
-    });
+    }, scope);
   };
 }
 
-export function requireAdmin(handler: (context: AuthContext) => Promise<NextResponse>) {
+// Passes when the user holds any of the accepted roles, directly or through inheritance,
+// so requireRole('qa') also admits admins
+export function requireRole(...acceptedRoles: string[]): AuthGuard {
+  return requireAccess({ roles: acceptedRoles });
+}
+
+// requireRole for another application's scope
+export function requireScopedRole(scope: string, ...acceptedRoles: string[]): AuthGuard {
+  return requireAccess({ roles: acceptedRoles, scope });
+}
+
+export function requirePermission(permission: Permission, scope: string = getAppScope()): AuthGuard {
+  return requireAccess({ permission, scope });
+}
+
+export function requireAdmin(handler: AuthHandler) {
   return requireRole('admin')(handler);
 }
 
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  
-  if (realIP) {
-    return realIP;
-  }
-  
-  return 'unknown';
+// Wraps a handler in middlewares given outermost first
+export function composeMiddleware(middleware: RouteMiddleware[], handler: RouteHandler): RouteHandler {
+  return middleware.reduceRight<RouteHandler>((next, wrap) => wrap(next), handler);
 }
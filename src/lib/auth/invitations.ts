@@ -0,0 +1,295 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { query } from '../database/connection';
+import { allowListService } from './allowlist';
+import { mailer } from '../mail/mailer';
+import { DEFAULT_ROLE } from './permissions';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface Invitation {
+  id: string;
+  email: string;
+  display_name: string | null;
+  role: string;
+  status: InvitationStatus;
+  invited_by: string | null;
+  created_at: Date;
+  expires_at: Date;
+  last_sent_at: Date | null;
+  send_count: number;
+  accepted_at: Date | null;
+  revoked_at: Date | null;
+  revoked_by: string | null;
+}
+
+// Cookie that carries the invite token through the IdP sign-in round trip
+export const INVITE_COOKIE_NAME = 'invite-token';
+
+const INVITATION_COLUMNS = 'id, email, display_name, role, status, invited_by, created_at, expires_at, last_sent_at, send_count, accepted_at, revoked_at, revoked_by';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getInviteExpiryDays(): number {
+  return parseInt(process.env.INVITE_EXPIRY_DAYS || '7', 10);
+}
+
+function getInviteSecret(): string {
+  const secret = process.env.SESSION_COOKIE_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_COOKIE_SECRET is required to sign invitation tokens');
+  }
+  return secret;
+}
+
+// Tokens are `<invitation id>.<signature>`. The signature binds the id, email and expiry,
+// so re-sending an invitation with a new expiry invalidates previously issued links.
+export function createInviteToken(invitation: Pick<Invitation, 'id' | 'email' | 'expires_at'>): string {
+  const payload = `${invitation.id}:${invitation.email.toLowerCase()}:${new Date(invitation.expires_at).toISOString()}`;
+  const signature = createHmac('sha256', getInviteSecret()).update(payload).digest('base64url');
+  return `${invitation.id}.${signature}`;
+}
+
+export function getInvitationIdFromToken(token: string): string | null {
+  const [id] = token.split('.');
+  return UUID_PATTERN.test(id) ? id : null;
+}
+
+function isTokenForInvitation(token: string, invitation: Invitation): boolean {
+  const expected = Buffer.from(createInviteToken(invitation));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+class InvitationService {
+  async createInvitation(
+    email: string,
+    displayName: string | null,
+    role: string = DEFAULT_ROLE,
+    invitedBy: string
+  ): Promise<{ success: boolean; invitation?: Invitation; delivered?: boolean; error?: string }> {
+    try {
+      const normalizedEmail = email.toLowerCase().trim();
+
+      await this.expireStaleInvitations();
+
+      // Accepting only ever adds new entries, so emails already on the allow list (disabled ones included)
+      // are managed there instead
+      const result = await query(
+        `INSERT INTO auth_invitations (email, display_name, role, invited_by, expires_at, last_sent_at, send_count)
+         SELECT $1, $2, $3, $4, now() + make_interval(days => $5), now(), 1
+         WHERE NOT EXISTS (SELECT 1 FROM auth_allowed_emails WHERE email = $1) RETURNING ${INVITATION_COLUMNS}`,
+        [normalizedEmail, displayName, role, invitedBy, getInviteExpiryDays()]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'This email is already on the allow list' };
+      }
+
+      const invitation = result.rows[0] as Invitation;
+      const delivery = await this.sendInvitationEmail(invitation);
+
+      return { success: true, invitation, delivered: delivery.success };
+    } catch (error) {
+      if ((error as { code?: string })?.code === '23505') {
+        return { success: false, error: 'A pending invitation already exists for this email' };
+      }
+
+      if ((error as { code?: string })?.code === '23503') {
+        return { success: false, error: 'Unknown role' };
+      }
+
+      console.error('Create invitation error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Re-sends a pending (or lapsed) invitation with a fresh expiry; earlier links stop working
+  async resendInvitation(id: string): Promise<{ success: boolean; invitation?: Invitation; delivered?: boolean; error?: string }> {
+    try {
+      if (!UUID_PATTERN.test(id)) {
+        return { success: false, error: 'Invitation not found' };
+      }
+
+      const result = await query(
+        `UPDATE auth_invitations SET status = 'pending', expires_at = now() + make_interval(days => $2), last_sent_at = now(), send_count = send_count + 1 WHERE id = $1 AND status IN ('pending', 'expired') RETURNING ${INVITATION_COLUMNS}`,
+        [id, getInviteExpiryDays()]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Invitation not found or no longer pending' };
+      }
+
+      const invitation = result.rows[0] as Invitation;
+      const delivery = await this.sendInvitationEmail(invitation);
+
+      return { success: true, invitation, delivered: delivery.success };
+    } catch (error) {
+      console.error('Resend invitation error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async revokeInvitation(id: string, revokedBy: string): Promise<{ success: boolean; invitation?: Invitation; error?: string }> {
+    try {
+      if (!UUID_PATTERN.test(id)) {
+        return { success: false, error: 'Invitation not found' };
+      }
+
+      const result = await query(
+        `UPDATE auth_invitations SET status = 'revoked', revoked_at = now(), revoked_by = $2 WHERE id = $1 AND status IN ('pending', 'expired') RETURNING ${INVITATION_COLUMNS}`,
+        [id, revokedBy]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Invitation not found or no longer pending' };
+      }
+
+      return { success: true, invitation: result.rows[0] as Invitation };
+    } catch (error) {
+      console.error('Revoke invitation error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async getInvitations(status?: InvitationStatus): Promise<{ invitations: Invitation[]; error?: string }> {
+    try {
+      await this.expireStaleInvitations();
+
+      const result = status
+        ? await query(`SELECT ${INVITATION_COLUMNS} FROM auth_invitations WHERE status = $1 ORDER BY created_at DESC`, [status])
+        : await query(`SELECT ${INVITATION_COLUMNS} FROM auth_invitations ORDER BY created_at DESC LIMIT 200`);
+
+      return { invitations: result.rows as Invitation[] };
+    } catch (error) {
+      console.error('Get invitations error:', error);
+      return {
+        invitations: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Looks up a pending invitation for a token without consuming it
+  async findPendingInvitation(token: string): Promise<{ invitation?: Invitation; error?: string }> {
+    try {
+      const id = getInvitationIdFromToken(token);
+      if (!id) {
+        return { error: 'Invalid invitation token' };
+      }
+
+      const result = await query(
+        `SELECT ${INVITATION_COLUMNS} FROM auth_invitations WHERE id = $1`,
+        [id]
+      );
+
+      const invitation = result.rows[0] as Invitation | undefined;
+
+      if (!invitation || !isTokenForInvitation(token, invitation)) {
+        return { error: 'Invalid invitation token' };
+      }
+
+      if (invitation.status !== 'pending') {
+        return { invitation, error: `Invitation is ${invitation.status}` };
+      }
+
+      if (new Date(invitation.expires_at).getTime() <= Date.now()) {
+        return { invitation, error: 'Invitation has expired' };
+      }
+
+      return { invitation };
+    } catch (error) {
+      console.error('Find invitation error:', error);
+      return { error: error instanceof Error ? error.message : 'Database error' };
+    }
+  }
+
+  // Consumes an invitation on first sign-in and adds the invitee to the allow list. An entry created for the
+  // email since the invitation was sent wins: it is left as it is and the invitation stays pending.
+  async acceptInvitation(token: string, signedInEmail: string): Promise<{ success: boolean; invitation?: Invitation; error?: string }> {
+    try {
+      const { invitation, error } = await this.findPendingInvitation(token);
+
+      if (!invitation || error) {
+        return { success: false, invitation, error: error || 'Invalid invitation token' };
+      }
+
+      if (invitation.email.toLowerCase() !== signedInEmail.toLowerCase().trim()) {
+        return { success: false, invitation, error: 'Invitation was issued to a different email' };
+      }
+
+      // Single use: only one request can move the invitation out of pending
+      const result = await query(
+        `UPDATE auth_invitations SET status = 'accepted', accepted_at = now() WHERE id = $1 AND status = 'pending' RETURNING ${INVITATION_COLUMNS}`,
+        [invitation.id]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, invitation, error: 'Invitation has already been used' };
+      }
+
+      const added = await allowListService.insertUser(
+        invitation.email,
+        invitation.display_name || '',
+        invitation.role,
+        invitation.invited_by || 'invitation'
+      );
+
+      if (!added.success) {
+        await query(
+          `UPDATE auth_invitations SET status = 'pending', accepted_at = NULL WHERE id = $1`,
+          [invitation.id]
+        );
+        return { success: false, invitation, error: added.error };
+      }
+
+      return { success: true, invitation: result.rows[0] as Invitation };
+    } catch (error) {
+      console.error('Accept invitation error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  private async expireStaleInvitations(): Promise<void> {
+    await query(
+      `UPDATE auth_invitations SET status = 'expired' WHERE status = 'pending' AND expires_at <= now()`
+    );
+  }
+
+  private async sendInvitationEmail(invitation: Invitation): Promise<{ success: boolean; error?: string }> {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const link = `${appUrl}/api/auth/invite?token=${encodeURIComponent(createInviteToken(invitation))}`;
+    const expires = new Date(invitation.expires_at).toUTCString();
+
+    return await mailer.send({
+      to: invitation.email,
+      subject: 'You have been invited',
+      text: [
+        `Hi${invitation.display_name ? ` ${invitation.display_name}` : ''},`,
+        '',
+        `${invitation.invited_by || 'An administrator'} has invited you to sign in with the ${invitation.role} role.`,
+        '',
+        `Accept the invitation: ${link}`,
+        '',
+        `This link can be used once and expires on ${expires}.`,
+      ].join('\n'),
+    });
+  }
+}
+
+// Singleton instance
+const invitationService = new InvitationService();
+
+export { invitationService };
+export default invitationService;
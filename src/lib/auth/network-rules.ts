@@ -0,0 +1,248 @@
+import { query } from '../database/connection';
+import { createCache } from '../cache';
+import { isInNetwork, parseNetwork } from '../client-ip';
+import { roleService } from './roles';
+
+export type NetworkRuleAction = 'allow' | 'deny';
+
+export interface NetworkRule {
+  id: number;
+  cidr: string;
+  action: NetworkRuleAction;
+  // null applies the rule to everyone; otherwise to holders of this role
+  role: string | null;
+  description: string | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export type NetworkDenialReason = 'network_denied' | 'network_not_allowed';
+
+export interface NetworkCheckResult {
+  allowed: boolean;
+  // network_denied: the address is inside a deny rule
+  // network_not_allowed: the scope has allow rules and the address is in none of them
+  reason?: NetworkDenialReason;
+  // The deny rule that matched
+  rule?: NetworkRule;
+  // The scope whose allow rules were not met; null for the global rules
+  role?: string | null;
+  error?: string;
+}
+
+// The caller of an admin change, so a rule that would lock them out can be refused
+export interface NetworkCaller {
+  ip: string | null;
+  roles: string[];
+}
+
+const RULE_COLUMNS = 'id, cidr::text AS cidr, action, role, description, created_by, created_at';
+
+// Rules apply to everyone (role null) or to holders of the role. Deny rules win; a scope with allow rules
+// admits only addresses inside one of them, and an unknown address can't be shown to be inside any.
+export function evaluateNetworkRules(rules: NetworkRule[], ip: string | null, roles: string[]): NetworkCheckResult {
+  const applicable = rules.filter(rule => rule.role === null || roles.includes(rule.role));
+  const matches = (rule: NetworkRule) => {
+    const network = parseNetwork(rule.cidr);
+    return !!ip && !!network && isInNetwork(ip, network);
+  };
+
+  const denyRule = applicable.find(rule => rule.action === 'deny' && matches(rule));
+
+  if (denyRule) {
+    return { allowed: false, reason: 'network_denied', rule: denyRule };
+  }
+
+  const scopes: (string | null)[] = [null, ...roles];
+  const unmet = scopes.find(scope => {
+    const allowRules = applicable.filter(rule => rule.action === 'allow' && rule.role === scope);
+    return allowRules.length > 0 && !allowRules.some(matches);
+  });
+
+  if (unmet !== undefined) {
+    return { allowed: false, reason: 'network_not_allowed', role: unmet };
+  }
+
+  return { allowed: true };
+}
+
+// Audit details for a blocked request; reason is network_denied or network_not_allowed
+export function getNetworkDenialDetails(result: NetworkCheckResult): Record<string, any> {
+  if (result.reason === 'network_denied') {
+    return { reason: result.reason, rule_id: result.rule?.id, cidr: result.rule?.cidr, restricted_role: result.rule?.role };
+  }
+
+  return { reason: 'network_not_allowed', restricted_role: result.role };
+}
+
+class NetworkRuleService {
+  private cacheTimeout = 60 * 1000; // 1 minute
+  // Every rule under one key; changes invalidate it on every instance (see createCache)
+  private cache = createCache<NetworkRule[]>('network-rules', this.cacheTimeout);
+
+  // Global rules always apply; a role's rules also apply to holders of any role inheriting it, so a role
+  // built on admin is held to admin's networks. Without roles, e.g. before the user is known, only the
+  // global rules apply.
+  async checkAccess(ip: string | null, roles: string[] = []): Promise<NetworkCheckResult> {
+    try {
+      return evaluateNetworkRules(await this.loadRules(), ip, await this.effectiveRoles(roles));
+    } catch (error) {
+      console.error('Network rule check error:', error);
+      return {
+        allowed: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async getRules(): Promise<{ rules: NetworkRule[]; error?: string }> {
+    try {
+      const result = await query(
+        `SELECT ${RULE_COLUMNS} FROM auth_network_rules ORDER BY role NULLS FIRST, action, cidr`
+      );
+
+      return { rules: result.rows as NetworkRule[] };
+    } catch (error) {
+      console.error('Get network rules error:', error);
+      return {
+        rules: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async addRule(
+    cidr: string,
+    action: string,
+    role: string | null,
+    description: string | null,
+    createdBy: string,
+    caller?: NetworkCaller
+  ): Promise<{ success: boolean; rule?: NetworkRule; error?: string }> {
+    try {
+      const network = parseNetwork(cidr);
+
+      if (!network) {
+        return { success: false, error: 'Invalid network, expected an address or CIDR such as 10.0.0.0/8' };
+      }
+
+      if (action !== 'allow' && action !== 'deny') {
+        return { success: false, error: 'Action must be "allow" or "deny"' };
+      }
+
+      const candidate: NetworkRule = {
+        id: 0,
+        cidr: `${network.address}/${network.prefix}`,
+        action,
+        role: role || null,
+        description,
+        created_by: createdBy,
+        created_at: new Date(),
+      };
+
+      if (caller && !(await this.wouldAdmit(caller, rules => [...rules, candidate]))) {
+        return { success: false, error: 'This rule would block your own access' };
+      }
+
+      const result = await query(
+        `INSERT INTO auth_network_rules (cidr, action, role, description, created_by) VALUES ($1, $2, $3, $4, $5) RETURNING ${RULE_COLUMNS}`,
+        [candidate.cidr, action, candidate.role, description, createdBy]
+      );
+
+      await this.cache.invalidate('all');
+
+      return { success: true, rule: result.rows[0] as NetworkRule };
+    } catch (error) {
+      const code = (error as { code?: string })?.code;
+
+      // Host bits set, e.g. 10.0.0.1/8
+      if (code === '22P02') {
+        return { success: false, error: 'Invalid network, the address must be the first address of the range' };
+      }
+
+      if (code === '23505') {
+        return { success: false, error: 'This network rule already exists' };
+      }
+
+      // Roles reference auth_roles by foreign key
+      if (code === '23503') {
+        return { success: false, error: 'Unknown role' };
+      }
+
+      console.error('Add network rule error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async removeRule(id: number, caller?: NetworkCaller): Promise<{ success: boolean; rule?: NetworkRule; error?: string }> {
+    try {
+      // Removing the last allow rule of a scope opens it up, but removing one of several can lock the caller out
+      if (caller && !(await this.wouldAdmit(caller, rules => rules.filter(rule => rule.id !== id)))) {
+        return { success: false, error: 'Removing this rule would block your own access' };
+      }
+
+      const result = await query(
+        `DELETE FROM auth_network_rules WHERE id = $1 RETURNING ${RULE_COLUMNS}`,
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Network rule not found' };
+      }
+
+      await this.cache.invalidate('all');
+
+      return { success: true, rule: result.rows[0] as NetworkRule };
+    } catch (error) {
+      console.error('Remove network rule error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async wouldAdmit(caller: NetworkCaller, change: (rules: NetworkRule[]) => NetworkRule[]): Promise<boolean> {
+    const rules = await this.loadRules();
+    const roles = await this.effectiveRoles(caller.roles);
+
+    // A caller who is already blocked can't be locked out any further
+    if (!evaluateNetworkRules(rules, caller.ip, roles).allowed) {
+      return true;
+    }
+
+    return evaluateNetworkRules(change(rules), caller.ip, roles).allowed;
+  }
+
+  private async effectiveRoles(roles: string[]): Promise<string[]> {
+    return roles.length > 0 ? roleService.getEffectiveRoles(roles) : [];
+  }
+
+  private async loadRules(): Promise<NetworkRule[]> {
+    const cached = await this.cache.get('all');
+
+    if (cached) {
+      return cached;
+    }
+
+    const loadedAt = Date.now();
+    const result = await query(`SELECT ${RULE_COLUMNS} FROM auth_network_rules`);
+    const rules = result.rows as NetworkRule[];
+    await this.cache.set('all', rules, undefined, loadedAt);
+
+    return rules;
+  }
+}
+
+// Singleton instance
+const networkRuleService = new NetworkRuleService();
+
+export { networkRuleService };
+export default networkRuleService;
@@ -0,0 +1,36 @@
+// Permission catalog, role-name and scope rules.
+// Kept free of database imports so client components and input sanitization can use it.
+
+export const PERMISSIONS = {
+  'users:read': 'View the allow list, rules, invitations and access requests',
+  'users:write': 'Add, remove and change access for users, rules, invitations and access requests',
+  'audit:read': 'View audit logs and statistics',
+  'roles:write': 'Create, edit and delete roles',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Built-in role that always holds every permission, so the admin panel can't lock itself out
+export const SUPERUSER_ROLE = 'admin';
+
+export const DEFAULT_ROLE = 'viewer';
+
+// Scope used when an application doesn't set APP_SCOPE
+export const DEFAULT_SCOPE = 'default';
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,49}$/;
+
+export function isValidRoleName(name: string): boolean {
+  return ROLE_NAME_PATTERN.test(name);
+}
+
+// Scopes name the application a role assignment applies to and follow the same rules as role names
+export function isValidScopeName(name: string): boolean {
+  return ROLE_NAME_PATTERN.test(name);
+}
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
@@ -0,0 +1,312 @@
+import { query } from '../database/connection';
+import { createCache } from '../cache';
+import { Permission, ALL_PERMISSIONS, SUPERUSER_ROLE, isValidRoleName, isPermission } from './permissions';
+
+export interface Role {
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  // Roles this role inherits identity and permissions from, e.g. admin -> qa -> viewer
+  inherits: string[];
+  built_in: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const ROLE_COLUMNS = 'name, description, permissions, inherits, built_in, created_by, created_at, updated_at';
+
+// Walks the inheritance graph from one or more roles; the result includes the roles themselves.
+// Tolerates cycles and dangling names so a bad row can't take down the guard.
+export function resolveEffectiveRoles(roleNames: string | string[], roles: Pick<Role, 'name' | 'inherits'>[]): string[] {
+  const held = Array.isArray(roleNames) ? roleNames : [roleNames];
+
+  if (held.includes(SUPERUSER_ROLE)) {
+    return [...held, ...roles.map(r => r.name).filter(name => !held.includes(name))];
+  }
+
+  const byName = new Map<string, Pick<Role, 'name' | 'inherits'>>();
+  roles.forEach(role => byName.set(role.name, role));
+
+  const effective: string[] = [];
+  const pending = [...held];
+
+  while (pending.length > 0) {
+    const name = pending.shift()!;
+    if (effective.includes(name)) {
+      continue;
+    }
+
+    effective.push(name);
+    pending.push(...(byName.get(name)?.inherits || []));
+  }
+
+  return effective;
+}
+
+class RoleService {
+  private cacheTimeout = 5 * 60 * 1000; // 5 minutes
+  // Every role under one key; changes invalidate it on every instance (see createCache)
+  private rolesCache = createCache<Role[]>('roles', this.cacheTimeout);
+
+  async getRoles(): Promise<{ roles: Role[]; error?: string }> {
+    try {
+      return { roles: await this.loadRoles() };
+    } catch (error) {
+      console.error('Get roles error:', error);
+      return {
+        roles: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // The roles plus everything they inherit; the superuser role satisfies every role
+  async getEffectiveRoles(roleNames: string | string[]): Promise<string[]> {
+    return resolveEffectiveRoles(roleNames, await this.loadRoles());
+  }
+
+  async getPermissionsForRole(roleName: string): Promise<Permission[]> {
+    return this.getPermissionsForRoles([roleName]);
+  }
+
+  // Union of the permissions of every effective role. Unknown roles resolve to no permissions.
+  async getPermissionsForRoles(roleNames: string[]): Promise<Permission[]> {
+    if (roleNames.includes(SUPERUSER_ROLE)) {
+      return [...ALL_PERMISSIONS];
+    }
+
+    const roles = await this.loadRoles();
+    const effectiveRoles = resolveEffectiveRoles(roleNames, roles);
+    const granted = roles
+      .filter(r => effectiveRoles.includes(r.name))
+      .reduce<string[]>((all, r) => all.concat(r.permissions), []);
+
+    return this.uniquePermissions(granted);
+  }
+
+  async hasPermission(roleNames: string | string[], permission: Permission): Promise<boolean> {
+    const permissions = await this.getPermissionsForRoles(Array.isArray(roleNames) ? roleNames : [roleNames]);
+    return permissions.includes(permission);
+  }
+
+  // Whether someone holding granterRoles may hand out `role`: they must already hold every permission it
+  // carries, and the superuser role needs the superuser role itself or roles:write. Keeps users:write from
+  // being a path to full admin.
+  async canGrant(granterRoles: string[], role: string): Promise<{ allowed: boolean; error?: string }> {
+    try {
+      const granterPermissions = await this.getPermissionsForRoles(granterRoles);
+
+      if (role === SUPERUSER_ROLE) {
+        return granterRoles.includes(SUPERUSER_ROLE) || granterPermissions.includes('roles:write')
+          ? { allowed: true }
+          : { allowed: false, error: `Only ${SUPERUSER_ROLE}s and role managers can grant the ${SUPERUSER_ROLE} role` };
+      }
+
+      const missing = (await this.getPermissionsForRole(role)).filter(permission => !granterPermissions.includes(permission));
+
+      if (missing.length > 0) {
+        return { allowed: false, error: `You cannot grant a role with permissions you do not hold: ${missing.join(', ')}` };
+      }
+
+      return { allowed: true };
+    } catch (error) {
+      console.error('Check role grant error:', error);
+      return {
+        allowed: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async createRole(
+    name: string,
+    description: string | null,
+    permissions: string[],
+    createdBy: string,
+    inherits: string[] = []
+  ): Promise<{ success: boolean; role?: Role; error?: string }> {
+    try {
+      const normalizedName = name.trim().toLowerCase();
+
+      if (!isValidRoleName(normalizedName)) {
+        return { success: false, error: 'Role name must start with a letter and contain only lowercase letters, digits, "-" or "_"' };
+      }
+
+      const invalid = permissions.filter(p => !isPermission(p));
+      if (invalid.length > 0) {
+        return { success: false, error: `Unknown permissions: ${invalid.join(', ')}` };
+      }
+
+      const inheritsError = this.validateInherits(normalizedName, inherits, await this.loadRoles());
+      if (inheritsError) {
+        return { success: false, error: inheritsError };
+      }
+
+      const result = await query(
+        `INSERT INTO auth_roles (name, description, permissions, inherits, created_by) VALUES ($1, $2, $3, $4, $5) RETURNING ${ROLE_COLUMNS}`,
+        [normalizedName, description, this.uniquePermissions(permissions), this.uniqueRoles(inherits), createdBy]
+      );
+
+      await this.rolesCache.invalidate('all');
+
+      return { success: true, role: result.rows[0] as Role };
+    } catch (error) {
+      if ((error as { code?: string })?.code === '23505') {
+        return { success: false, error: 'A role with this name already exists' };
+      }
+
+      console.error('Create role error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async updateRole(
+    name: string,
+    description: string | null,
+    permissions: string[],
+    inherits?: string[]
+  ): Promise<{ success: boolean; role?: Role; previous?: Pick<Role, 'permissions' | 'inherits'>; error?: string }> {
+    try {
+      if (name === SUPERUSER_ROLE) {
+        return { success: false, error: `The ${SUPERUSER_ROLE} role always has every permission and cannot be edited` };
+      }
+
+      const invalid = permissions.filter(p => !isPermission(p));
+      if (invalid.length > 0) {
+        return { success: false, error: `Unknown permissions: ${invalid.join(', ')}` };
+      }
+
+      const roles = await this.loadRoles();
+      const existing = roles.find(r => r.name === name);
+
+      if (!existing) {
+        return { success: false, error: 'Role not found' };
+      }
+
+      const nextInherits = inherits ?? existing.inherits;
+      const inheritsError = this.validateInherits(name, nextInherits, roles);
+      if (inheritsError) {
+        return { success: false, error: inheritsError };
+      }
+
+      const result = await query(
+        `UPDATE auth_roles SET description = $2, permissions = $3, inherits = $4 WHERE name = $1 RETURNING ${ROLE_COLUMNS}`,
+        [name, description, this.uniquePermissions(permissions), this.uniqueRoles(nextInherits)]
+      );
+
+      await this.rolesCache.invalidate('all');
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Role not found' };
+      }
+
+      return {
+        success: true,
+        role: result.rows[0] as Role,
+        previous: { permissions: existing.permissions, inherits: existing.inherits },
+      };
+    } catch (error) {
+      console.error('Update role error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async deleteRole(name: string): Promise<{ success: boolean; role?: Role; error?: string }> {
+    try {
+      const result = await query(
+        `DELETE FROM auth_roles WHERE name = $1 AND built_in = false RETURNING ${ROLE_COLUMNS}`,
+        [name]
+      );
+
+      if (result.rows.length === 0) {
+        await this.rolesCache.invalidate('all');
+        return { success: false, error: 'Role not found or is built in' };
+      }
+
+      // Inheritance is an array column, so it has no foreign key to clean up after us
+      await query(
+        'UPDATE auth_roles SET inherits = array_remove(inherits, $1) WHERE $1 = ANY(inherits)',
+        [name]
+      );
+
+      await this.rolesCache.invalidate('all');
+
+      return { success: true, role: result.rows[0] as Role };
+    } catch (error) {
+      // Users, rules, invitations and access requests reference roles by foreign key
+      if ((error as { code?: string })?.code === '23503') {
+        return { success: false, error: 'Role is still assigned and cannot be deleted' };
+      }
+
+      console.error('Delete role error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  clearCache(): void {
+    this.rolesCache.clear();
+  }
+
+  private async loadRoles(): Promise<Role[]> {
+    const cached = await this.rolesCache.get('all');
+
+    if (cached) {
+      return cached;
+    }
+
+    const loadedAt = Date.now();
+    const result = await query(`SELECT ${ROLE_COLUMNS} FROM auth_roles ORDER BY built_in DESC, name ASC`);
+    const roles = result.rows.map((row: Omit<Role, 'permissions' | 'inherits'> & { permissions: string[] | null; inherits: string[] | null }) => ({
+      ...row,
+      // Drop permissions that are no longer in the catalog
+      permissions: (row.permissions || []).filter(isPermission),
+      inherits: row.inherits || [],
+    })) as Role[];
+
+    await this.rolesCache.set('all', roles, undefined, loadedAt);
+    return roles;
+  }
+
+  // Parents must exist and must not already inherit from the role, which would form a cycle
+  private validateInherits(name: string, inherits: string[], roles: Role[]): string | null {
+    if (inherits.includes(name)) {
+      return 'A role cannot inherit from itself';
+    }
+
+    const unknown = inherits.filter(parent => !roles.some(r => r.name === parent));
+    if (unknown.length > 0) {
+      return `Unknown roles: ${unknown.join(', ')}`;
+    }
+
+    const cyclic = inherits.filter(parent => parent === SUPERUSER_ROLE || resolveEffectiveRoles(parent, roles).includes(name));
+    if (cyclic.length > 0) {
+      return `Inheriting from ${cyclic.join(', ')} would create a cycle`;
+    }
+
+    return null;
+  }
+
+  private uniquePermissions(permissions: string[]): Permission[] {
+    return ALL_PERMISSIONS.filter(p => permissions.includes(p));
+  }
+
+  private uniqueRoles(roles: string[]): string[] {
+    return roles.filter((role, index) => roles.indexOf(role) === index);
+  }
+}
+
+// Singleton instance
+const roleService = new RoleService();
+
+export { roleService };
+export default roleService;
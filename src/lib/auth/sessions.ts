@@ -0,0 +1,351 @@
+import { clerkClient } from '@clerk/nextjs/server';
+import { query } from '../database/connection';
+import { toInet } from '../client-ip';
+import { getSessionIdleTimeout, getSessionTimeout } from '../session-security';
+
+export interface AuthSession {
+  id: string;
+  email: string;
+  created_at: Date;
+  expires_at: Date;
+  last_accessed: Date;
+  ip_address: string | null;
+  user_agent: string | null;
+  active: boolean;
+  ended_at: Date | null;
+  end_reason: string | null;
+}
+
+// 'created': first request seen for this session, now recorded
+// 'expired': the session went idle too long or outlived its maximum lifetime, and was ended by this request
+// 'ended': the session was already ended (expired, signed out or invalidated)
+export type SessionTouchStatus = 'active' | 'created' | 'expired' | 'ended';
+
+// 'untracked': no row for this Clerk session yet; the API guard records it on the first API request
+export type SessionCheckStatus = 'active' | 'expired' | 'ended' | 'untracked';
+
+// The Clerk session id is never returned to callers
+const SESSION_COLUMNS = 'id, email, created_at, expires_at, last_accessed, ip_address, user_agent, active, ended_at, end_reason';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A live session is within both limits: expires_at is fixed at sign-in from the maximum lifetime, and the
+// idle timeout is counted from last_accessed. `idleParam` is the placeholder that holds the idle timeout.
+function liveCondition(idleParam: number): string {
+  return `active = true AND expires_at > now() AND last_accessed > now() - make_interval(secs => $${idleParam})`;
+}
+
+function staleCondition(idleParam: number): string {
+  return `active = true AND (expires_at <= now() OR last_accessed <= now() - make_interval(secs => $${idleParam}))`;
+}
+
+const EXPIRY_REASON = "CASE WHEN expires_at <= now() THEN 'max_lifetime' ELSE 'idle_timeout' END";
+
+class SessionService {
+  // Records a session at sign-in. Calling it again for the same Clerk session is a no-op.
+  async startSession(
+    email: string,
+    sessionToken: string,
+    ip: string | null,
+    userAgent: string | null
+  ): Promise<{ success: boolean; session?: AuthSession; created?: boolean; error?: string }> {
+    try {
+      const result = await query(
+        `INSERT INTO auth_sessions (email, session_token, expires_at, ip_address, user_agent) VALUES ($1, $2, now() + make_interval(secs => $3), $4, $5) ON CONFLICT (session_token) DO NOTHING RETURNING ${SESSION_COLUMNS}`,
+        [email.toLowerCase().trim(), sessionToken, getSessionTimeout(), toInet(ip), userAgent]
+      );
+
+      if (result.rows.length > 0) {
+        return { success: true, session: result.rows[0] as AuthSession, created: true };
+      }
+
+      const existing = await query(
+        `SELECT ${SESSION_COLUMNS} FROM auth_sessions WHERE session_token = $1`,
+        [sessionToken]
+      );
+
+      return { success: true, session: existing.rows[0] as AuthSession | undefined, created: false };
+    } catch (error) {
+      console.error('Start session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Called for every guarded request: bumps last_accessed on a live session, ends it once it has been idle
+  // too long or is past expires_at, and records sessions that started without passing through the sign-in callback.
+  async touchSession(
+    email: string,
+    sessionToken: string,
+    ip: string | null,
+    userAgent: string | null
+  ): Promise<{ success: boolean; status?: SessionTouchStatus; session?: AuthSession; error?: string }> {
+    try {
+      const normalizedEmail = email.toLowerCase().trim();
+
+      const touched = await this.refreshSession(sessionToken, normalizedEmail, ip, userAgent);
+
+      if (touched) {
+        return { success: true, status: 'active', session: touched };
+      }
+
+      const expired = await this.expireSession(sessionToken, normalizedEmail);
+
+      if (expired) {
+        return { success: true, status: 'expired', session: expired };
+      }
+
+      const started = await this.startSession(normalizedEmail, sessionToken, ip, userAgent);
+
+      if (!started.success) {
+        return { success: false, error: started.error };
+      }
+
+      if (started.created) {
+        return { success: true, status: 'created', session: started.session };
+      }
+
+      // The token exists but is inactive, or belongs to another email
+      return { success: true, status: 'ended', session: started.session };
+    } catch (error) {
+      console.error('Touch session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Page requests only know the Clerk session id, not the email: applies the same limits as touchSession
+  // but leaves recording new sessions to the API guard
+  async checkSession(
+    sessionToken: string,
+    ip: string | null,
+    userAgent: string | null
+  ): Promise<{ success: boolean; status?: SessionCheckStatus; session?: AuthSession; error?: string }> {
+    try {
+      const touched = await this.refreshSession(sessionToken, null, ip, userAgent);
+
+      if (touched) {
+        return { success: true, status: 'active', session: touched };
+      }
+
+      const expired = await this.expireSession(sessionToken, null);
+
+      if (expired) {
+        return { success: true, status: 'expired', session: expired };
+      }
+
+      const existing = await query(
+        `SELECT ${SESSION_COLUMNS} FROM auth_sessions WHERE session_token = $1`,
+        [sessionToken]
+      );
+
+      if (existing.rows.length === 0) {
+        return { success: true, status: 'untracked' };
+      }
+
+      return { success: true, status: 'ended', session: existing.rows[0] as AuthSession };
+    } catch (error) {
+      console.error('Check session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  private async refreshSession(
+    sessionToken: string,
+    email: string | null,
+    ip: string | null,
+    userAgent: string | null
+  ): Promise<AuthSession | null> {
+    const result = await query(
+      `UPDATE auth_sessions SET last_accessed = now(), ip_address = COALESCE($3, ip_address), user_agent = COALESCE($4, user_agent) WHERE session_token = $1 AND ($2::text IS NULL OR email = $2) AND ${liveCondition(5)} RETURNING ${SESSION_COLUMNS}`,
+      [sessionToken, email, toInet(ip), userAgent, getSessionIdleTimeout()]
+    );
+
+    return (result.rows[0] as AuthSession | undefined) || null;
+  }
+
+  // Ends the session if it is idle or past its lifetime; end_reason records which limit it hit
+  private async expireSession(sessionToken: string, email: string | null): Promise<AuthSession | null> {
+    const result = await query(
+      `UPDATE auth_sessions SET active = false, ended_at = now(), end_reason = ${EXPIRY_REASON} WHERE session_token = $1 AND ($2::text IS NULL OR email = $2) AND ${staleCondition(3)} RETURNING ${SESSION_COLUMNS}`,
+      [sessionToken, email, getSessionIdleTimeout()]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    await this.revokeIdentitySession(sessionToken);
+
+    return result.rows[0] as AuthSession;
+  }
+
+  async endSession(
+    sessionToken: string,
+    reason: string
+  ): Promise<{ success: boolean; session?: AuthSession; error?: string }> {
+    try {
+      const result = await query(
+        `UPDATE auth_sessions SET active = false, ended_at = now(), end_reason = $2 WHERE session_token = $1 AND active = true RETURNING ${SESSION_COLUMNS}`,
+        [sessionToken, reason]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Session not found or already ended' };
+      }
+
+      return { success: true, session: result.rows[0] as AuthSession };
+    } catch (error) {
+      console.error('End session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Ends every live session of a user, e.g. when they are disabled or removed, and revokes the matching
+  // Clerk sessions so the identity provider stops accepting them too
+  async endSessionsForUser(
+    email: string,
+    reason: string
+  ): Promise<{ success: boolean; sessions: AuthSession[]; error?: string }> {
+    try {
+      const result = await query(
+        `UPDATE auth_sessions SET active = false, ended_at = now(), end_reason = $2 WHERE email = $1 AND active = true RETURNING ${SESSION_COLUMNS}, session_token`,
+        [email.toLowerCase().trim(), reason]
+      );
+
+      const rows = result.rows as (AuthSession & { session_token: string })[];
+      await Promise.all(rows.map(row => this.revokeIdentitySession(row.session_token)));
+
+      return { success: true, sessions: rows.map(({ session_token: _token, ...session }) => session) };
+    } catch (error) {
+      console.error('End user sessions error:', error);
+      return {
+        success: false,
+        sessions: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Ends one session by its id, e.g. when an admin terminates it
+  async terminateSession(
+    id: string,
+    reason: string
+  ): Promise<{ success: boolean; session?: AuthSession; error?: string }> {
+    try {
+      if (!UUID_PATTERN.test(id)) {
+        return { success: false, error: 'Invalid session id' };
+      }
+
+      const result = await query(
+        `UPDATE auth_sessions SET active = false, ended_at = now(), end_reason = $2 WHERE id = $1 AND active = true RETURNING ${SESSION_COLUMNS}, session_token`,
+        [id, reason]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Session not found or already ended' };
+      }
+
+      const { session_token: sessionToken, ...session } = result.rows[0] as AuthSession & { session_token: string };
+      await this.revokeIdentitySession(sessionToken);
+
+      return { success: true, session };
+    } catch (error) {
+      console.error('Terminate session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Best effort: the tracked session is already ended, so the guard refuses it either way
+  private async revokeIdentitySession(sessionToken: string): Promise<void> {
+    try {
+      const client = await clerkClient();
+      await client.sessions.revokeSession(sessionToken);
+    } catch (error) {
+      console.error('Revoke Clerk session error:', error);
+    }
+  }
+
+  // Active sessions for one user, most recently used first. `current` marks the caller's own session.
+  async getActiveSessions(
+    email: string,
+    currentSessionToken?: string | null
+  ): Promise<{ sessions: (AuthSession & { current: boolean })[]; error?: string }> {
+    try {
+      const result = await query(
+        `SELECT ${SESSION_COLUMNS}, session_token = $2 AS current FROM auth_sessions WHERE email = $1 AND ${liveCondition(3)} ORDER BY last_accessed DESC`,
+        [email.toLowerCase().trim(), currentSessionToken || null, getSessionIdleTimeout()]
+      );
+
+      return { sessions: result.rows.map((row: AuthSession & { current: boolean | null }) => ({ ...row, current: row.current === true })) };
+    } catch (error) {
+      console.error('Get active sessions error:', error);
+      return {
+        sessions: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Active sessions across all users, most recently used first, optionally for one email
+  async getSessions(filters: { email?: string } = {}): Promise<{ sessions: AuthSession[]; error?: string }> {
+    try {
+      const params: (string | number)[] = [getSessionIdleTimeout()];
+      let emailCondition = '';
+
+      if (filters.email) {
+        params.push(filters.email.toLowerCase().trim());
+        emailCondition = ' AND email = $2';
+      }
+
+      const result = await query(
+        `SELECT ${SESSION_COLUMNS} FROM auth_sessions WHERE ${liveCondition(1)}${emailCondition} ORDER BY last_accessed DESC`,
+        params
+      );
+
+      return { sessions: result.rows as AuthSession[] };
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      return {
+        sessions: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Ends every idle or expired session, for sessions that never come back to be expired on access
+  async expireSessions(): Promise<{ sessions: AuthSession[]; error?: string }> {
+    try {
+      const result = await query(
+        `UPDATE auth_sessions SET active = false, ended_at = now(), end_reason = ${EXPIRY_REASON} WHERE ${staleCondition(1)} RETURNING ${SESSION_COLUMNS}, session_token`,
+        [getSessionIdleTimeout()]
+      );
+
+      const rows = result.rows as (AuthSession & { session_token: string })[];
+      await Promise.all(rows.map(row => this.revokeIdentitySession(row.session_token)));
+
+      return { sessions: rows.map(({ session_token: _token, ...session }) => session) };
+    } catch (error) {
+      console.error('Expire sessions error:', error);
+      return {
+        sessions: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,213 @@
+import { redis, isRedisConfigured } from './redis';
+
+export type CacheBackend = 'memory' | 'redis';
+
+export interface CacheMetrics {
+  backend: CacheBackend;
+  hits: number;
+  misses: number;
+  sets: number;
+  invalidations: number;
+  // Redis calls that failed; the cache then behaves as a miss
+  errors: number;
+}
+
+// A keyed cache whose invalidations take effect on every instance
+export interface Cache<T> {
+  get(key: string): Promise<T | undefined>;
+  // ttlMs overrides the cache's TTL for this entry, e.g. to keep negative results briefly. loadedAt is when
+  // the value was read from its source (Date.now() taken before the query); if the key was invalidated
+  // since, the value may predate the change and is not stored.
+  set(key: string, value: T, ttlMs?: number, loadedAt?: number): Promise<void>;
+  invalidate(key: string): Promise<void>;
+  // Drops whatever this instance holds and resets its metrics
+  clear(): void;
+  getMetrics(): CacheMetrics;
+}
+
+function emptyMetrics(backend: CacheBackend): CacheMetrics {
+  return { backend, hits: 0, misses: 0, sets: 0, invalidations: 0, errors: 0 };
+}
+
+// Entries live in this process. When Redis is configured, invalidate() also writes a version stamp that
+// every other instance compares against its own copy before serving it.
+export class MemoryCache<T> implements Cache<T> {
+  private entries = new Map<string, { value: T; timestamp: number; ttlMs: number }>();
+  // When this instance last invalidated each key, for loads that were in flight at the time
+  private invalidatedAt = new Map<string, number>();
+  private metrics = emptyMetrics('memory');
+
+  constructor(private namespace: string, private ttlMs: number) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+
+    if (!entry || Date.now() - entry.timestamp >= entry.ttlMs || await this.isStale(key, entry.timestamp)) {
+      this.metrics.misses++;
+      return undefined;
+    }
+
+    this.metrics.hits++;
+    return entry.value;
+  }
+
+  async set(key: string, value: T, ttlMs: number = this.ttlMs, loadedAt?: number): Promise<void> {
+    const invalidatedAt = this.invalidatedAt.get(key);
+
+    if (loadedAt !== undefined && invalidatedAt !== undefined && invalidatedAt >= loadedAt) {
+      return;
+    }
+
+    // Dated from the load, so an invalidation another instance stamped while it ran still makes it stale
+    this.entries.set(key, { value, timestamp: loadedAt === undefined ? Date.now() : loadedAt, ttlMs });
+    this.metrics.sets++;
+  }
+
+  async invalidate(key: string): Promise<void> {
+    const now = Date.now();
+
+    this.entries.delete(key);
+    this.metrics.invalidations++;
+
+    // A load older than the TTL is long gone, so older records can go
+    this.invalidatedAt.forEach((at, stamped) => {
+      if (now - at > this.ttlMs) {
+        this.invalidatedAt.delete(stamped);
+      }
+    });
+    this.invalidatedAt.set(key, now);
+
+    if (!isRedisConfigured()) {
+      return;
+    }
+
+    try {
+      await redis.set(this.stampKey(key), now, { ex: Math.ceil(this.ttlMs / 1000) });
+    } catch (error) {
+      this.metrics.errors++;
+      console.error('Cache invalidation broadcast error:', error);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.invalidatedAt.clear();
+    this.metrics = emptyMetrics('memory');
+  }
+
+  getMetrics(): CacheMetrics {
+    return { ...this.metrics };
+  }
+
+  private async isStale(key: string, cachedAt: number): Promise<boolean> {
+    if (!isRedisConfigured()) {
+      return false;
+    }
+
+    try {
+      const invalidatedAt = await redis.get<number>(this.stampKey(key));
+      return invalidatedAt !== null && Number(invalidatedAt) >= cachedAt;
+    } catch (error) {
+      // Without the stamp the entry can't be trusted to be current
+      this.metrics.errors++;
+      console.error('Cache invalidation check error:', error);
+      return true;
+    }
+  }
+
+  private stampKey(key: string): string {
+    return `${this.namespace}:invalidated:${key}`;
+  }
+}
+
+// Entries live in Redis and are shared by every instance. invalidate() deletes the entry and stamps the key,
+// so a load still in flight on any instance doesn't write its result back. Values round-trip through JSON:
+// Date fields come back as ISO strings.
+export class RedisCache<T> implements Cache<T> {
+  private metrics = emptyMetrics('redis');
+
+  constructor(private namespace: string, private ttlMs: number) {}
+
+  async get(key: string): Promise<T | undefined> {
+    try {
+      const value = await redis.get<T>(this.entryKey(key));
+
+      if (value === null) {
+        this.metrics.misses++;
+        return undefined;
+      }
+
+      this.metrics.hits++;
+      return value;
+    } catch (error) {
+      this.metrics.errors++;
+      this.metrics.misses++;
+      console.error('Cache read error:', error);
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: T, ttlMs: number = this.ttlMs, loadedAt?: number): Promise<void> {
+    try {
+      if (loadedAt !== undefined) {
+        const invalidatedAt = await redis.get<number>(this.stampKey(key));
+
+        if (invalidatedAt !== null && Number(invalidatedAt) >= loadedAt) {
+          return;
+        }
+      }
+
+      await redis.set(this.entryKey(key), value, { px: ttlMs });
+      this.metrics.sets++;
+    } catch (error) {
+      this.metrics.errors++;
+      console.error('Cache write error:', error);
+    }
+  }
+
+  async invalidate(key: string): Promise<void> {
+    this.metrics.invalidations++;
+
+    try {
+      await redis.set(this.stampKey(key), Date.now(), { ex: Math.ceil(this.ttlMs / 1000) });
+      await redis.del(this.entryKey(key));
+    } catch (error) {
+      this.metrics.errors++;
+      console.error('Cache invalidation error:', error);
+    }
+  }
+
+  // Shared entries are left to their TTL
+  clear(): void {
+    this.metrics = emptyMetrics('redis');
+  }
+
+  getMetrics(): CacheMetrics {
+    return { ...this.metrics };
+  }
+
+  private entryKey(key: string): string {
+    return `${this.namespace}:entry:${key}`;
+  }
+
+  private stampKey(key: string): string {
+    return `${this.namespace}:invalidated:${key}`;
+  }
+}
+
+// CACHE_BACKEND picks the implementation; 'redis' needs Upstash configured and falls back to memory without it
+export function getCacheBackend(): CacheBackend {
+  if (process.env.CACHE_BACKEND === 'redis') {
+    if (isRedisConfigured()) {
+      return 'redis';
+    }
+
+    console.warn('CACHE_BACKEND=redis but Upstash Redis is not configured; using the in-memory cache');
+  }
+
+  return 'memory';
+}
+
+export function createCache<T>(namespace: string, ttlMs: number, backend: CacheBackend = getCacheBackend()): Cache<T> {
+  return backend === 'redis' ? new RedisCache<T>(namespace, ttlMs) : new MemoryCache<T>(namespace, ttlMs);
+}
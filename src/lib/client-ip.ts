@@ -0,0 +1,136 @@
+import { BlockList, isIP } from 'net';
+
+// Client IP resolution behind reverse proxies. Every proxy appends the address it received the request from
+// to X-Forwarded-For, so only the entries added by proxies we trust are reliable; anything further left was
+// sent by the client and can be forged. Configure one of:
+//   TRUSTED_PROXIES=10.0.0.0/8,2001:db8::/32  walk back from the nearest hop, skipping these networks
+//   TRUSTED_PROXY_HOPS=2                      a fixed number of proxies in front of the app (default 1)
+//   CLIENT_IP_HEADER=cf-connecting-ip         a header set by a proxy that every request must pass through
+
+// Strips ports and brackets ("203.0.113.7:443", "[2001:db8::1]:443") and returns the address only if it is a
+// real IP, so nothing else reaches an INET column
+export function toInet(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  let address = value.trim();
+
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(':'));
+  }
+
+  return isIP(address) ? address : null;
+}
+
+export interface Network {
+  address: string;
+  prefix: number;
+  type: 'ipv4' | 'ipv6';
+}
+
+// Parses "10.0.0.0/8" or "2001:db8::/32"; a bare address is a single-host network
+export function parseNetwork(value: string): Network | null {
+  const [address, prefix, ...rest] = value.trim().split('/');
+  const version = isIP(address);
+  const maxPrefix = version === 6 ? 128 : 32;
+  const bits = prefix === undefined ? maxPrefix : Number(prefix);
+
+  if (!version || rest.length > 0 || (prefix !== undefined && !/^\d+$/.test(prefix)) || bits > maxPrefix) {
+    return null;
+  }
+
+  return { address, prefix: bits, type: version === 6 ? 'ipv6' : 'ipv4' };
+}
+
+function addressType(ip: string): 'ipv4' | 'ipv6' {
+  return isIP(ip) === 6 ? 'ipv6' : 'ipv4';
+}
+
+export function isInNetwork(ip: string, network: Network): boolean {
+  const list = new BlockList();
+  list.addSubnet(network.address, network.prefix, network.type);
+  return list.check(ip, addressType(ip));
+}
+
+let trustedProxies: { source: string; list: BlockList | null } | null = null;
+
+// Parsed once per TRUSTED_PROXIES value; entries without a prefix length trust a single address
+function getTrustedProxies(): BlockList | null {
+  const source = process.env.TRUSTED_PROXIES || '';
+
+  if (trustedProxies && trustedProxies.source === source) {
+    return trustedProxies.list;
+  }
+
+  const entries = source.split(',').map(entry => entry.trim()).filter(Boolean);
+  let list: BlockList | null = null;
+
+  if (entries.length > 0) {
+    list = new BlockList();
+
+    entries.forEach(entry => {
+      const network = parseNetwork(entry);
+
+      if (!network) {
+        console.warn(`Ignoring invalid TRUSTED_PROXIES entry: ${entry}`);
+        return;
+      }
+
+      list!.addSubnet(network.address, network.prefix, network.type);
+    });
+  }
+
+  trustedProxies = { source, list };
+  return list;
+}
+
+function isTrustedProxy(list: BlockList, ip: string): boolean {
+  return list.check(ip, addressType(ip));
+}
+
+export function getTrustedProxyHops(): number {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10);
+  return isNaN(hops) || hops < 1 ? 1 : hops;
+}
+
+// The caller's address, or null when it can't be determined reliably
+export function getClientIP(request: Request): string | null {
+  const header = process.env.CLIENT_IP_HEADER?.trim().toLowerCase();
+
+  if (header) {
+    return toInet(request.headers.get(header)?.split(',')[0]);
+  }
+
+  const chain = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  if (chain.length === 0) {
+    return null;
+  }
+
+  const trusted = getTrustedProxies();
+
+  if (trusted) {
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const ip = toInet(chain[i]);
+
+      // A malformed hop means nothing to its left can be attributed
+      if (!ip) {
+        return null;
+      }
+
+      if (!isTrustedProxy(trusted, ip) || i === 0) {
+        return ip;
+      }
+    }
+  }
+
+  // Fewer hops than proxies means the request skipped some of them; the leftmost entry is the best we have
+  return toInet(chain[Math.max(0, chain.length - getTrustedProxyHops())]);
+}
@@ -16,8 +16,19 @@ interface EnvConfig {
   UPSTASH_REDIS_REST_URL?: string;
   UPSTASH_REDIS_REST_TOKEN?: string;
   SLACK_WEBHOOK_URL?: string;
+  ALERT_WEBHOOK_URL?: string;
+  ALERT_WEBHOOK_SECRET?: string;
+  ALERT_TRIGGERS?: string;
+  AUDIT_CHECKPOINT_SECRET?: string;
+  WEBHOOK_ALLOW_PRIVATE_TARGETS?: string;
   RATE_LIMIT_WINDOW_MS?: string;
   RATE_LIMIT_MAX_REQUESTS?: string;
+  MAIL_TRANSPORT?: string;
+  MAIL_FROM?: string;
+  MAIL_FILE_DIR?: string;
+  SMTP_URL?: string;
+  INVITE_EXPIRY_DAYS?: string;
+  APP_SCOPE?: string;
 }
 
 interface ValidationResult {
@@ -73,6 +84,10 @@ export function validateEnvironment(): ValidationResult {
     errors.push('NODE_ENV must be one of: development, staging, production');
   }
   
+  if (process.env.ALERT_WEBHOOK_URL && !process.env.ALERT_WEBHOOK_SECRET) {
+    errors.push('ALERT_WEBHOOK_SECRET is required when ALERT_WEBHOOK_URL is set');
+  }
+  
   // Check for warnings
   if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
     warnings.push('Redis not configured - rate limiting will use fallback mode');
@@ -86,6 +101,14 @@ export function validateEnvironment(): ValidationResult {
     warnings.push('NEXT_PUBLIC_APP_URL should use HTTPS in production');
   }
   
+  if (process.env.NODE_ENV === 'production' && !process.env.SMTP_URL) {
+    warnings.push('SMTP_URL not set - invitation and access request emails will not be sent in production');
+  }
+  
+  if (process.env.NODE_ENV === 'production' && !process.env.AUDIT_CHECKPOINT_SECRET) {
+    warnings.push('AUDIT_CHECKPOINT_SECRET not set - audit log checkpoints will not be signed');
+  }
+  
   return {
     isValid: errors.length === 0,
     errors,
@@ -127,8 +150,19 @@ export function getValidatedEnv(): EnvConfig {
     UPSTASH_REDIS_REST_URL: process.env.UPSTASH_REDIS_REST_URL,
     UPSTASH_REDIS_REST_TOKEN: process.env.UPSTASH_REDIS_REST_TOKEN,
     SLACK_WEBHOOK_URL: process.env.SLACK_WEBHOOK_URL,
+    ALERT_WEBHOOK_URL: process.env.ALERT_WEBHOOK_URL,
+    ALERT_WEBHOOK_SECRET: process.env.ALERT_WEBHOOK_SECRET,
+    ALERT_TRIGGERS: process.env.ALERT_TRIGGERS,
+    AUDIT_CHECKPOINT_SECRET: process.env.AUDIT_CHECKPOINT_SECRET,
+    WEBHOOK_ALLOW_PRIVATE_TARGETS: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS,
     RATE_LIMIT_WINDOW_MS: process.env.RATE_LIMIT_WINDOW_MS,
     RATE_LIMIT_MAX_REQUESTS: process.env.RATE_LIMIT_MAX_REQUESTS,
+    MAIL_TRANSPORT: process.env.MAIL_TRANSPORT,
+    MAIL_FROM: process.env.MAIL_FROM,
+    MAIL_FILE_DIR: process.env.MAIL_FILE_DIR,
+    SMTP_URL: process.env.SMTP_URL,
+    INVITE_EXPIRY_DAYS: process.env.INVITE_EXPIRY_DAYS,
+    APP_SCOPE: process.env.APP_SCOPE,
   };
 }
 
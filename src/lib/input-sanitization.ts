@@ -1,5 +1,7 @@
 import validator from 'validator';
 import sanitizeHtml from 'sanitize-html';
+import { normalizeAllowPattern, isValidAllowPattern } from './auth/allow-patterns';
+import { isValidRoleName, isValidScopeName } from './auth/permissions';
 
 export interface SanitizationOptions {
   allowHtml?: boolean;
@@ -93,6 +95,95 @@ export class InputSanitizer {
     };
   }
 
+  // Sanitize and validate an allow rule pattern (e.g. *@partner.com)
+  sanitizeEmailPattern(input: string): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let sanitizedValue = normalizeAllowPattern(input);
+
+    // Check if empty
+    if (!sanitizedValue) {
+      return {
+        isValid: false,
+        sanitizedValue: '',
+        errors: ['Pattern is required'],
+        warnings: [],
+      };
+    }
+
+    // Check length
+    if (this.options.maxLength && sanitizedValue.length > this.options.maxLength) {
+      errors.push(`Pattern must be no more than ${this.options.maxLength} characters`);
+    }
+
+    // Validate pattern format
+    if (!isValidAllowPattern(sanitizedValue)) {
+      errors.push('Pattern must look like *@example.com or *@*.example.com');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      sanitizedValue,
+      errors,
+      warnings,
+    };
+  }
+
+  // Sanitize and validate an ISO 8601 date/time (normalized to UTC ISO string)
+  sanitizeDateTime(input: string, fieldName: string = 'date'): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let sanitizedValue = String(input).trim();
+
+    if (!validator.isISO8601(sanitizedValue, { strict: true })) {
+      return {
+        isValid: false,
+        sanitizedValue: '',
+        errors: [`${fieldName} must be a valid ISO 8601 date`],
+        warnings: [],
+      };
+    }
+
+    sanitizedValue = new Date(sanitizedValue).toISOString();
+
+    return {
+      isValid: errors.length === 0,
+      sanitizedValue,
+      errors,
+      warnings,
+    };
+  }
+
+  // Sanitize and validate an http(s) URL, e.g. a webhook endpoint
+  sanitizeUrl(input: string, fieldName: string = 'url'): ValidationResult {
+    const sanitizedValue = String(input).trim();
+
+    if (!validator.isURL(sanitizedValue, { protocols: ['http', 'https'], require_protocol: true, require_tld: false })) {
+      return {
+        isValid: false,
+        sanitizedValue: '',
+        errors: [`${fieldName} must be a valid http or https URL`],
+        warnings: [],
+      };
+    }
+
+    if (this.options.maxLength && sanitizedValue.length > this.options.maxLength) {
+      return {
+        isValid: false,
+        sanitizedValue,
+        errors: [`${fieldName} must be no more than ${this.options.maxLength} characters`],
+        warnings: [],
+      };
+    }
+
+    return {
+      isValid: true,
+      sanitizedValue,
+      errors: [],
+      warnings: [],
+    };
+  }
+
   // Sanitize and validate text input
   sanitizeText(input: string, fieldName: string = 'text'): ValidationResult {
     const errors: string[] = [];
@@ -156,10 +247,27 @@ export class InputSanitizer {
     // Trim and normalize
     sanitizedValue = sanitizedValue.trim().toLowerCase();
 
-    // Validate against allowed roles
-    const allowedRoles = ['admin', 'viewer', 'editor'];
-    if (!allowedRoles.includes(sanitizedValue)) {
-      errors.push(`Role must be one of: ${allowedRoles.join(', ')}`);
+    // Roles are data, so only the name format is checked here; unknown roles are rejected by the database
+    if (!isValidRoleName(sanitizedValue)) {
+      errors.push('Role must start with a letter and contain only lowercase letters, digits, "-" or "_"');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      sanitizedValue,
+      errors,
+      warnings,
+    };
+  }
+
+  // Sanitize and validate an application scope name
+  sanitizeScope(input: string): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const sanitizedValue = input.trim().toLowerCase();
+
+    if (!isValidScopeName(sanitizedValue)) {
+      errors.push('Scope must start with a letter and contain only lowercase letters, digits, "-" or "_"');
     }
 
     return {
@@ -307,6 +415,21 @@ export function sanitizeEmail(input: string, options?: Partial<SanitizationOptio
   return sanitizer.sanitizeEmail(input);
 }
 
+export function sanitizeEmailPattern(input: string, options?: Partial<SanitizationOptions>): ValidationResult {
+  const sanitizer = new InputSanitizer(options);
+  return sanitizer.sanitizeEmailPattern(input);
+}
+
+export function sanitizeDateTime(input: string, fieldName?: string, options?: Partial<SanitizationOptions>): ValidationResult {
+  const sanitizer = new InputSanitizer(options);
+  return sanitizer.sanitizeDateTime(input, fieldName);
+}
+
+export function sanitizeUrl(input: string, fieldName?: string, options?: Partial<SanitizationOptions>): ValidationResult {
+  const sanitizer = new InputSanitizer(options);
+  return sanitizer.sanitizeUrl(input, fieldName);
+}
+
 export function sanitizeText(input: string, fieldName?: string, options?: Partial<SanitizationOptions>): ValidationResult {
   const sanitizer = new InputSanitizer(options);
   return sanitizer.sanitizeText(input, fieldName);
@@ -317,6 +440,11 @@ export function sanitizeRole(input: string, options?: Partial<SanitizationOption
   return sanitizer.sanitizeRole(input);
 }
 
+export function sanitizeScope(input: string, options?: Partial<SanitizationOptions>): ValidationResult {
+  const sanitizer = new InputSanitizer(options);
+  return sanitizer.sanitizeScope(input);
+}
+
 export function sanitizeDisplayName(input: string, options?: Partial<SanitizationOptions>): ValidationResult {
   const sanitizer = new InputSanitizer(options);
   return sanitizer.sanitizeDisplayName(input);
@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Implement this to plug in another delivery mechanism (e.g. a provider's HTTP API)
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Logs messages to the console - the default for local development. Refused in production, where the
+// invitation links in these messages would end up in the logs
+export class ConsoleTransport implements MailTransport {
+  name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes each message to a file so links can be opened during local testing
+export class FileTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.txt`;
+    const contents = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+    ].join('\n');
+
+    await fs.writeFile(path.join(this.directory, fileName), contents, 'utf8');
+  }
+}
+
+export class SmtpTransport implements MailTransport {
+  name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(smtpUrl: string) {
+    this.transporter = nodemailer.createTransport(smtpUrl);
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+export function createTransportFromEnv(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_URL ? 'smtp' : 'console');
+
+  // Invitation links are bearer tokens: in production they may only leave through a real mail transport
+  if (process.env.NODE_ENV === 'production' && (transport === 'console' || transport === 'file')) {
+    throw new Error(`MAIL_TRANSPORT=${transport} is for local development only; set SMTP_URL to send mail in production`);
+  }
+
+  switch (transport) {
+    case 'smtp':
+      if (!process.env.SMTP_URL) {
+        throw new Error('SMTP_URL is required when MAIL_TRANSPORT=smtp');
+      }
+      return new SmtpTransport(process.env.SMTP_URL);
+    case 'file':
+      return new FileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+class Mailer {
+  private transport: MailTransport | null = null;
+
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  async send(message: MailMessage): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!this.transport) {
+        this.transport = createTransportFromEnv();
+      }
+
+      await this.transport.send({
+        ...message,
+        from: process.env.MAIL_FROM || 'no-reply@example.com',
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error('Mail delivery error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Mail delivery failed',
+      };
+    }
+  }
+}
+
+// Singleton instance
+const mailer = new Mailer();
+
+export { mailer };
+export default mailer;
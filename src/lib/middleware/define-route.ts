@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AuthenticatedUser,
+  RouteHandler,
+  RouteMiddleware,
+  composeMiddleware,
+  createSessionGuard,
+  requireAccess,
+} from '../auth/api-guard';
+import { Permission } from '../auth/permissions';
+import { withCSRFProtection, csrfConfigs, CSRFConfig } from '../csrf-protection';
+import { withRateLimit, withUserRateLimit, RateLimitConfig } from './rate-limit';
+import { UserRateLimitType } from '../rate-limit';
+import { withRequestLimits, requestLimitConfigs, RequestLimitConfig } from './request-limits';
+import { withInputSanitization, SanitizationConfig, SanitizedBody } from './input-sanitization';
+
+// 'public': anyone; 'session': signed in with Clerk, allow listed or not; 'user': signed in and allow listed
+export type RouteAuth = 'public' | 'session' | 'user';
+
+export interface RouteOptions<
+  TAuth extends RouteAuth,
+  TBodyConfig extends SanitizationConfig | undefined,
+  TParamKey extends string
+> {
+  auth?: TAuth;
+  // Only for auth 'user': any of these roles (hierarchy aware) and/or this permission, checked in scope
+  role?: string | string[];
+  permission?: Permission;
+  scope?: string;
+  rateLimit?: RateLimitConfig['type'] | false;
+  // Only for auth 'user': per-user quota keyed on the verified email; defaults to 'admin' on routes
+  // rate limited as admin and 'api' otherwise
+  userRateLimit?: UserRateLimitType | false;
+  // State-changing methods only; defaults to csrfConfigs.strict
+  csrf?: Partial<CSRFConfig> | false;
+  limits?: RequestLimitConfig;
+  // Sanitization config for JSON bodies; the handler receives only the declared, sanitized fields
+  body?: TBodyConfig;
+  // Dynamic segment names, e.g. ['email'] for /users/[email]; values arrive URI-decoded
+  params?: TParamKey[];
+}
+
+type AuthFields<TAuth extends RouteAuth> =
+  TAuth extends 'user' ? { user: AuthenticatedUser } :
+  TAuth extends 'session' ? { email: string } :
+  unknown;
+
+export type RouteContext<
+  TAuth extends RouteAuth,
+  TBodyConfig extends SanitizationConfig | undefined,
+  TParamKey extends string
+> = {
+  request: NextRequest;
+  body: TBodyConfig extends SanitizationConfig ? SanitizedBody<TBodyConfig> : undefined;
+  params: Record<TParamKey, string>;
+} & AuthFields<TAuth>;
+
+// Builds a route handler from declarative options. The middlewares always run in the same order:
+//   request limits -> rate limit -> CSRF -> auth -> user rate limit -> params and body sanitization -> handler
+// Cheap size checks and throttling come before any token, session or database work, CSRF is
+// rejected before a session is resolved, and bodies are only validated for callers who may use them.
+export function defineRoute<
+  TAuth extends RouteAuth = 'user',
+  TBodyConfig extends SanitizationConfig | undefined = undefined,
+  TParamKey extends string = never
+>(
+  options: RouteOptions<TAuth, TBodyConfig, TParamKey>,
+  handler: (context: RouteContext<TAuth, TBodyConfig, TParamKey>) => Promise<NextResponse>
+) {
+  const auth: RouteAuth = options.auth || 'user';
+  const middleware: RouteMiddleware[] = [withRequestLimits(options.limits || requestLimitConfigs.api)];
+
+  if (options.rateLimit !== false) {
+    middleware.push(withRateLimit({ type: options.rateLimit || 'api' }));
+  }
+
+  if (options.csrf !== false) {
+    middleware.push(withCSRFProtection(options.csrf || csrfConfigs.strict));
+  }
+
+  if (auth !== 'user' && (options.role || options.permission || options.userRateLimit)) {
+    throw new Error('Roles, permissions and user rate limits can only be set on routes with auth "user"');
+  }
+
+  const userRateLimit = options.userRateLimit ?? (options.rateLimit === 'admin' ? 'admin' : 'api');
+
+  return async (request: NextRequest, routeContext: { params: Promise<Record<string, string>> }): Promise<NextResponse> => {
+    const rawParams = (await routeContext?.params) || {};
+
+    // Decodes the params and runs the sanitizer over the original request, handing both to the handler.
+    // Only reached once the guards have passed, so malformed paths are rate limited and audited like
+    // any other request.
+    const run = (authFields: Record<string, unknown>, authedRequest: NextRequest) => {
+      const params = {} as Record<TParamKey, string>;
+
+      try {
+        (options.params || []).forEach(key => {
+          params[key] = decodeURIComponent(rawParams[key]);
+        });
+      } catch (error) {
+        // A stray "%" in the path is the caller's mistake, not a server error
+        if (error instanceof URIError) {
+          return Promise.resolve(NextResponse.json(
+            { error: 'Malformed path parameter' },
+            { status: 400 }
+          ));
+        }
+        throw error;
+      }
+
+      const invoke: RouteHandler = async (sanitizedRequest) => {
+        const hasBody = !!options.body && ['POST', 'PUT', 'PATCH'].includes(sanitizedRequest.method);
+        const body = hasBody ? await sanitizedRequest.json() : undefined;
+
+        return handler({ request: authedRequest, body, params, ...authFields } as RouteContext<TAuth, TBodyConfig, TParamKey>);
+      };
+
+      return options.body ? withInputSanitization(options.body)(invoke)(authedRequest) : invoke(authedRequest);
+    };
+
+    let guarded: RouteHandler;
+
+    if (auth === 'user') {
+      const roles = options.role ? ([] as string[]).concat(options.role) : undefined;
+      guarded = await requireAccess({ roles, permission: options.permission, scope: options.scope })(
+        context => userRateLimit
+          ? withUserRateLimit(userRateLimit, context.user)(req => run({ user: context.user }, req))(context.request)
+          : run({ user: context.user }, context.request)
+      );
+    } else if (auth === 'session') {
+      guarded = await createSessionGuard(context => run({ email: context.email }, context.request));
+    } else {
+      guarded = req => run({}, req);
+    }
+
+    return composeMiddleware(middleware, guarded)(request);
+  };
+}
@@ -4,7 +4,7 @@ import { InputSanitizer, ValidationResult } from '../input-sanitization';
 export interface SanitizationConfig {
   fields: {
     [key: string]: {
-      type: 'email' | 'text' | 'role' | 'displayName' | 'json';
+      type: 'email' | 'emailPattern' | 'text' | 'role' | 'scope' | 'displayName' | 'datetime' | 'url' | 'json';
       required?: boolean;
       maxLength?: number;
       allowHtml?: boolean;
@@ -13,6 +13,15 @@ export interface SanitizationConfig {
   strict?: boolean;
 }
 
+type SanitizedFieldValue<T> = T extends 'json' ? unknown : string;
+
+// Body shape a config produces: declared fields only, optional fields may be missing or empty
+export type SanitizedBody<C extends SanitizationConfig> = {
+  [K in keyof C['fields']]: C['fields'][K] extends { required: true }
+    ? SanitizedFieldValue<C['fields'][K]['type']>
+    : SanitizedFieldValue<C['fields'][K]['type']> | null | undefined;
+};
+
 export function withInputSanitization(config: SanitizationConfig) {
   return function(handler: (request: NextRequest) => Promise<NextResponse>) {
     return async function(request: NextRequest): Promise<NextResponse> {
@@ -57,6 +66,12 @@ export function withInputSanitization(config: SanitizationConfig) {
             continue;
           }
 
+          // Every type but json is sanitized as a string; other JSON values are rejected, not passed on
+          if (fieldConfig.type !== 'json' && typeof value !== 'string') {
+            allErrors.push(`${fieldName} must be a string`);
+            continue;
+          }
+
           // Sanitize based on field type
           let result: ValidationResult;
           
@@ -64,15 +79,27 @@ export function withInputSanitization(config: SanitizationConfig) {
             case 'email':
               result = sanitizer.sanitizeEmail(value);
               break;
+            case 'emailPattern':
+              result = sanitizer.sanitizeEmailPattern(value);
+              break;
             case 'text':
               result = sanitizer.sanitizeText(value, fieldName);
               break;
             case 'role':
               result = sanitizer.sanitizeRole(value);
               break;
+            case 'scope':
+              result = sanitizer.sanitizeScope(value);
+              break;
             case 'displayName':
               result = sanitizer.sanitizeDisplayName(value);
               break;
+            case 'datetime':
+              result = sanitizer.sanitizeDateTime(value, fieldName);
+              break;
+            case 'url':
+              result = sanitizer.sanitizeUrl(value, fieldName);
+              break;
             case 'json':
               result = sanitizer.sanitizeJson(value);
               break;
@@ -137,6 +164,7 @@ export const sanitizationConfigs = {
       email: { type: 'email' as const, required: true, maxLength: 255 },
       display_name: { type: 'displayName' as const, required: false, maxLength: 100 },
       role: { type: 'role' as const, required: true },
+      expires_at: { type: 'datetime' as const, required: false },
     },
     strict: true,
   },
@@ -147,6 +175,106 @@ export const sanitizationConfigs = {
       email: { type: 'email' as const, required: true, maxLength: 255 },
       display_name: { type: 'displayName' as const, required: false, maxLength: 100 },
       role: { type: 'role' as const, required: true },
+      expires_at: { type: 'datetime' as const, required: false },
+    },
+    strict: true,
+  },
+  
+  // Invitations
+  invitation: {
+    fields: {
+      email: { type: 'email' as const, required: true, maxLength: 255 },
+      display_name: { type: 'displayName' as const, required: false, maxLength: 100 },
+      role: { type: 'role' as const, required: true },
+    },
+    strict: true,
+  },
+  
+  // Self-service access requests
+  accessRequest: {
+    fields: {
+      display_name: { type: 'displayName' as const, required: false, maxLength: 100 },
+      requested_role: { type: 'role' as const, required: true },
+      justification: { type: 'text' as const, required: true, maxLength: 1000 },
+    },
+    strict: true,
+  },
+  
+  // Admin decision on an access request
+  accessRequestDecision: {
+    fields: {
+      role: { type: 'role' as const, required: false },
+      note: { type: 'text' as const, required: false, maxLength: 500 },
+    },
+    strict: true,
+  },
+  
+  // Role definitions
+  role: {
+    fields: {
+      name: { type: 'role' as const, required: true },
+      description: { type: 'text' as const, required: false, maxLength: 255 },
+      permissions: { type: 'json' as const, required: false },
+      inherits: { type: 'json' as const, required: false },
+    },
+    strict: true,
+  },
+  
+  roleUpdate: {
+    fields: {
+      description: { type: 'text' as const, required: false, maxLength: 255 },
+      permissions: { type: 'json' as const, required: true },
+      inherits: { type: 'json' as const, required: false },
+    },
+    strict: true,
+  },
+  
+  // Per-scope role assignments
+  roleAssignment: {
+    fields: {
+      email: { type: 'email' as const, required: true },
+      scope: { type: 'scope' as const, required: true },
+      role: { type: 'role' as const, required: true },
+    },
+    strict: true,
+  },
+  
+  // Domain/wildcard allow rules
+  allowRule: {
+    fields: {
+      pattern: { type: 'emailPattern' as const, required: true, maxLength: 255 },
+      role: { type: 'role' as const, required: true },
+      description: { type: 'text' as const, required: false, maxLength: 255 },
+    },
+    strict: true,
+  },
+  
+  // Deny list entries (exact emails or domain patterns)
+  denyEntry: {
+    fields: {
+      pattern: { type: 'emailPattern' as const, required: true, maxLength: 255 },
+      reason: { type: 'text' as const, required: true, maxLength: 500 },
+    },
+    strict: true,
+  },
+  
+  // CIDR allow and deny rules; the network and action are validated by the service
+  networkRule: {
+    fields: {
+      cidr: { type: 'text' as const, required: true, maxLength: 64 },
+      action: { type: 'text' as const, required: true, maxLength: 10 },
+      role: { type: 'role' as const, required: false },
+      description: { type: 'text' as const, required: false, maxLength: 255 },
+    },
+    strict: true,
+  },
+  
+  // Outbound webhook registrations; the events are validated by the service
+  webhook: {
+    fields: {
+      url: { type: 'url' as const, required: true, maxLength: 255 },
+      events: { type: 'json' as const, required: true },
+      description: { type: 'text' as const, required: false, maxLength: 255 },
     },
     strict: true,
   },
@@ -158,4 +286,4 @@ export const sanitizationConfigs = {
     },
     strict: true,
   },
-};
+} satisfies Record<string, SanitizationConfig>;
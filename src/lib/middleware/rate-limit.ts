@@ -1,53 +1,94 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { checkRateLimit, getClientIdentifier } from '../rate-limit';
+import {
+  checkRateLimit,
+  checkUserRateLimit,
+  getClientIdentifier,
+  getTemporaryBlock,
+  RateLimitResult,
+  RateLimitType,
+  TemporaryBlock,
+  UserRateLimitType,
+} from '../rate-limit';
+import { getClientIP } from '../client-ip';
 
 export interface RateLimitConfig {
-  type: 'api' | 'auth' | 'admin' | 'login';
+  type: RateLimitType;
   customIdentifier?: string;
 }
 
+function tooManyRequests(rateLimitResult: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { 
+      error: 'Too many requests',
+      retryAfter: Math.ceil((rateLimitResult.reset - Date.now()) / 1000)
+    },
+    { 
+      status: 429,
+      headers: {
+        'Retry-After': Math.ceil((rateLimitResult.reset - Date.now()) / 1000).toString(),
+        'X-RateLimit-Limit': rateLimitResult.limit.toString(),
+        'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
+        'X-RateLimit-Reset': rateLimitResult.reset.toString(),
+      }
+    }
+  );
+}
+
+// A temporary block answers like an exhausted limit that resets when the block ends
+function blocked(block: TemporaryBlock): NextResponse {
+  return tooManyRequests({ success: false, limit: 0, remaining: 0, reset: block.until });
+}
+
 export function withRateLimit(config: RateLimitConfig) {
   return function(handler: (request: NextRequest) => Promise<NextResponse>) {
     return async function(request: NextRequest): Promise<NextResponse> {
-      try {
-        // Get client identifier
-        const identifier = config.customIdentifier || getClientIdentifier(request);
-        
-        // Check rate limit
-        const rateLimitResult = await checkRateLimit(identifier, config.type);
-        
-        if (!rateLimitResult.success) {
-          return NextResponse.json(
-            { 
-              error: 'Too many requests',
-              retryAfter: Math.ceil((rateLimitResult.reset - Date.now()) / 1000)
-            },
-            { 
-              status: 429,
-              headers: {
-                'Retry-After': Math.ceil((rateLimitResult.reset - Date.now()) / 1000).toString(),
-                'X-RateLimit-Limit': rateLimitResult.limit.toString(),
-                'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-                'X-RateLimit-Reset': rateLimitResult.reset.toString(),
-              }
-            }
-          );
-        }
-        
-        // Add rate limit headers to response
-        const response = await handler(request);
-        
-        response.headers.set('X-RateLimit-Limit', rateLimitResult.limit.toString());
-        response.headers.set('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
-        response.headers.set('X-RateLimit-Reset', rateLimitResult.reset.toString());
-        
-        return response;
-        
-      } catch (error) {
-        console.error('Rate limiting middleware error:', error);
-        // On error, allow the request but log it
-        return await handler(request);
+      const ip = getClientIP(request);
+      const block = ip ? await getTemporaryBlock('ip', ip) : null;
+
+      if (block) {
+        return blocked(block);
       }
+
+      // Get client identifier
+      const identifier = config.customIdentifier || getClientIdentifier(request);
+
+      // Check rate limit; Redis failures are already settled by the limit's failure policy
+      const rateLimitResult = await checkRateLimit(identifier, config.type);
+
+      if (!rateLimitResult.success) {
+        return tooManyRequests(rateLimitResult);
+      }
+
+      // Add rate limit headers to response
+      const response = await handler(request);
+
+      response.headers.set('X-RateLimit-Limit', rateLimitResult.limit.toString());
+      response.headers.set('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
+      response.headers.set('X-RateLimit-Reset', rateLimitResult.reset.toString());
+
+      return response;
+    };
+  };
+}
+
+// Per-user quota for authenticated routes, keyed on the verified email; runs after authentication, behind
+// the per-IP flood limit above, and is the limit signed-in users actually meet
+export function withUserRateLimit(type: UserRateLimitType, user: { email: string; roles: string[] }) {
+  return function(handler: (request: NextRequest) => Promise<NextResponse>) {
+    return async function(request: NextRequest): Promise<NextResponse> {
+      const block = await getTemporaryBlock('email', user.email);
+
+      if (block) {
+        return blocked(block);
+      }
+
+      const rateLimitResult = await checkUserRateLimit(user.email, user.roles, type);
+
+      if (!rateLimitResult.success) {
+        return tooManyRequests(rateLimitResult);
+      }
+
+      return await handler(request);
     };
   };
 }
@@ -1,99 +1,354 @@
 import { Ratelimit } from '@upstash/ratelimit';
-import { Redis } from '@upstash/redis';
+import { redis, isRedisConfigured } from './redis';
+import { getClientIP } from './client-ip';
 
-// Create Redis instance
-const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL || '',
-  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
-});
+export type RateLimitType = 'api' | 'auth' | 'admin' | 'login';
+
+// What to do when Redis is configured but fails: let the request through, refuse it, or count it in
+// this instance's in-memory limiter instead
+export type RateLimitFailurePolicy = 'open' | 'closed' | 'local';
+
+const RATE_LIMIT_TYPES: RateLimitType[] = ['api', 'auth', 'admin', 'login'];
+const FAILURE_POLICIES: RateLimitFailurePolicy[] = ['open', 'closed', 'local'];
+
+export interface RateLimitWindow {
+  limit: number;
+  windowSeconds: number;
+}
+
+// Requests allowed per client IP per sliding window, shared by the Redis limiters and the local fallback.
+// These run before authentication. On `api` and `admin` routes they only stop floods: they sit well above
+// every per-user quota below, which is the limit signed-in users actually meet, so an office behind one
+// NAT isn't held to a single user's budget.
+export const rateLimitConfigs: Record<RateLimitType, RateLimitWindow & { onRedisError: RateLimitFailurePolicy }> = {
+  // General API rate limiting; flood protection only
+  api: { limit: 1000, windowSeconds: 60, onRedisError: 'local' }, // 1000 requests per minute
 
-// Rate limit configurations
-export const rateLimits = {
-  // General API rate limiting
-  api: new Ratelimit({
-    redis,
-    limiter: Ratelimit.slidingWindow(100, '1 m'), // 100 requests per minute
-    analytics: true,
-  }),
-  
   // Auth endpoints (less restrictive for Clerk compatibility)
-  auth: new Ratelimit({
-    redis,
-    limiter: Ratelimit.slidingWindow(30, '1 m'), // 30 requests per minute
-    analytics: true,
-  }),
-  
-  // Admin endpoints (very restrictive)
-  admin: new Ratelimit({
-    redis,
-    limiter: Ratelimit.slidingWindow(20, '1 m'), // 20 requests per minute
-    analytics: true,
-  }),
-  
-  // Login attempts (very restrictive)
-  login: new Ratelimit({
+  auth: { limit: 30, windowSeconds: 60, onRedisError: 'local' }, // 30 requests per minute
+
+  // Admin endpoints; flood protection only
+  admin: { limit: 300, windowSeconds: 60, onRedisError: 'local' }, // 300 requests per minute
+
+  // Login attempts (very restrictive); an outage must not open the door to password guessing
+  login: { limit: 5, windowSeconds: 300, onRedisError: 'closed' }, // 5 attempts per 5 minutes
+};
+
+// RATE_LIMIT_ON_REDIS_ERROR overrides the policies, e.g. "api=open,admin=closed"
+export function getFailurePolicy(type: RateLimitType): RateLimitFailurePolicy {
+  const override = (process.env.RATE_LIMIT_ON_REDIS_ERROR || '')
+    .split(',')
+    .map(entry => entry.split('=').map(part => part.trim()))
+    .find(([name]) => name === type);
+
+  const policy = override?.[1] as RateLimitFailurePolicy | undefined;
+
+  return policy && FAILURE_POLICIES.includes(policy) ? policy : rateLimitConfigs[type].onRedisError;
+}
+
+export type UserRateLimitType = Extract<RateLimitType, 'api' | 'admin'>;
+
+// Per-user quotas for authenticated routes, keyed on the verified email. A user gets the highest quota of
+// any role they hold in the route's scope, or `default`. Keep them below the per-IP limits above, or the
+// per-IP limit becomes the one that applies.
+export const userRateLimitConfigs: Record<UserRateLimitType, Record<string, RateLimitWindow>> = {
+  api: {
+    default: { limit: 100, windowSeconds: 60 },
+    admin: { limit: 300, windowSeconds: 60 },
+  },
+  admin: {
+    default: { limit: 20, windowSeconds: 60 },
+    admin: { limit: 120, windowSeconds: 60 },
+  },
+};
+
+export function getUserRateLimit(type: UserRateLimitType, roles: string[]): RateLimitWindow {
+  const quotas = userRateLimitConfigs[type];
+
+  return roles
+    .filter(role => Object.prototype.hasOwnProperty.call(quotas, role))
+    .map(role => quotas[role])
+    .reduce((best, quota) => (quota.limit > best.limit ? quota : best), quotas.default);
+}
+
+// Each limiter gets its own key prefix so limits with the same identifier don't share counters
+function createRedisLimiter(prefix: string, { limit, windowSeconds }: RateLimitWindow): Ratelimit {
+  return new Ratelimit({
     redis,
-    limiter: Ratelimit.slidingWindow(5, '5 m'), // 5 attempts per 5 minutes
+    limiter: Ratelimit.slidingWindow(limit, `${windowSeconds} s`),
+    prefix: `ratelimit:${prefix}`,
     analytics: true,
-  }),
+  });
+}
+
+// Rate limit configurations
+export const rateLimits: Record<RateLimitType, Ratelimit> = {
+  api: createRedisLimiter('api', rateLimitConfigs.api),
+  auth: createRedisLimiter('auth', rateLimitConfigs.auth),
+  admin: createRedisLimiter('admin', rateLimitConfigs.admin),
+  login: createRedisLimiter('login', rateLimitConfigs.login),
 };
 
-// Fallback rate limiter for when Redis is not available
-export const fallbackRateLimit = {
-  async limit(identifier: string, limit: number, window: number): Promise<{ success: boolean; limit: number; remaining: number; reset: number }> {
-    // Simple in-memory rate limiting as fallback
+// Per-user limiters, one per distinct quota; created on first use
+const userRateLimits = new Map<string, Ratelimit>();
+
+function getUserRedisLimiter(type: UserRateLimitType, quota: RateLimitWindow): Ratelimit {
+  const key = `${type}:${quota.limit}:${quota.windowSeconds}`;
+  let limiter = userRateLimits.get(key);
+
+  if (!limiter) {
+    limiter = createRedisLimiter(`user:${type}`, quota);
+    userRateLimits.set(key, limiter);
+  }
+
+  return limiter;
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  reset: number;
+  // Set when Redis failed and the failure policy decided instead
+  degraded?: RateLimitFailurePolicy;
+}
+
+// In-process sliding window limiter for when Redis is not available. Like Upstash's sliding window it keeps
+// two counters per key and weights the previous window by how much of it still overlaps, so memory per key
+// is constant. Keys expire after two idle windows, and past maxKeys the least recently used key is evicted.
+export class SlidingWindowLimiter {
+  private windows = new Map<string, { start: number; current: number; previous: number; windowMs: number }>();
+
+  constructor(private maxKeys: number = 10000) {}
+
+  async limit(identifier: string, limit: number, windowSeconds: number): Promise<RateLimitResult> {
     const now = Date.now();
-    const key = `rate_limit_${identifier}`;
-    
-    // This is a simplified fallback - in production you'd want a more robust solution
-    return {
-      success: true,
-      limit,
-      remaining: limit - 1,
-      reset: now + window * 1000,
-    };
+    const windowMs = windowSeconds * 1000;
+    const start = Math.floor(now / windowMs) * windowMs;
+
+    let entry = this.windows.get(identifier);
+
+    if (entry) {
+      // Re-insert so the Map's order stays least recently used first
+      this.windows.delete(identifier);
+    } else {
+      this.makeRoom(now);
+    }
+
+    if (!entry || entry.start !== start) {
+      const previous = entry && entry.start === start - windowMs ? entry.current : 0;
+      entry = { start, current: 0, previous, windowMs };
+    }
+
+    this.windows.set(identifier, entry);
+
+    const reset = start + windowMs;
+    const overlap = (reset - now) / windowMs;
+    const used = entry.previous * overlap + entry.current;
+
+    if (used >= limit) {
+      return { success: false, limit, remaining: 0, reset };
+    }
+
+    entry.current++;
+
+    return { success: true, limit, remaining: Math.max(0, Math.floor(limit - used - 1)), reset };
+  }
+
+  get size(): number {
+    return this.windows.size;
   }
-};
 
-// Rate limiting middleware for API routes
+  reset(): void {
+    this.windows.clear();
+  }
+
+  private makeRoom(now: number): void {
+    if (this.windows.size < this.maxKeys) {
+      return;
+    }
+
+    // Expired keys first: nothing from two windows ago still counts
+    this.windows.forEach((entry, key) => {
+      if (now - entry.start >= 2 * entry.windowMs) {
+        this.windows.delete(key);
+      }
+    });
+
+    while (this.windows.size >= this.maxKeys) {
+      const oldest = this.windows.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.windows.delete(oldest);
+    }
+  }
+}
+
+// Fallback rate limiter for when Redis is not available
+export const fallbackRateLimit = new SlidingWindowLimiter();
+
+let warnedNoRedis = false;
+
+// Decisions taken under each failure policy since this instance started
+const degradedDecisions = Object.fromEntries(
+  RATE_LIMIT_TYPES.map(type => [type, { open: 0, closed: 0, local: 0 }])
+) as Record<RateLimitType, Record<RateLimitFailurePolicy, number>>;
+
+export function getRateLimitMetrics(): {
+  backend: 'redis' | 'memory';
+  degraded: Record<RateLimitType, Record<RateLimitFailurePolicy, number>>;
+  trackedLocalClients: number;
+} {
+  return {
+    backend: isRedisConfigured() ? 'redis' : 'memory',
+    degraded: Object.fromEntries(
+      RATE_LIMIT_TYPES.map(type => [type, { ...degradedDecisions[type] }])
+    ) as Record<RateLimitType, Record<RateLimitFailurePolicy, number>>,
+    trackedLocalClients: fallbackRateLimit.size,
+  };
+}
+
+export function resetRateLimitMetrics(): void {
+  RATE_LIMIT_TYPES.forEach(type => {
+    degradedDecisions[type] = { open: 0, closed: 0, local: 0 };
+  });
+}
+
+// Rate limiting middleware for API routes. Never throws: Redis failures are settled by the limit's failure policy.
 export async function checkRateLimit(
   identifier: string,
-  type: 'api' | 'auth' | 'admin' | 'login' = 'api'
-): Promise<{ success: boolean; limit: number; remaining: number; reset: number }> {
-  try {
-    // Check if Redis is configured
-    if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
-      console.warn('Redis not configured, using fallback rate limiting');
-      return await fallbackRateLimit.limit(identifier, 100, 60);
+  type: RateLimitType = 'api'
+): Promise<RateLimitResult> {
+  return await applyLimit(type, `${type}:${identifier}`, identifier, rateLimitConfigs[type], () => rateLimits[type]);
+}
+
+// Per-user limit for authenticated routes, checked once the caller's email and roles are known
+export async function checkUserRateLimit(
+  email: string,
+  roles: string[],
+  type: UserRateLimitType = 'api'
+): Promise<RateLimitResult> {
+  const quota = getUserRateLimit(type, roles);
+  const identifier = email.toLowerCase().trim();
+
+  return await applyLimit(type, `user:${type}:${identifier}`, identifier, quota, () => getUserRedisLimiter(type, quota));
+}
+
+// `localKey` names the counter in the in-memory limiter, which all limits share
+async function applyLimit(
+  type: RateLimitType,
+  localKey: string,
+  identifier: string,
+  { limit, windowSeconds }: RateLimitWindow,
+  redisLimiter: () => Ratelimit
+): Promise<RateLimitResult> {
+  // Check if Redis is configured
+  if (!isRedisConfigured()) {
+    if (!warnedNoRedis) {
+      console.warn('Redis not configured, using in-memory rate limiting for this instance');
+      warnedNoRedis = true;
     }
-    
-    const result = await rateLimits[type].limit(identifier);
-    return result;
+
+    return await fallbackRateLimit.limit(localKey, limit, windowSeconds);
+  }
+
+  try {
+    return await redisLimiter().limit(identifier);
   } catch (error) {
+    const policy = getFailurePolicy(type);
+    degradedDecisions[type][policy]++;
+
     console.error('Rate limiting error:', error);
-    // On error, allow the request but log it
+    console.warn(`Rate limit degraded: ${type} limit failed ${policy} for ${identifier}`);
+
+    if (policy === 'local') {
+      const result = await fallbackRateLimit.limit(localKey, limit, windowSeconds);
+      return { ...result, degraded: policy };
+    }
+
     return {
-      success: true,
-      limit: 100,
-      remaining: 99,
-      reset: Date.now() + 60000,
+      success: policy === 'open',
+      limit,
+      remaining: policy === 'open' ? limit - 1 : 0,
+      reset: Date.now() + windowSeconds * 1000,
+      degraded: policy,
     };
   }
 }
 
-// Get client identifier for rate limiting
-export function getClientIdentifier(request: Request): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  const userAgent = request.headers.get('user-agent') || 'unknown';
-  
-  let ip = 'unknown';
-  if (forwarded) {
-    ip = forwarded.split(',')[0].trim();
-  } else if (realIP) {
-    ip = realIP;
+export type BlockSubject = 'ip' | 'email';
+
+export interface TemporaryBlock {
+  reason: string;
+  // Epoch milliseconds
+  until: number;
+}
+
+// Blocks placed by this instance; with Redis configured they are shared through it as well
+const localBlocks = new Map<string, TemporaryBlock>();
+
+function blockKey(subject: BlockSubject, value: string): string {
+  return `ratelimit:block:${subject}:${value.toLowerCase().trim()}`;
+}
+
+// Refuses every request from an IP address or for an email until the block expires, whatever the limits.
+// Placed by the anomaly detector.
+export async function blockTemporarily(subject: BlockSubject, value: string, seconds: number, reason: string): Promise<TemporaryBlock> {
+  const key = blockKey(subject, value);
+  const block = { reason, until: Date.now() + seconds * 1000 };
+
+  localBlocks.forEach((entry, existing) => {
+    if (entry.until <= Date.now()) {
+      localBlocks.delete(existing);
+    }
+  });
+  localBlocks.set(key, block);
+
+  if (isRedisConfigured()) {
+    try {
+      await redis.set(key, block, { ex: seconds });
+    } catch (error) {
+      console.error('Temporary block error:', error);
+    }
   }
-  
-  // Combine IP and user agent for more accurate identification
-  return `${ip}-${userAgent.slice(0, 50)}`;
+
+  return block;
+}
+
+export async function getTemporaryBlock(subject: BlockSubject, value: string): Promise<TemporaryBlock | null> {
+  const key = blockKey(subject, value);
+  const local = localBlocks.get(key);
+
+  if (local && local.until > Date.now()) {
+    return local;
+  }
+
+  if (!isRedisConfigured()) {
+    return null;
+  }
+
+  try {
+    const shared = await redis.get<TemporaryBlock>(key);
+    return shared && shared.until > Date.now() ? shared : null;
+  } catch (error) {
+    // Blocks are a reaction to abuse, not access control: without Redis only this instance's blocks apply
+    console.error('Temporary block check error:', error);
+    return null;
+  }
+}
+
+export async function liftTemporaryBlock(subject: BlockSubject, value: string): Promise<void> {
+  const key = blockKey(subject, value);
+  localBlocks.delete(key);
+
+  if (isRedisConfigured()) {
+    await redis.del(key);
+  }
+}
+
+// Get client identifier for rate limiting. The IP alone: the user agent is the caller's to choose, so
+// keying on it would hand out a fresh bucket per made-up user agent.
+export function getClientIdentifier(request: Request): string {
+  return getClientIP(request) || 'unknown';
 }
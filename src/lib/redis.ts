@@ -0,0 +1,11 @@
+import { Redis } from '@upstash/redis';
+
+// Shared Upstash client for rate limiting and cross-instance cache invalidation
+export const redis = new Redis({
+  url: process.env.UPSTASH_REDIS_REST_URL || '',
+  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+});
+
+export function isRedisConfigured(): boolean {
+  return !!process.env.UPSTASH_REDIS_REST_URL && !!process.env.UPSTASH_REDIS_REST_TOKEN;
+}
@@ -10,7 +10,7 @@ export interface SessionSecurityConfig {
 }
 
 export const DEFAULT_SESSION_CONFIG: SessionSecurityConfig = {
-  maxAge: 7 * 24 * 60 * 60, // 7 days
+  maxAge: getSessionTimeout(),
   secure: process.env.NODE_ENV === 'production',
   httpOnly: true,
   sameSite: 'lax',
@@ -116,15 +116,16 @@ function isValidHeaderValue(value: string): boolean {
 }
 
 // Session timeout utilities
-export function getSessionTimeout(): number {
-  return parseInt(process.env.SESSION_TIMEOUT || '604800', 10); // 7 days default
+// A session ends at whichever limit it reaches first: the idle timeout, counted from its last
+// activity, or the absolute lifetime, counted from sign-in however active it has been.
+
+export function getSessionIdleTimeout(): number {
+  return parseInt(process.env.SESSION_IDLE_TIMEOUT || '1800', 10); // 30 minutes default
 }
 
-export function isSessionExpired(createdAt: Date): boolean {
-  const timeout = getSessionTimeout();
-  const now = new Date();
-  const diffInSeconds = (now.getTime() - createdAt.getTime()) / 1000;
-  return diffInSeconds > timeout;
+// SESSION_TIMEOUT is the older name for the absolute lifetime and is still honoured
+export function getSessionTimeout(): number {
+  return parseInt(process.env.SESSION_MAX_LIFETIME || process.env.SESSION_TIMEOUT || '604800', 10); // 7 days default
 }
 
 // CSRF token utilities (for future CSRF protection)
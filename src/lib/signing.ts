@@ -0,0 +1,7 @@
+import { createHmac } from 'crypto';
+
+// HMAC-SHA256 over "<timestamp>.<body>", hex encoded. Used for alert webhooks, outbound webhooks and audit
+// checkpoints; receivers recompute it with the shared secret and reject stale timestamps to stop replays.
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
@@ -0,0 +1,68 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+
+// Addresses a webhook must never reach: an admin-supplied URL pointing here would let the server be used to
+// probe or call internal services (e.g. the cloud metadata endpoint at 169.254.169.254)
+const blockedNetworks = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([address, prefix]) => blockedNetworks.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => blockedNetworks.addSubnet(address as string, prefix as number, 'ipv6'));
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 networks by BlockList itself
+export function isPrivateAddress(ip: string): boolean {
+  return blockedNetworks.check(ip, isIP(ip) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Why the URL may not be used as a webhook target, or null when it may. Requires https and resolves the host,
+// refusing it if any of its addresses is loopback, link-local or private. Checked when a webhook is registered
+// and again before every delivery, since the host's DNS records can change in between.
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return 'Webhook URL must not point at a private or local address';
+  }
+
+  let addresses: string[];
+
+  try {
+    addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    return 'Webhook URL host could not be resolved';
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    return 'Webhook URL must not point at a private or local address';
+  }
+
+  return null;
+}
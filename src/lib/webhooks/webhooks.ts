@@ -0,0 +1,461 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { query } from '../database/connection';
+import { signPayload } from '../signing';
+import { checkWebhookTarget } from './targets';
+
+export type WebhookEvent = 'user.added' | 'user.removed' | 'user.toggled' | 'user.role_changed';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['user.added', 'user.removed', 'user.toggled', 'user.role_changed'];
+
+export const webhookConfig = {
+  // Delivery attempts before a delivery is marked failed
+  attempts: 5,
+  // Wait before the first retry; doubles for each one after
+  retryDelayMs: 1000,
+  timeoutMs: 5000,
+  // How often each instance picks up retries that are due, e.g. ones another instance left when it stopped
+  // (0 turns that off)
+  retrySweepIntervalSeconds: 60,
+  // Skips the https and private address checks on webhook URLs; only for local development against a receiver
+  // on this machine or network
+  allowPrivateTargets: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true',
+};
+
+export interface Webhook {
+  id: number;
+  url: string;
+  events: WebhookEvent[];
+  description: string | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export interface WebhookPayload {
+  // Stays the same when a delivery is replayed, so receivers can drop duplicates
+  id: string;
+  event: WebhookEvent;
+  occurred_at: string;
+  actor: string | null;
+  data: Record<string, any>;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  url: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  replay_of: number | null;
+  // When a pending delivery is tried next
+  next_attempt_at: Date | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+// The audit entry fields lifecycle events are built from
+export interface LifecycleAuditEvent {
+  email: string | null;
+  event: string;
+  details?: Record<string, any>;
+}
+
+interface Target {
+  id: number;
+  url: string;
+  secret: string;
+}
+
+const WEBHOOK_COLUMNS = 'id, url, events, description, created_by, created_at';
+const DELIVERY_COLUMNS = 'd.id, d.webhook_id, w.url, d.event, d.payload, d.status, d.attempts, d.response_status, d.error, d.replay_of, d.next_attempt_at, d.created_at, d.completed_at';
+
+type Lifecycle = { event: WebhookEvent; data: Record<string, any> };
+
+// Adding an email that already has an entry updates it: that's a role change when the role differs, and
+// nothing to report otherwise. previous_role is null (or absent, in older entries) for new users.
+function addedOrRoleChanged(previousRole: string | null | undefined, data: Record<string, any>): Lifecycle | null {
+  if (!previousRole) {
+    return { event: 'user.added', data };
+  }
+
+  if (previousRole === data.role) {
+    return null;
+  }
+
+  return { event: 'user.role_changed', data: { ...data, previous_role: previousRole, change: 'updated' } };
+}
+
+// Maps an audit entry to the lifecycle event it reports, if any
+export function toLifecycleEvent(entry: LifecycleAuditEvent): Lifecycle | null {
+  const details = entry.details || {};
+
+  switch (entry.event) {
+    case 'admin_add_user':
+      return addedOrRoleChanged(details.previous_role, { email: details.added_email, role: details.role, expires_at: details.expires_at ?? null, source: 'admin' });
+    case 'admin_approve_access_request':
+      // Approving a disabled user's request enables them again
+      if (details.reactivated && details.previous_role === details.granted_role) {
+        return { event: 'user.toggled', data: { email: details.requester_email, active: true, source: 'access_request' } };
+      }
+      return addedOrRoleChanged(details.previous_role, { email: details.requester_email, role: details.granted_role, source: 'access_request' });
+    case 'invite_accepted':
+      return { event: 'user.added', data: { email: entry.email, role: details.role, source: 'invitation' } };
+    case 'admin_remove_user':
+      return { event: 'user.removed', data: { email: details.removed_email } };
+    case 'admin_toggle_user':
+      return { event: 'user.toggled', data: { email: details.toggled_email, active: details.new_status } };
+    case 'access_expired':
+      return { event: 'user.toggled', data: { email: entry.email, active: false, reason: 'expired' } };
+    case 'admin_assign_role':
+      return { event: 'user.role_changed', data: { email: details.assigned_email, role: details.role, scope: details.scope, change: 'assigned' } };
+    case 'admin_unassign_role':
+      return { event: 'user.role_changed', data: { email: details.unassigned_email, role: details.role, scope: details.scope, change: 'unassigned' } };
+    default:
+      return null;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+class WebhookService {
+  // Deliveries still retrying, so tests and shutdown can wait for them
+  private pending = new Set<Promise<void>>();
+  private lastRetrySweep = 0;
+
+  async getWebhooks(): Promise<{ webhooks: Webhook[]; error?: string }> {
+    try {
+      const result = await query(`SELECT ${WEBHOOK_COLUMNS} FROM auth_webhooks ORDER BY created_at DESC`);
+
+      return { webhooks: result.rows as Webhook[] };
+    } catch (error) {
+      console.error('Get webhooks error:', error);
+      return {
+        webhooks: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // The signing secret is generated here and only ever returned from this call
+  async addWebhook(
+    url: string,
+    events: string[],
+    description: string | null,
+    createdBy: string
+  ): Promise<{ success: boolean; webhook?: Webhook; secret?: string; error?: string }> {
+    if (events.length === 0) {
+      return { success: false, error: 'Choose at least one event' };
+    }
+
+    const unknown = events.filter(event => !WEBHOOK_EVENTS.includes(event as WebhookEvent));
+    if (unknown.length > 0) {
+      return { success: false, error: `Unknown events: ${unknown.join(', ')}` };
+    }
+
+    const refused = await this.checkTarget(url);
+    if (refused) {
+      return { success: false, error: refused };
+    }
+
+    const secret = randomBytes(32).toString('hex');
+
+    try {
+      const result = await query(
+        `INSERT INTO auth_webhooks (url, secret, events, description, created_by) VALUES ($1, $2, $3, $4, $5) RETURNING ${WEBHOOK_COLUMNS}`,
+        [url, secret, WEBHOOK_EVENTS.filter(event => events.includes(event)), description, createdBy]
+      );
+
+      return { success: true, webhook: result.rows[0] as Webhook, secret };
+    } catch (error) {
+      console.error('Add webhook error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async removeWebhook(id: number): Promise<{ success: boolean; webhook?: Webhook; error?: string }> {
+    try {
+      const result = await query(
+        `DELETE FROM auth_webhooks WHERE id = $1 RETURNING ${WEBHOOK_COLUMNS}`,
+        [id]
+      );
+
+      if (result.rows.length === 0) {
+        return { success: false, error: 'Webhook not found' };
+      }
+
+      return { success: true, webhook: result.rows[0] as Webhook };
+    } catch (error) {
+      console.error('Remove webhook error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  async getDeliveries(webhookId?: number, limit: number = 100): Promise<{ deliveries: WebhookDelivery[]; error?: string }> {
+    try {
+      const result = webhookId
+        ? await query(
+          `SELECT ${DELIVERY_COLUMNS} FROM auth_webhook_deliveries d JOIN auth_webhooks w ON w.id = d.webhook_id WHERE d.webhook_id = $1 ORDER BY d.created_at DESC LIMIT $2`,
+          [webhookId, limit]
+        )
+        : await query(
+          `SELECT ${DELIVERY_COLUMNS} FROM auth_webhook_deliveries d JOIN auth_webhooks w ON w.id = d.webhook_id ORDER BY d.created_at DESC LIMIT $1`,
+          [limit]
+        );
+
+      return { deliveries: result.rows as WebhookDelivery[] };
+    } catch (error) {
+      console.error('Get webhook deliveries error:', error);
+      return {
+        deliveries: [],
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Sends a logged delivery's payload again, to the webhook's current URL and secret, as a new delivery
+  async replayDelivery(id: number): Promise<{ success: boolean; delivery?: WebhookDelivery; error?: string }> {
+    try {
+      const original = await query(
+        'SELECT d.webhook_id, d.event, d.payload, w.url, w.secret FROM auth_webhook_deliveries d JOIN auth_webhooks w ON w.id = d.webhook_id WHERE d.id = $1',
+        [id]
+      );
+
+      if (original.rows.length === 0) {
+        return { success: false, error: 'Delivery not found' };
+      }
+
+      const { webhook_id, event, payload, url, secret } = original.rows[0];
+      const deliveryId = await this.enqueue({ id: webhook_id, url, secret }, event, payload, id);
+      const delivery = await this.getDelivery(deliveryId);
+
+      return { success: true, delivery };
+    } catch (error) {
+      console.error('Replay webhook delivery error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Database error'
+      };
+    }
+  }
+
+  // Fed every audit entry; never throws. Deliveries continue in the background.
+  async observe(entry: LifecycleAuditEvent): Promise<void> {
+    await this.retryIfDue();
+
+    try {
+      const lifecycle = toLifecycleEvent(entry);
+
+      if (!lifecycle) {
+        return;
+      }
+
+      const targets = await query(
+        'SELECT id, url, secret FROM auth_webhooks WHERE $1 = ANY(events)',
+        [lifecycle.event]
+      );
+
+      if (targets.rows.length === 0) {
+        return;
+      }
+
+      const payload: WebhookPayload = {
+        id: randomUUID(),
+        event: lifecycle.event,
+        occurred_at: new Date().toISOString(),
+        actor: entry.email,
+        data: lifecycle.data,
+      };
+
+      for (const target of targets.rows as Target[]) {
+        await this.enqueue(target, lifecycle.event, payload, null);
+      }
+    } catch (error) {
+      console.error('Webhook dispatch error:', error);
+    }
+  }
+
+  // Resumes pending deliveries whose next attempt is due; returns how many were picked up
+  async retryDue(limit: number = 100): Promise<number> {
+    const due = await query(
+      `SELECT d.id, d.webhook_id, d.event, d.payload, w.url, w.secret FROM auth_webhook_deliveries d JOIN auth_webhooks w ON w.id = d.webhook_id
+       WHERE d.status = 'pending' AND d.next_attempt_at <= now() ORDER BY d.next_attempt_at LIMIT $1`,
+      [limit]
+    );
+
+    due.rows.forEach((row: any) => {
+      this.track(this.deliver(Number(row.id), { id: row.webhook_id, url: row.url, secret: row.secret }, row.event, row.payload));
+    });
+
+    return due.rows.length;
+  }
+
+  // Called with every audit entry; at most once an interval per instance. Never throws.
+  async retryIfDue(): Promise<void> {
+    const intervalMs = webhookConfig.retrySweepIntervalSeconds * 1000;
+    const now = Date.now();
+
+    if (!intervalMs || now - this.lastRetrySweep < intervalMs) {
+      return;
+    }
+
+    this.lastRetrySweep = now;
+
+    try {
+      await this.retryDue();
+    } catch (error) {
+      console.error('Webhook retry sweep error:', error);
+    }
+  }
+
+  // Waits for deliveries in flight, retries included
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  reset(): void {
+    this.lastRetrySweep = 0;
+  }
+
+  private async getDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const result = await query(
+      `SELECT ${DELIVERY_COLUMNS} FROM auth_webhook_deliveries d JOIN auth_webhooks w ON w.id = d.webhook_id WHERE d.id = $1`,
+      [id]
+    );
+
+    return result.rows[0] as WebhookDelivery | undefined;
+  }
+
+  // Logs the delivery, then sends it in the background
+  private async enqueue(target: Target, event: WebhookEvent, payload: WebhookPayload, replayOf: number | null): Promise<number> {
+    const result = await query(
+      'INSERT INTO auth_webhook_deliveries (webhook_id, event, payload, replay_of) VALUES ($1, $2, $3, $4) RETURNING id',
+      [target.id, event, JSON.stringify(payload), replayOf]
+    );
+    const deliveryId: number = result.rows[0].id;
+
+    this.track(this.deliver(deliveryId, target, event, payload));
+
+    return deliveryId;
+  }
+
+  private track(delivery: Promise<void>): void {
+    const tracked: Promise<void> = delivery.then(() => {
+      this.pending.delete(tracked);
+    });
+    this.pending.add(tracked);
+  }
+
+  // Null when the URL may be used; see checkWebhookTarget
+  private async checkTarget(url: string): Promise<string | null> {
+    return webhookConfig.allowPrivateTargets ? null : checkWebhookTarget(url);
+  }
+
+  // Takes the delivery's next attempt, unless it is finished, not due, or another instance is sending it.
+  // The claim pushes next_attempt_at past the request timeout, so an attempt cut short by a restart is
+  // picked up again by retryDue.
+  private async claim(deliveryId: number): Promise<number | null> {
+    const result = await query(
+      `UPDATE auth_webhook_deliveries SET attempts = attempts + 1, next_attempt_at = now() + $2 * interval '1 millisecond'
+       WHERE id = $1 AND status = 'pending' AND next_attempt_at <= now() RETURNING attempts`,
+      [deliveryId, webhookConfig.timeoutMs * 2]
+    );
+
+    return result.rows.length > 0 ? Number(result.rows[0].attempts) : null;
+  }
+
+  // Retries stay in this process while it runs; each one is recorded in the row first, so if the process
+  // stops, retryDue on any instance carries on from there
+  private async deliver(deliveryId: number, target: Target, event: WebhookEvent, payload: WebhookPayload): Promise<void> {
+    const body = JSON.stringify(payload);
+
+    for (;;) {
+      let attempt: number | null;
+
+      try {
+        attempt = await this.claim(deliveryId);
+      } catch (err) {
+        console.error('Webhook delivery claim error:', err);
+        return;
+      }
+
+      if (attempt === null) {
+        return;
+      }
+
+      let responseStatus: number | null = null;
+      let error: string | null = null;
+
+      try {
+        // Checked again on every attempt: the host may resolve somewhere else than when it was registered
+        error = await this.checkTarget(target.url);
+
+        if (error === null) {
+          const timestamp = Math.floor(Date.now() / 1000);
+          const response = await fetch(target.url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'X-Webhook-Event': event,
+              'X-Webhook-Delivery': deliveryId.toString(),
+              'X-Signature-Timestamp': timestamp.toString(),
+              'X-Signature': `sha256=${signPayload(target.secret, timestamp, body)}`,
+            },
+            body,
+            signal: AbortSignal.timeout(webhookConfig.timeoutMs),
+            // A redirect could lead anywhere, past the check above
+            redirect: 'manual',
+          });
+
+          responseStatus = response.status;
+          if (!response.ok) {
+            error = `Endpoint answered ${response.status}`;
+          }
+        }
+      } catch (err) {
+        error = err instanceof Error ? err.message : 'Delivery failed';
+      }
+
+      const status = error === null ? 'succeeded' : attempt < webhookConfig.attempts ? 'pending' : 'failed';
+      const retryDelayMs = webhookConfig.retryDelayMs * Math.pow(2, attempt - 1);
+
+      try {
+        await query(
+          `UPDATE auth_webhook_deliveries SET status = $2, attempts = $3, response_status = $4, error = $5,
+           next_attempt_at = CASE WHEN $2 = 'pending' THEN now() + $6 * interval '1 millisecond' ELSE NULL END,
+           completed_at = CASE WHEN $2 = 'pending' THEN NULL ELSE now() END WHERE id = $1`,
+          [deliveryId, status, attempt, responseStatus, error, retryDelayMs]
+        );
+      } catch (err) {
+        console.error('Webhook delivery log error:', err);
+      }
+
+      if (status !== 'pending') {
+        if (status === 'failed') {
+          console.error(`Webhook delivery ${deliveryId} to ${target.url} failed after ${attempt} attempts: ${error}`);
+        }
+        return;
+      }
+
+      await sleep(retryDelayMs);
+    }
+  }
+}
+
+// Singleton instance
+const webhookService = new WebhookService();
+
+export { webhookService };
+export default webhookService;
@@ -1,5 +1,10 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { validateSessionRequest } from '@/lib/session-security';
+import { getClientIP } from '@/lib/client-ip';
+import { sessionService } from '@/lib/auth/sessions';
+import { networkRuleService, getNetworkDenialDetails } from '@/lib/auth/network-rules';
+import { auditLogger } from '@/lib/audit/logger';
 
 // Define public routes that don't require authentication
 const isPublicRoute = createRouteMatcher([
@@ -11,6 +16,67 @@ const isPublicRoute = createRouteMatcher([
   '/api/auth(.*)'
 ]);
 
+// API routes enforce session limits in the API guard
+const isApiRoute = createRouteMatcher(['/api(.*)', '/trpc(.*)']);
+
+// Pages get the same idle timeout and maximum lifetime as API routes: an expired or ended session is sent
+// back to sign in
+async function checkPageSession(req: NextRequest, sessionId: string): Promise<NextResponse | null> {
+  const ip = getClientIP(req);
+  const userAgent = req.headers.get('user-agent');
+  const result = await sessionService.checkSession(sessionId, ip, userAgent);
+
+  // The page shell holds no data and the API guard refuses the requests behind it, so let it load
+  if (!result.success) {
+    return null;
+  }
+
+  if (result.status === 'expired' && result.session) {
+    await auditLogger.logSessionEvent(
+      result.session.email,
+      'session_expired',
+      req.nextUrl.pathname,
+      ip,
+      userAgent,
+      { session_id: result.session.id, reason: result.session.end_reason, expires_at: result.session.expires_at }
+    );
+  }
+
+  if (result.status === 'expired' || result.status === 'ended') {
+    const loginUrl = new URL('/auth/login', req.url);
+    loginUrl.searchParams.set('reason', 'session_expired');
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return null;
+}
+
+// Global network rules apply before the user is known; rules for a role are enforced by the API guard
+async function checkNetwork(req: NextRequest, userId: string): Promise<Response | null> {
+  const ip = getClientIP(req);
+  const result = await networkRuleService.checkAccess(ip);
+
+  // Like session checks, a database error lets the page shell load; the API guard refuses the requests behind it
+  if (result.allowed || result.error) {
+    return null;
+  }
+
+  await auditLogger.logAuthEvent(
+    null,
+    isApiRoute(req) ? 'api_deny' : 'login_deny',
+    req.nextUrl.pathname,
+    ip,
+    req.headers.get('user-agent'),
+    { ...getNetworkDenialDetails(result), user_id: userId }
+  );
+
+  if (isApiRoute(req)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return new Response('Access from this network is not allowed', { status: 403 });
+}
+
 export default clerkMiddleware(async (auth, req) => {
   // Skip session validation for auth routes and API auth routes to avoid interfering with Clerk
   if (!req.nextUrl.pathname.startsWith('/auth') && !req.nextUrl.pathname.startsWith('/api/auth')) {
@@ -31,10 +97,26 @@ export default clerkMiddleware(async (auth, req) => {
   }
 
   // For protected routes, let Clerk handle the authentication
-  await auth.protect();
+  const { userId, sessionId } = await auth.protect();
+
+  const networkDenial = await checkNetwork(req, userId);
+
+  if (networkDenial) {
+    return networkDenial;
+  }
+
+  if (!isApiRoute(req) && sessionId) {
+    const redirect = await checkPageSession(req, sessionId);
+
+    if (redirect) {
+      return redirect;
+    }
+  }
 });
 
 export const config = {
+  // Session checks query Postgres, which needs the Node.js runtime
+  runtime: 'nodejs',
   matcher: [
     // Skip Next.js internals and all static files, unless found in search params
     '/((?!_next|[^?]*\\.(?:html?|css|js(?!on)|jpe?g|webp|png|gif|svg|ttf|woff2?|ico|csv|docx?|xlsx?|zip|webmanifest)).*)',